@@ -29,6 +29,7 @@ const sidebars: SidebarsConfig = {
       collapsed: false,
       items: [
         'api/circuit-breaker',
+        'api/circuit-breaker-registry',
         'api/enums-and-errors',
         'api/interfaces-and-types',
       ],
@@ -1,6 +1,12 @@
 import { Registry } from 'prom-client';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { CallResult, HealthCheckType } from 'zenvark';
+import {
+  CallResult,
+  CircuitState,
+  FallbackReason,
+  HealthCheckType,
+  StateChangeReason,
+} from 'zenvark';
 import { PrometheusBreakerMetrics } from './prometheus-breaker-metrics.ts';
 
 describe('PrometheusBreakerMetrics', () => {
@@ -19,6 +25,7 @@ describe('PrometheusBreakerMetrics', () => {
     // Default prefix is 'zenvark'
     expect(allMetrics).toContain('zenvark_call_duration_seconds');
     expect(allMetrics).toContain('zenvark_blocked_requests_total');
+    expect(allMetrics).toContain('zenvark_shadow_blocked_requests_total');
     expect(allMetrics).toContain('zenvark_healthcheck_duration_seconds');
   });
 
@@ -67,6 +74,78 @@ describe('PrometheusBreakerMetrics', () => {
     );
   });
 
+  it('recordShadowBlockedRequest increments shadow blocked requests counter', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordShadowBlockedRequest({ breakerId });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_shadow_blocked_requests_total{[^}]*breaker_id="${breakerId}"[^}]*} 1`,
+      ),
+    );
+    expect(allMetrics).not.toMatch(
+      new RegExp(
+        `zenvark_blocked_requests_total{[^}]*breaker_id="${breakerId}"[^}]*} 1`,
+      ),
+    );
+  });
+
+  it('recordBulkheadRejection increments bulkhead rejections counter', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordBulkheadRejection({ breakerId });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_bulkhead_rejections_total{[^}]*breaker_id="${breakerId}"[^}]*} 1`,
+      ),
+    );
+  });
+
+  it('recordFallback increments fallbacks counter with reason label', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordFallback({ breakerId, reason: FallbackReason.CIRCUIT_OPEN });
+    bm.recordFallback({ breakerId, reason: FallbackReason.CIRCUIT_OPEN });
+    bm.recordFallback({ breakerId, reason: FallbackReason.TIMEOUT });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_fallbacks_total{[^}]*reason="${FallbackReason.CIRCUIT_OPEN}"[^}]*} 2`,
+      ),
+    );
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_fallbacks_total{[^}]*reason="${FallbackReason.TIMEOUT}"[^}]*} 1`,
+      ),
+    );
+  });
+
+  it('recordStateChange increments state changes counter with state and reason labels', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordStateChange({
+      breakerId,
+      state: CircuitState.OPEN,
+      reason: StateChangeReason.BREAKER_TRIPPED,
+    });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_state_changes_total{[^}]*state="${CircuitState.OPEN}",reason="${StateChangeReason.BREAKER_TRIPPED}"[^}]*} 1`,
+      ),
+    );
+  });
+
   it('recordHealthCheck observes duration with correct labels', async () => {
     const callResult = CallResult.SUCCESS;
 
@@ -89,6 +168,39 @@ describe('PrometheusBreakerMetrics', () => {
     expect(allMetrics).toContain('0.7');
   });
 
+  it('recordCallResultFlush observes flush duration with result label', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordCallResultFlush({
+      breakerId,
+      result: CallResult.SUCCESS,
+      batchSize: 100,
+      durationMs: 4,
+    });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_call_result_flush_duration_seconds_count{[^}]*breaker_id="${breakerId}",result="${CallResult.SUCCESS}"[^}]*} 1`,
+      ),
+    );
+  });
+
+  it('recordDroppedCallResults increments dropped call results counter by the count', async () => {
+    const bm = new PrometheusBreakerMetrics({ registry });
+
+    bm.recordDroppedCallResults({ breakerId, count: 5 });
+
+    const allMetrics = await registry.metrics();
+
+    expect(allMetrics).toMatch(
+      new RegExp(
+        `zenvark_dropped_call_results_total{[^}]*breaker_id="${breakerId}"[^}]*} 5`,
+      ),
+    );
+  });
+
   it('uses the custom prefix and includes custom labels in metrics', async () => {
     const prefix = 'testprefix';
     const customLabels = { env: 'test', version: 'v1' };
@@ -3,7 +3,11 @@ import type {
   BreakerMetricsRecorder,
   RecordBlockedRequestParams,
   RecordCallParams,
+  RecordCallResultFlushParams,
+  RecordDroppedCallResultsParams,
+  RecordFallbackParams,
   RecordHealthCheckParams,
+  RecordStateChangeParams,
 } from 'zenvark';
 import {
   getOrCreateCounter,
@@ -32,7 +36,13 @@ export class PrometheusBreakerMetrics implements BreakerMetricsRecorder {
 
   private readonly callDurationHistogram: Histogram<string>;
   private readonly blockedRequestsCounter: Counter<string>;
+  private readonly shadowBlockedRequestsCounter: Counter<string>;
+  private readonly bulkheadRejectionsCounter: Counter<string>;
+  private readonly fallbacksCounter: Counter<string>;
+  private readonly stateChangesCounter: Counter<string>;
   private readonly healthcheckDurationHistogram: Histogram<string>;
+  private readonly callResultFlushDurationHistogram: Histogram<string>;
+  private readonly droppedCallResultsCounter: Counter<string>;
 
   constructor(options: PrometheusBreakerMetricsOptions) {
     const prefix = options.prefix ?? 'zenvark';
@@ -55,6 +65,34 @@ export class PrometheusBreakerMetrics implements BreakerMetricsRecorder {
       registers: [options.registry],
     });
 
+    this.shadowBlockedRequestsCounter = getOrCreateCounter(options.registry, {
+      name: `${prefix}_shadow_blocked_requests_total`,
+      help: 'Total number of requests that would have been blocked by a circuit breaker in shadow mode.',
+      labelNames: ['breaker_id', ...customLabelNames],
+      registers: [options.registry],
+    });
+
+    this.bulkheadRejectionsCounter = getOrCreateCounter(options.registry, {
+      name: `${prefix}_bulkhead_rejections_total`,
+      help: 'Total number of requests rejected because the bulkhead concurrency limit was reached.',
+      labelNames: ['breaker_id', ...customLabelNames],
+      registers: [options.registry],
+    });
+
+    this.fallbacksCounter = getOrCreateCounter(options.registry, {
+      name: `${prefix}_fallbacks_total`,
+      help: 'Total number of fallback results returned instead of the result of a call.',
+      labelNames: ['breaker_id', 'reason', ...customLabelNames],
+      registers: [options.registry],
+    });
+
+    this.stateChangesCounter = getOrCreateCounter(options.registry, {
+      name: `${prefix}_state_changes_total`,
+      help: 'Total number of circuit state transitions, by target state and reason.',
+      labelNames: ['breaker_id', 'state', 'reason', ...customLabelNames],
+      registers: [options.registry],
+    });
+
     this.healthcheckDurationHistogram = getOrCreateHistogram(options.registry, {
       name: `${prefix}_healthcheck_duration_seconds`,
       help: 'Duration of health check attempts executed by the circuit breaker in seconds.',
@@ -62,16 +100,36 @@ export class PrometheusBreakerMetrics implements BreakerMetricsRecorder {
       buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
       registers: [options.registry],
     });
+
+    this.callResultFlushDurationHistogram = getOrCreateHistogram(
+      options.registry,
+      {
+        name: `${prefix}_call_result_flush_duration_seconds`,
+        help: 'Duration of writing a batch of buffered call results in seconds.',
+        labelNames: ['breaker_id', 'result', ...customLabelNames],
+        buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+        registers: [options.registry],
+      },
+    );
+
+    this.droppedCallResultsCounter = getOrCreateCounter(options.registry, {
+      name: `${prefix}_dropped_call_results_total`,
+      help: 'Total number of buffered call results dropped because the buffer was full.',
+      labelNames: ['breaker_id', ...customLabelNames],
+      registers: [options.registry],
+    });
   }
 
   /**
    * Initialize metrics for a circuit breaker.
-   * Sets the blocked requests counter to 0 so the metric appears in scrapes immediately.
+   * Sets the blocked requests counters to 0 so the metrics appear in scrapes immediately.
    */
   initialize(breakerId: string): void {
     const labels = this.getLabels(breakerId);
 
     this.blockedRequestsCounter.inc(labels, 0);
+    this.shadowBlockedRequestsCounter.inc(labels, 0);
+    this.bulkheadRejectionsCounter.inc(labels, 0);
   }
 
   private getLabels(
@@ -105,6 +163,47 @@ export class PrometheusBreakerMetrics implements BreakerMetricsRecorder {
     this.blockedRequestsCounter.inc(labels, 1);
   }
 
+  /**
+   * Record a request that would have been blocked in shadow mode
+   */
+  recordShadowBlockedRequest(params: RecordBlockedRequestParams): void {
+    const labels = this.getLabels(params.breakerId);
+
+    this.shadowBlockedRequestsCounter.inc(labels, 1);
+  }
+
+  /**
+   * Record a request rejected because the bulkhead concurrency limit was reached
+   */
+  recordBulkheadRejection(params: RecordBlockedRequestParams): void {
+    const labels = this.getLabels(params.breakerId);
+
+    this.bulkheadRejectionsCounter.inc(labels, 1);
+  }
+
+  /**
+   * Record a fallback result returned instead of the call's result
+   */
+  recordFallback(params: RecordFallbackParams): void {
+    const labels = this.getLabels(params.breakerId, {
+      reason: params.reason,
+    });
+
+    this.fallbacksCounter.inc(labels, 1);
+  }
+
+  /**
+   * Record a state transition
+   */
+  recordStateChange(params: RecordStateChangeParams): void {
+    const labels = this.getLabels(params.breakerId, {
+      state: params.state,
+      reason: params.reason ?? 'unknown',
+    });
+
+    this.stateChangesCounter.inc(labels, 1);
+  }
+
   /**
    * Record healthcheck attempt
    */
@@ -116,4 +215,27 @@ export class PrometheusBreakerMetrics implements BreakerMetricsRecorder {
 
     this.healthcheckDurationHistogram.observe(labels, params.durationMs / 1000);
   }
+
+  /**
+   * Record a batch of buffered call results written together
+   */
+  recordCallResultFlush(params: RecordCallResultFlushParams): void {
+    const labels = this.getLabels(params.breakerId, {
+      result: params.result,
+    });
+
+    this.callResultFlushDurationHistogram.observe(
+      labels,
+      params.durationMs / 1000,
+    );
+  }
+
+  /**
+   * Record buffered call results dropped because the buffer was full
+   */
+  recordDroppedCallResults(params: RecordDroppedCallResultsParams): void {
+    const labels = this.getLabels(params.breakerId);
+
+    this.droppedCallResultsCounter.inc(labels, params.count);
+  }
 }
@@ -0,0 +1,143 @@
+import type { CallResult } from '../constants.ts';
+import type { CallResultBucket, CallResultEvent } from '../types.ts';
+import { AbstractLifecycleManager } from '../utils/abstract-lifecycle-manager.ts';
+import {
+  aggregateCallResults,
+  areBucketsEqual,
+} from '../utils/call-result-buckets.ts';
+import { delay } from '../utils/delay.ts';
+import type {
+  CallResultBucketStore,
+  CallResultBucketStoreOptions,
+} from './breaker-backend.ts';
+
+export type CallResultBucketPollingOptions = Omit<
+  CallResultBucketStoreOptions,
+  'breakerId'
+>;
+
+type PollLoop = {
+  abortController: AbortController;
+  promise: Promise<unknown>;
+};
+
+/**
+ * Base class for bucket stores. Aggregates written call results per bucket
+ * and polls the stored buckets, notifying `onBucketsUpdated` when they change.
+ */
+export abstract class AbstractCallResultBucketStore
+  extends AbstractLifecycleManager
+  implements CallResultBucketStore
+{
+  protected readonly bucketMs: number;
+  protected readonly retentionMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly onReadError: (err: unknown) => void;
+  private readonly onWriteError: (err: unknown) => void;
+  private readonly onBucketsUpdated: (
+    buckets: CallResultBucket[],
+  ) => void | Promise<void>;
+
+  private buckets: CallResultBucket[] = [];
+  private pollLoop: PollLoop | null = null;
+
+  constructor(options: CallResultBucketPollingOptions) {
+    super();
+    this.bucketMs = options.bucketMs;
+    this.retentionMs = options.retentionMs;
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.onReadError = options.onReadError;
+    this.onWriteError = options.onWriteError;
+    this.onBucketsUpdated = options.onBucketsUpdated;
+  }
+
+  protected override async startInternal(): Promise<void> {
+    this.buckets = await this.readBuckets(Date.now() - this.retentionMs);
+    if (this.buckets.length > 0) {
+      this.onBucketsUpdated(this.buckets);
+    }
+
+    const abortController = new AbortController();
+    this.pollLoop = {
+      abortController,
+      promise: this.startPollLoop(abortController.signal),
+    };
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    if (this.pollLoop) {
+      this.pollLoop.abortController.abort();
+      await this.pollLoop.promise;
+      this.pollLoop = null;
+    }
+
+    this.buckets = [];
+  }
+
+  getBuckets(): CallResultBucket[] {
+    return this.buckets;
+  }
+
+  async storeCallResult(callResult: CallResult): Promise<void> {
+    try {
+      await this.storeCallResults([{ callResult, timestamp: Date.now() }]);
+    } catch (err) {
+      this.onWriteError(err);
+    }
+  }
+
+  async storeCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await this.incrementBuckets(aggregateCallResults(events, this.bucketMs));
+  }
+
+  /**
+   * Reads the stored buckets, dropping the ones that start before `minTimestamp`.
+   * @param minTimestamp Unix timestamp (in milliseconds) of the oldest retained bucket
+   * @returns Buckets ordered from oldest to newest
+   */
+  protected abstract readBuckets(
+    minTimestamp: number,
+  ): Promise<CallResultBucket[]>;
+
+  /**
+   * Adds the counts of the given buckets to the stored ones.
+   */
+  protected abstract incrementBuckets(
+    buckets: CallResultBucket[],
+  ): Promise<void>;
+
+  private async startPollLoop(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await delay(this.pollIntervalMs, signal);
+      if (signal.aborted) {
+        return;
+      }
+
+      await this.poll();
+    }
+  }
+
+  private async poll(): Promise<void> {
+    let buckets: CallResultBucket[];
+
+    try {
+      buckets = await this.readBuckets(Date.now() - this.retentionMs);
+    } catch (err) {
+      this.onReadError(err);
+      return;
+    }
+
+    if (areBucketsEqual(buckets, this.buckets)) {
+      return;
+    }
+
+    this.buckets = buckets;
+    this.onBucketsUpdated(this.buckets);
+  }
+}
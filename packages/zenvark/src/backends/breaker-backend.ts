@@ -0,0 +1,369 @@
+import type { BreakerStrategy } from '../breakers/breaker-strategy.ts';
+import type {
+  CallResult,
+  CircuitRole,
+  CircuitState,
+  StateChangeReason,
+} from '../constants.ts';
+import type {
+  BreakerConfig,
+  BreakerConfigVersion,
+  CallResultBucket,
+  CallResultEvent,
+  CircuitOverride,
+  ConfigChangeParams,
+  OverrideParams,
+  StateChangeDetails,
+  StateHistoryEntry,
+  StateHistoryParams,
+  StateTransition,
+} from '../types.ts';
+
+/**
+ * How many past transitions the state log keeps. The latest transition is always kept.
+ */
+export type StateRetention =
+  | {
+      /** Maximum number of transitions kept */
+      maxEntries: number;
+    }
+  | {
+      /** Transitions older than this many milliseconds are trimmed */
+      maxAgeMs: number;
+    };
+
+/**
+ * How many past call results the call-result stream keeps.
+ */
+export type CallResultRetention =
+  | {
+      /** Maximum number of call results kept */
+      maxEntries: number;
+    }
+  | {
+      /** Call results older than this many milliseconds are trimmed */
+      maxAgeMs: number;
+    };
+
+/**
+ * Timings of the leader election. A crashed leader is replaced within about
+ * `lockTtlMs + acquireIntervalMs + acquireJitterMs`; a stopped one right away.
+ */
+export type LeaderElectionConfig = {
+  /** How long leadership lasts without being refreshed, in milliseconds. Defaults to 10 seconds. */
+  lockTtlMs?: number;
+  /** Interval in milliseconds at which the leader refreshes leadership. Defaults to 80% of `lockTtlMs`. */
+  refreshIntervalMs?: number;
+  /** Interval in milliseconds at which followers try to acquire leadership. Defaults to 5 seconds. */
+  acquireIntervalMs?: number;
+  /**
+   * Random delay of up to this many milliseconds added to each acquire interval,
+   * spreading the attempts of many instances. Defaults to 0.
+   */
+  acquireJitterMs?: number;
+};
+
+export type CallResultStoreOptions = {
+  /** Identifies the circuit whose call results are stored */
+  breakerId: string;
+  /** How many past events to retain in memory and in the backend */
+  retention: CallResultRetention;
+  /** Called when an error occurs while reading call results */
+  onReadError: (err: unknown) => void;
+  /** Called when an error occurs while writing a call result */
+  onWriteError: (err: unknown) => void;
+  /** Called whenever new events are added. Receives the full list of current events. */
+  onEventsAdded: (events: CallResultEvent[]) => void | Promise<void>;
+};
+
+export type CallResultBucketStoreOptions = {
+  /** Identifies the circuit whose call results are counted */
+  breakerId: string;
+  /** Length of a bucket in milliseconds */
+  bucketMs: number;
+  /** Buckets starting longer ago than this many milliseconds are dropped */
+  retentionMs: number;
+  /** Interval in milliseconds at which the buckets are read from the backend */
+  pollIntervalMs: number;
+  /** Called when an error occurs while reading the buckets */
+  onReadError: (err: unknown) => void;
+  /** Called when an error occurs while writing a call result */
+  onWriteError: (err: unknown) => void;
+  /** Called whenever the buckets change. Receives the full list of current buckets. */
+  onBucketsUpdated: (buckets: CallResultBucket[]) => void | Promise<void>;
+};
+
+export type CallResultEvaluatorOptions = {
+  /** Identifies the circuit whose call results are recorded */
+  breakerId: string;
+  /** Identifies this instance as the writer of the transitions the evaluator appends */
+  instanceId: string;
+  /** How many past call results the backend keeps */
+  retention: CallResultRetention;
+  /** How many past transitions the backend keeps */
+  stateRetention: StateRetention;
+};
+
+export type CircuitStateStoreOptions = {
+  /** Identifies the circuit whose state is stored */
+  breakerId: string;
+  /** Identifies this instance as the writer of the transitions it appends */
+  instanceId: string;
+  /** How many past transitions the backend keeps */
+  retention: StateRetention;
+  /** Called when an error occurs while reading transitions */
+  onReadError: (err: unknown) => void;
+  /** Called when an error occurs while writing a transition */
+  onWriteError: (err: unknown) => void;
+  /**
+   * Returns the leadership term of this instance, or null if it does not lead.
+   * When set, transitions are only appended by the leader of the latest term.
+   */
+  getFencingToken?: () => number | null;
+  /** Called when a transition is not appended, because the state moved on or leadership was lost */
+  onWriteRejected?: (err: Error) => void;
+  /** Called whenever the state changes to a new value. Not called during initial load. */
+  onStateChange?: (transition: StateTransition) => void;
+  /** Called whenever a manual override is set, replaced or cleared. Not called during initial load. */
+  onOverrideChange?: (override: CircuitOverride | null) => void;
+};
+
+export type BreakerConfigStoreOptions = {
+  /** Identifies the circuit whose config is stored */
+  breakerId: string;
+  /** Number of past versions the change log keeps */
+  maxVersions: number;
+  /** Called when an error occurs while reading config versions */
+  onReadError: (err: unknown) => void;
+  /** Called whenever a new config version is written. Not called during initial load. */
+  onConfigChange: (config: BreakerConfigVersion) => void;
+};
+
+export type LeaderElectorOptions = {
+  /** Identifies the circuit whose leadership is coordinated */
+  breakerId: string;
+  /** Timings of the election. Backends coordinating in-process may ignore them. */
+  election: LeaderElectionConfig;
+  /** Called when an error occurs while acquiring or handing over leadership */
+  onAcquireError: (err: unknown) => void;
+  /** Called when role changes to leader or follower */
+  onRoleChange: (role: CircuitRole) => void;
+};
+
+export type TrialPermitStoreOptions = {
+  /** Identifies the circuit whose trial calls are counted */
+  breakerId: string;
+  /**
+   * Lifetime of a permit counter in milliseconds. Once it expires, a new batch
+   * of trial calls is admitted, so a crashed instance cannot stall recovery.
+   */
+  ttlMs: number;
+};
+
+export type BulkheadStoreOptions = {
+  /** Identifies the circuit whose concurrent calls are limited */
+  breakerId: string;
+  /**
+   * Lifetime of a lease in milliseconds. Leases not released within it are
+   * dropped, so a crashed instance cannot hold its slots forever.
+   */
+  leaseTtlMs: number;
+};
+
+/**
+ * Log of call results shared by all instances of a circuit.
+ */
+export interface CallResultStore {
+  /** Loads the retained events and starts delivering new ones to `onEventsAdded` */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** Returns the retained events, ordered from oldest to newest */
+  getEvents(): CallResultEvent[];
+  /** Appends a call result. Write errors are passed to `onWriteError`. */
+  storeCallResult(callResult: CallResult): Promise<void>;
+  /**
+   * Appends call results recorded elsewhere, keeping their original timestamps.
+   * Unlike `storeCallResult`, write errors are thrown to the caller.
+   */
+  storeCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  ): Promise<void>;
+}
+
+/**
+ * Call result counters per time bucket shared by all instances of a circuit.
+ * Cheaper than a log of every call for circuits with a high call rate.
+ */
+export interface CallResultBucketStore {
+  /** Loads the retained buckets and starts polling them for changes */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** Returns the retained buckets, ordered from oldest to newest */
+  getBuckets(): CallResultBucket[];
+  /** Counts a call result in the current bucket. Write errors are passed to `onWriteError`. */
+  storeCallResult(callResult: CallResult): Promise<void>;
+  /**
+   * Counts call results recorded elsewhere in the buckets of their original timestamps.
+   * Unlike `storeCallResult`, write errors are thrown to the caller.
+   */
+  storeCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  ): Promise<void>;
+}
+
+/**
+ * Records call results and evaluates the breaker strategy on them within the backend,
+ * so any instance can open the circuit without waiting for the leader.
+ */
+export interface CallResultEvaluator {
+  /**
+   * Appends call results to the log read by `CallResultStore`, then evaluates the strategy
+   * on the results recorded since the latest transition. If the circuit is CLOSED and not
+   * overridden and the strategy trips, appends an OPEN transition in the same atomic step.
+   * Errors are thrown to the caller.
+   * @param events Call results, keeping their original timestamps
+   * @param breaker Strategy to evaluate. Backends evaluating it in the data store use `toConfig`.
+   * @returns true if the circuit was opened
+   */
+  recordCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+    breaker: BreakerStrategy,
+  ): Promise<boolean>;
+}
+
+/**
+ * Log of state transitions and manual overrides shared by all instances of a circuit.
+ */
+export interface CircuitStateStore {
+  /** Loads the latest transition and starts delivering new ones */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  getState(): CircuitState;
+  /** Returns 0 if the circuit has never transitioned from its initial state */
+  getLastStateChangeTimestamp(): number;
+  /**
+   * Returns an id unique to the latest transition, used to scope HALF_OPEN trial permits.
+   * Returns '0' if the circuit has never transitioned from its initial state.
+   */
+  getLastStateChangeId(): string;
+  getLastTransition(): StateTransition;
+  getOverride(): CircuitOverride | null;
+  /**
+   * Appends a transition if no other transition was appended since the store last read
+   * the state, and no leader of a later term has written. Rejected transitions are passed
+   * to `onWriteRejected`, write errors to `onWriteError`.
+   */
+  setState(
+    state: CircuitState,
+    reason: StateChangeReason,
+    details?: StateChangeDetails,
+  ): Promise<void>;
+  /** Write errors are thrown to the caller */
+  setOverride(state: CircuitState, params: OverrideParams): Promise<void>;
+  /** Write errors are thrown to the caller */
+  clearOverride(params: OverrideParams): Promise<void>;
+  /** Returns past transitions ordered from oldest to newest. Errors are thrown to the caller. */
+  getHistory(params: StateHistoryParams): Promise<StateHistoryEntry[]>;
+}
+
+/**
+ * Versioned log of the config shared by all instances of a circuit.
+ * The latest version is the config in force.
+ */
+export interface BreakerConfigStore {
+  /** Loads the latest version and starts delivering new ones to `onConfigChange` */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** Returns the latest version, or null if the config has never been set */
+  getConfig(): BreakerConfigVersion | null;
+  /**
+   * Appends a version numbered one above the latest one. Errors are thrown to the caller.
+   * @returns the written version
+   */
+  setConfig(
+    config: BreakerConfig,
+    params: ConfigChangeParams,
+  ): Promise<BreakerConfigVersion>;
+  /**
+   * Returns past versions ordered from oldest to newest. Errors are thrown to the caller.
+   * @param limit Maximum number of versions returned, starting from the most recent
+   */
+  getHistory(limit?: number): Promise<BreakerConfigVersion[]>;
+}
+
+/**
+ * Elects a single leader among the instances of a circuit.
+ */
+export interface LeaderElector {
+  start(): Promise<void>;
+  /** Gives up leadership, if held, so another instance can take over without waiting */
+  stop(): Promise<void>;
+  /** Returns true if this instance currently holds leadership */
+  readonly isLeader: boolean;
+  /**
+   * Term of the current leadership, increasing with every leader across all instances.
+   * Null unless this instance leads.
+   */
+  readonly fencingToken: number | null;
+}
+
+/**
+ * Hands out a limited number of trial-call permits per HALF_OPEN phase.
+ */
+export interface TrialPermitStore {
+  /**
+   * Attempts to take a permit for the given HALF_OPEN phase.
+   * @param phaseId Identifier of the state transition that started the phase
+   * @param limit Maximum number of permits handed out for the phase
+   * @returns true if the permit was granted
+   */
+  tryAcquire(phaseId: string, limit: number): Promise<boolean>;
+  /**
+   * Returns a permit of a trial call that recorded no result, so another call can take it.
+   * @param phaseId Identifier of the state transition that started the phase
+   */
+  release(phaseId: string): Promise<void>;
+}
+
+/**
+ * Hands out a limited number of concurrent call leases.
+ */
+export interface BulkheadStore {
+  /**
+   * Attempts to take a lease.
+   * @param limit Maximum number of leases held at the same time
+   * @returns the lease id to release once the call completes, or null if the limit is reached
+   */
+  tryAcquire(limit: number): Promise<string | null>;
+  /** Releases a lease taken with `tryAcquire`. Releasing an expired lease is a no-op. */
+  release(leaseId: string): Promise<void>;
+}
+
+/**
+ * Storage and coordination shared by the instances of a circuit.
+ * Implement this interface to run circuit breakers on top of another data store.
+ */
+export interface BreakerBackend {
+  /**
+   * Whether the backend can currently be reached. Checked before each call
+   * to enter or leave degraded mode.
+   */
+  isAvailable(): boolean;
+  createCallResultStore(options: CallResultStoreOptions): CallResultStore;
+  /** Optional. Required to store call results in time buckets. */
+  createCallResultBucketStore?(
+    options: CallResultBucketStoreOptions,
+  ): CallResultBucketStore;
+  /** Optional. Required to evaluate the breaker strategy in the backend as call results are recorded. */
+  createCallResultEvaluator?(
+    options: CallResultEvaluatorOptions,
+  ): CallResultEvaluator;
+  createCircuitStateStore(options: CircuitStateStoreOptions): CircuitStateStore;
+  createLeaderElector(options: LeaderElectorOptions): LeaderElector;
+  /** Optional. Required to change the config of running breakers through the backend. */
+  createBreakerConfigStore?(
+    options: BreakerConfigStoreOptions,
+  ): BreakerConfigStore;
+  createTrialPermitStore(options: TrialPermitStoreOptions): TrialPermitStore;
+  createBulkheadStore(options: BulkheadStoreOptions): BulkheadStore;
+}
@@ -0,0 +1,449 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConstantBackoff } from '../../backoffs/constant-backoff.ts';
+import { ConsecutiveBreaker } from '../../breakers/consecutive-breaker.ts';
+import { CountBreaker } from '../../breakers/count-breaker.ts';
+import { CircuitBreaker } from '../../circuit-breaker.ts';
+import {
+  BreakerStrategyType,
+  CircuitRole,
+  CircuitState,
+  StateChangeReason,
+} from '../../constants.ts';
+import type { BreakerConfig } from '../../types.ts';
+import { MemoryBackend } from './memory-backend.ts';
+
+describe('MemoryBackend', () => {
+  const createCircuit = (backend: MemoryBackend, id = 'test') =>
+    new CircuitBreaker({
+      id,
+      backend,
+      breaker: new ConsecutiveBreaker({ threshold: 2 }),
+      health: {
+        backoff: new ConstantBackoff({ delayMs: 50 }),
+        check: () => Promise.resolve(),
+      },
+      onError: vi.fn(),
+    });
+
+  it('runs a circuit breaker without Redis', async () => {
+    const circuit = createCircuit(new MemoryBackend());
+
+    await circuit.start();
+
+    expect(circuit.role).toBe(CircuitRole.LEADER);
+
+    for (let i = 0; i < 2; i++) {
+      await circuit
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+    }
+
+    await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.OPEN));
+    await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.CLOSED));
+
+    await circuit.stop();
+  });
+
+  it('shares the state between breakers of the same backend', async () => {
+    const backend = new MemoryBackend();
+    const leader = createCircuit(backend);
+    const follower = createCircuit(backend);
+
+    await leader.start();
+    await follower.start();
+
+    expect(leader.role).toBe(CircuitRole.LEADER);
+    expect(follower.role).toBe(CircuitRole.FOLLOWER);
+
+    await follower.forceOpen({ reason: 'maintenance' });
+
+    await vi.waitFor(() => {
+      expect(leader.state).toBe(CircuitState.OPEN);
+      expect(follower.state).toBe(CircuitState.OPEN);
+    });
+
+    await leader.stop();
+
+    expect(follower.role).toBe(CircuitRole.LEADER);
+
+    await follower.stop();
+  });
+
+  it('keeps circuits with different ids apart', async () => {
+    const backend = new MemoryBackend();
+    const payments = createCircuit(backend, 'payments');
+    const shipping = createCircuit(backend, 'shipping');
+
+    await Promise.all([payments.start(), shipping.start()]);
+
+    await payments.forceOpen({ reason: 'maintenance' });
+
+    await vi.waitFor(() => expect(payments.state).toBe(CircuitState.OPEN));
+    expect(shipping.state).toBe(CircuitState.CLOSED);
+    expect(shipping.role).toBe(CircuitRole.LEADER);
+
+    await Promise.all([payments.stop(), shipping.stop()]);
+  });
+
+  it('throws when neither redis nor backend is set', () => {
+    expect(
+      () =>
+        new CircuitBreaker({
+          id: 'test',
+          breaker: new ConsecutiveBreaker({ threshold: 1 }),
+          health: { backoff: new ConstantBackoff({ delayMs: 50 }) },
+        }),
+    ).toThrow('Cannot create circuit breaker "test"');
+  });
+
+  describe('call result buckets', () => {
+    it('opens the circuit from failures counted in buckets', async () => {
+      const backend = new MemoryBackend();
+      const createBucketedCircuit = () =>
+        new CircuitBreaker({
+          id: 'test',
+          backend,
+          breaker: new CountBreaker({
+            threshold: 0.5,
+            size: 10,
+            minimumNumberOfCalls: 4,
+          }),
+          health: {
+            backoff: new ConstantBackoff({ delayMs: 60_000 }),
+            check: () => Promise.resolve(),
+          },
+          callResultBuckets: {
+            bucketMs: 100,
+            retentionMs: 10_000,
+            pollIntervalMs: 10,
+          },
+          onError: vi.fn(),
+        });
+      const leader = createBucketedCircuit();
+      const follower = createBucketedCircuit();
+
+      await leader.start();
+      await follower.start();
+
+      for (let i = 0; i < 4; i++) {
+        await follower
+          .execute(() => Promise.reject(new Error('fail')))
+          .catch(() => {});
+      }
+
+      await vi.waitFor(() => expect(leader.state).toBe(CircuitState.OPEN));
+      expect(leader.lastTransition).toEqual(
+        expect.objectContaining({
+          reason: StateChangeReason.BREAKER_TRIPPED,
+          details: expect.objectContaining({
+            snapshot: expect.objectContaining({ calls: 4, failures: 4 }),
+          }),
+        }),
+      );
+
+      await Promise.all([leader.stop(), follower.stop()]);
+    });
+
+    it('throws when the strategy cannot evaluate buckets', () => {
+      expect(
+        () =>
+          new CircuitBreaker({
+            id: 'test',
+            backend: new MemoryBackend(),
+            breaker: new ConsecutiveBreaker({ threshold: 1 }),
+            health: { backoff: new ConstantBackoff({ delayMs: 50 }) },
+            callResultBuckets: { bucketMs: 100, retentionMs: 10_000 },
+          }),
+      ).toThrow('ConsecutiveBreaker cannot evaluate call result buckets');
+    });
+  });
+
+  describe('server-side evaluation', () => {
+    const createEvaluatingCircuit = (backend: MemoryBackend) =>
+      new CircuitBreaker({
+        id: 'test',
+        backend,
+        breaker: new ConsecutiveBreaker({ threshold: 2 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.resolve(),
+        },
+        serverSideEvaluation: true,
+        onError: vi.fn(),
+      });
+
+    it('opens the circuit from the instance recording the calls', async () => {
+      const backend = new MemoryBackend();
+      const leader = createEvaluatingCircuit(backend);
+      const follower = createEvaluatingCircuit(backend);
+
+      await leader.start();
+      await follower.start();
+
+      for (let i = 0; i < 2; i++) {
+        await follower
+          .execute(() => Promise.reject(new Error('fail')))
+          .catch(() => {});
+      }
+
+      await vi.waitFor(() => expect(leader.state).toBe(CircuitState.OPEN));
+      expect(leader.lastTransition).toEqual(
+        expect.objectContaining({
+          reason: StateChangeReason.BREAKER_TRIPPED,
+          instanceId: follower.instanceId,
+        }),
+      );
+
+      // The leader still runs recovery
+      await vi.waitFor(() => expect(leader.state).toBe(CircuitState.CLOSED));
+
+      await Promise.all([leader.stop(), follower.stop()]);
+    });
+
+    it('throws when the strategy cannot describe itself', () => {
+      expect(
+        () =>
+          new CircuitBreaker({
+            id: 'test',
+            backend: new MemoryBackend(),
+            breaker: { shouldOpenCircuit: () => false },
+            health: { backoff: new ConstantBackoff({ delayMs: 50 }) },
+            serverSideEvaluation: true,
+          }),
+      ).toThrow('Object cannot be evaluated by the backend');
+    });
+
+    it('throws when combined with call result buckets', () => {
+      expect(
+        () =>
+          new CircuitBreaker({
+            id: 'test',
+            backend: new MemoryBackend(),
+            breaker: new CountBreaker({
+              threshold: 0.5,
+              size: 10,
+              minimumNumberOfCalls: 4,
+            }),
+            health: { backoff: new ConstantBackoff({ delayMs: 50 }) },
+            callResultBuckets: { bucketMs: 100, retentionMs: 10_000 },
+            serverSideEvaluation: true,
+          }),
+      ).toThrow(
+        'serverSideEvaluation cannot be combined with callResultBuckets',
+      );
+    });
+  });
+
+  describe('degraded mode', () => {
+    class FlakyBackend extends MemoryBackend {
+      available = true;
+
+      override isAvailable(): boolean {
+        return this.available;
+      }
+    }
+
+    it('leaves degraded mode once the backend is back without further calls', async () => {
+      const backend = new FlakyBackend();
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        backend,
+        degradedMode: true,
+        breaker: new ConsecutiveBreaker({ threshold: 2 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        onError: vi.fn(),
+      });
+      await circuit.start();
+
+      backend.available = false;
+      for (let i = 0; i < 2; i++) {
+        await circuit
+          .execute(() => Promise.reject(new Error('fail')))
+          .catch(() => {});
+      }
+      expect(circuit.isDegraded).toBe(true);
+
+      backend.available = true;
+
+      await vi.waitFor(() => expect(circuit.isDegraded).toBe(false), {
+        timeout: 3000,
+      });
+      // The leader evaluates the shared results once its duties resume
+      await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.OPEN));
+
+      await circuit.stop();
+    });
+  });
+
+  describe('dynamic config', () => {
+    const createConfiguredCircuit = (backend: MemoryBackend) =>
+      new CircuitBreaker({
+        id: 'test',
+        backend,
+        breaker: new ConsecutiveBreaker({ threshold: 3 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 60_000 }),
+          check: () => Promise.resolve(),
+        },
+        dynamicConfig: true,
+        onError: vi.fn(),
+      });
+
+    it('applies a config written by another instance', async () => {
+      const backend = new MemoryBackend();
+      const leader = createConfiguredCircuit(backend);
+      const follower = createConfiguredCircuit(backend);
+      const onConfigChange = vi.fn();
+      leader.on('configChange', onConfigChange);
+
+      await leader.start();
+      await follower.start();
+
+      await leader
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+
+      const configVersion = await follower.updateConfig(
+        { breaker: { type: BreakerStrategyType.CONSECUTIVE, threshold: 1 } },
+        { reason: 'tighten threshold', actor: 'alice' },
+      );
+
+      await vi.waitFor(() =>
+        expect(onConfigChange).toHaveBeenCalledWith(configVersion),
+      );
+      expect(leader.config).toEqual(configVersion);
+
+      // The recorded failure is evaluated again with the new threshold
+      await vi.waitFor(() => expect(leader.state).toBe(CircuitState.OPEN));
+      expect(leader.lastTransition.details).toEqual(
+        expect.objectContaining({ strategy: 'ConsecutiveBreaker' }),
+      );
+
+      await Promise.all([leader.stop(), follower.stop()]);
+    });
+
+    it('applies the latest config on start', async () => {
+      const backend = new MemoryBackend();
+      const writer = createConfiguredCircuit(backend);
+      await writer.start();
+      await writer.updateConfig(
+        { idleProbeIntervalMs: 1000 },
+        { reason: 'first' },
+      );
+      await writer.updateConfig(
+        { idleProbeIntervalMs: 2000 },
+        { reason: 'second' },
+      );
+      await writer.stop();
+
+      const circuit = createConfiguredCircuit(backend);
+      await circuit.start();
+
+      expect(circuit.config).toEqual(
+        expect.objectContaining({ version: 2, reason: 'second' }),
+      );
+      await expect(circuit.getConfigHistory()).resolves.toEqual([
+        expect.objectContaining({ version: 1 }),
+        expect.objectContaining({ version: 2 }),
+      ]);
+
+      await circuit.stop();
+    });
+
+    it('rejects an invalid config without writing it', async () => {
+      const circuit = createConfiguredCircuit(new MemoryBackend());
+      await circuit.start();
+
+      await expect(
+        circuit.updateConfig(
+          {
+            breaker: { type: BreakerStrategyType.COUNT, threshold: 0.5 },
+          } as unknown as BreakerConfig,
+          { reason: 'test' },
+        ),
+      ).rejects.toThrow('Expected "size" to be a finite number');
+      await expect(circuit.getConfigHistory()).resolves.toEqual([]);
+      expect(circuit.config).toBeNull();
+
+      await circuit.stop();
+    });
+
+    it('rejects a strategy evaluating more call results than the retention keeps', async () => {
+      const circuit = createConfiguredCircuit(new MemoryBackend());
+      await circuit.start();
+
+      await expect(
+        circuit.updateConfig(
+          {
+            breaker: {
+              type: BreakerStrategyType.COUNT,
+              threshold: 0.5,
+              size: 100,
+              minimumNumberOfCalls: 10,
+            },
+          },
+          { reason: 'widen window' },
+        ),
+      ).rejects.toThrow(
+        'Call result retention keeps 3 call results, but the strategy evaluates the last 100',
+      );
+      await expect(circuit.getConfigHistory()).resolves.toEqual([]);
+
+      await circuit.stop();
+    });
+
+    it('keeps the current strategy when a stored config exceeds the retention', async () => {
+      const backend = new MemoryBackend();
+      const writer = new CircuitBreaker({
+        id: 'test',
+        backend,
+        breaker: new ConsecutiveBreaker({ threshold: 3 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        callResultRetention: { maxEntries: 100 },
+        dynamicConfig: true,
+        onError: vi.fn(),
+      });
+      await writer.start();
+      await writer.updateConfig(
+        { breaker: { type: BreakerStrategyType.CONSECUTIVE, threshold: 50 } },
+        { reason: 'loosen threshold' },
+      );
+      await writer.stop();
+
+      const onError = vi.fn();
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        backend,
+        breaker: new ConsecutiveBreaker({ threshold: 3 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        dynamicConfig: true,
+        onError,
+      });
+      await circuit.start();
+
+      expect(circuit.config).toBeNull();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Failed to apply breaker config version 1',
+          cause: expect.objectContaining({
+            message:
+              'Call result retention keeps 3 call results, but the strategy evaluates the last 50',
+          }),
+        }),
+      );
+
+      await circuit.stop();
+    });
+
+    it('throws on update when dynamic config is disabled', async () => {
+      const circuit = createCircuit(new MemoryBackend());
+      await circuit.start();
+
+      await expect(
+        circuit.updateConfig({ idleProbeIntervalMs: 1000 }, { reason: 'test' }),
+      ).rejects.toThrow('dynamicConfig is disabled');
+
+      await circuit.stop();
+    });
+  });
+});
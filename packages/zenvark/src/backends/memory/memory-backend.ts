@@ -0,0 +1,170 @@
+import type { BreakerConfigVersion, CallResultBucket } from '../../types.ts';
+import type {
+  BreakerBackend,
+  BreakerConfigStore,
+  BreakerConfigStoreOptions,
+  BulkheadStore,
+  BulkheadStoreOptions,
+  CallResultBucketStore,
+  CallResultBucketStoreOptions,
+  CallResultEvaluator,
+  CallResultEvaluatorOptions,
+  CallResultStore,
+  CallResultStoreOptions,
+  CircuitStateStore,
+  CircuitStateStoreOptions,
+  LeaderElector,
+  LeaderElectorOptions,
+  TrialPermitStore,
+  TrialPermitStoreOptions,
+} from '../breaker-backend.ts';
+import { MemoryBreakerConfigStore } from './memory-breaker-config-store.ts';
+import { MemoryBulkheadStore } from './memory-bulkhead-store.ts';
+import { MemoryCallResultBucketStore } from './memory-call-result-bucket-store.ts';
+import { MemoryCallResultEvaluator } from './memory-call-result-evaluator.ts';
+import {
+  type CallResultRecord,
+  MemoryCallResultStore,
+} from './memory-call-result-store.ts';
+import {
+  type CircuitStateRecord,
+  MemoryCircuitStateStore,
+} from './memory-circuit-state-store.ts';
+import { MemoryLeaderElector } from './memory-leader-elector.ts';
+import { MemoryStream } from './memory-stream.ts';
+import {
+  MemoryTrialPermitStore,
+  type TrialPermitCounter,
+} from './memory-trial-permit-store.ts';
+
+type MemoryCircuitData = {
+  callResults: MemoryStream<CallResultRecord>;
+  callResultBuckets: Map<number, CallResultBucket>;
+  states: MemoryStream<CircuitStateRecord>;
+  leaderCandidates: MemoryLeaderElector[];
+  /** Fencing token of the latest leadership term */
+  leaderTerm: number;
+  configVersions: MemoryStream<BreakerConfigVersion>;
+  trialPermits: Map<string, TrialPermitCounter>;
+  bulkheadLeases: Map<string, number>;
+};
+
+/**
+ * Keeps circuits within the process, for single-instance services, CLIs and tests.
+ * Circuit breakers sharing a backend behave like instances sharing a Redis server.
+ * Needs no lifecycle management and is always available.
+ */
+export class MemoryBackend implements BreakerBackend {
+  private readonly circuits = new Map<string, MemoryCircuitData>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  createCallResultStore(options: CallResultStoreOptions): CallResultStore {
+    return new MemoryCallResultStore({
+      stream: this.getCircuit(options.breakerId).callResults,
+      retention: options.retention,
+      onEventsAdded: options.onEventsAdded,
+    });
+  }
+
+  createCallResultBucketStore(
+    options: CallResultBucketStoreOptions,
+  ): CallResultBucketStore {
+    return new MemoryCallResultBucketStore({
+      buckets: this.getCircuit(options.breakerId).callResultBuckets,
+      bucketMs: options.bucketMs,
+      retentionMs: options.retentionMs,
+      pollIntervalMs: options.pollIntervalMs,
+      onReadError: options.onReadError,
+      onWriteError: options.onWriteError,
+      onBucketsUpdated: options.onBucketsUpdated,
+    });
+  }
+
+  createCallResultEvaluator(
+    options: CallResultEvaluatorOptions,
+  ): CallResultEvaluator {
+    const circuit = this.getCircuit(options.breakerId);
+
+    return new MemoryCallResultEvaluator({
+      callResults: circuit.callResults,
+      states: circuit.states,
+      instanceId: options.instanceId,
+      retention: options.retention,
+      stateRetention: options.stateRetention,
+    });
+  }
+
+  createCircuitStateStore(
+    options: CircuitStateStoreOptions,
+  ): CircuitStateStore {
+    const circuit = this.getCircuit(options.breakerId);
+
+    return new MemoryCircuitStateStore({
+      stream: circuit.states,
+      instanceId: options.instanceId,
+      retention: options.retention,
+      getFencingToken: options.getFencingToken,
+      getLeaderTerm: () => circuit.leaderTerm,
+      onWriteRejected: options.onWriteRejected,
+      onStateChange: options.onStateChange,
+      onOverrideChange: options.onOverrideChange,
+    });
+  }
+
+  createLeaderElector(options: LeaderElectorOptions): LeaderElector {
+    const circuit = this.getCircuit(options.breakerId);
+
+    return new MemoryLeaderElector({
+      candidates: circuit.leaderCandidates,
+      nextTerm: () => ++circuit.leaderTerm,
+      onRoleChange: options.onRoleChange,
+    });
+  }
+
+  createBreakerConfigStore(
+    options: BreakerConfigStoreOptions,
+  ): BreakerConfigStore {
+    return new MemoryBreakerConfigStore({
+      stream: this.getCircuit(options.breakerId).configVersions,
+      maxVersions: options.maxVersions,
+      onConfigChange: options.onConfigChange,
+    });
+  }
+
+  createTrialPermitStore(options: TrialPermitStoreOptions): TrialPermitStore {
+    return new MemoryTrialPermitStore({
+      counters: this.getCircuit(options.breakerId).trialPermits,
+      ttlMs: options.ttlMs,
+    });
+  }
+
+  createBulkheadStore(options: BulkheadStoreOptions): BulkheadStore {
+    return new MemoryBulkheadStore({
+      leases: this.getCircuit(options.breakerId).bulkheadLeases,
+      leaseTtlMs: options.leaseTtlMs,
+    });
+  }
+
+  private getCircuit(breakerId: string): MemoryCircuitData {
+    let circuit = this.circuits.get(breakerId);
+
+    if (!circuit) {
+      circuit = {
+        callResults: new MemoryStream(),
+        callResultBuckets: new Map(),
+        states: new MemoryStream(),
+        leaderCandidates: [],
+        leaderTerm: 0,
+        configVersions: new MemoryStream(),
+        trialPermits: new Map(),
+        bulkheadLeases: new Map(),
+      };
+      this.circuits.set(breakerId, circuit);
+    }
+
+    return circuit;
+  }
+}
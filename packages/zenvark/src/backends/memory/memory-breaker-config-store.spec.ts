@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BreakerStrategyType } from '../../constants.ts';
+import type { BreakerConfigVersion } from '../../types.ts';
+import { MemoryBreakerConfigStore } from './memory-breaker-config-store.ts';
+import { MemoryStream } from './memory-stream.ts';
+
+describe('MemoryBreakerConfigStore', () => {
+  const createStore = ({
+    stream = new MemoryStream<BreakerConfigVersion>(),
+    maxVersions = 10,
+    onConfigChange = vi.fn(),
+  }: {
+    stream?: MemoryStream<BreakerConfigVersion>;
+    maxVersions?: number;
+    onConfigChange?: (config: BreakerConfigVersion) => void;
+  } = {}) =>
+    new MemoryBreakerConfigStore({ stream, maxVersions, onConfigChange });
+
+  it('has no config until one is written', async () => {
+    const store = createStore();
+
+    await store.start();
+
+    expect(store.getConfig()).toBeNull();
+    await expect(store.getHistory()).resolves.toEqual([]);
+
+    await store.stop();
+  });
+
+  it('delivers new versions to every store of the circuit', async () => {
+    const stream = new MemoryStream<BreakerConfigVersion>();
+    const onConfigChange = vi.fn();
+    const writer = createStore({ stream });
+    const reader = createStore({ stream, onConfigChange });
+
+    await Promise.all([writer.start(), reader.start()]);
+
+    const configVersion = await writer.setConfig(
+      { idleProbeIntervalMs: 5000 },
+      { reason: 'incident', actor: 'alice' },
+    );
+
+    expect(configVersion).toEqual({
+      version: 1,
+      config: { idleProbeIntervalMs: 5000 },
+      reason: 'incident',
+      actor: 'alice',
+      timestamp: expect.any(Number),
+    });
+
+    await vi.waitFor(() =>
+      expect(onConfigChange).toHaveBeenCalledWith(configVersion),
+    );
+    expect(reader.getConfig()).toEqual(configVersion);
+
+    await Promise.all([writer.stop(), reader.stop()]);
+  });
+
+  it('loads the latest version on start without reporting it as a change', async () => {
+    const stream = new MemoryStream<BreakerConfigVersion>();
+    const writer = createStore({ stream });
+    await writer.start();
+    await writer.setConfig({ idleProbeIntervalMs: 1000 }, { reason: 'first' });
+    await writer.setConfig({ idleProbeIntervalMs: 2000 }, { reason: 'second' });
+    await writer.stop();
+
+    const onConfigChange = vi.fn();
+    const store = createStore({ stream, onConfigChange });
+    await store.start();
+
+    expect(store.getConfig()).toEqual(
+      expect.objectContaining({ version: 2, reason: 'second' }),
+    );
+    expect(onConfigChange).not.toHaveBeenCalled();
+
+    await store.stop();
+  });
+
+  it('keeps a limited change log, oldest version first', async () => {
+    const store = createStore({ maxVersions: 2 });
+    await store.start();
+
+    for (const threshold of [3, 5, 8]) {
+      await store.setConfig(
+        { breaker: { type: BreakerStrategyType.CONSECUTIVE, threshold } },
+        { reason: `threshold ${threshold}` },
+      );
+    }
+
+    const history = await store.getHistory();
+    expect(history.map((entry) => entry.version)).toEqual([2, 3]);
+    await expect(store.getHistory(1)).resolves.toEqual([
+      expect.objectContaining({ version: 3, reason: 'threshold 8' }),
+    ]);
+
+    await store.stop();
+  });
+
+  it('copies the written config', async () => {
+    const store = createStore();
+    await store.start();
+
+    const config = { idleProbeIntervalMs: 1000 };
+    await store.setConfig(config, { reason: 'test' });
+    config.idleProbeIntervalMs = 2000;
+
+    const [entry] = await store.getHistory();
+    expect(entry?.config).toEqual({ idleProbeIntervalMs: 1000 });
+
+    await store.stop();
+  });
+});
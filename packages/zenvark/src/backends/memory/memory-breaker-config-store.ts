@@ -0,0 +1,92 @@
+import type {
+  BreakerConfig,
+  BreakerConfigVersion,
+  ConfigChangeParams,
+} from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import type { BreakerConfigStore } from '../breaker-backend.ts';
+import type { MemoryStream } from './memory-stream.ts';
+
+type MemoryBreakerConfigStoreOptions = {
+  /** Stream shared by all stores of the circuit */
+  stream: MemoryStream<BreakerConfigVersion>;
+  /** Number of past versions the stream keeps */
+  maxVersions: number;
+  /** Called whenever a new config version is written. Not called during initial load. */
+  onConfigChange: (config: BreakerConfigVersion) => void;
+};
+
+/**
+ * Keeps the config of a circuit in an in-process stream, one entry per version.
+ */
+export class MemoryBreakerConfigStore
+  extends AbstractLifecycleManager
+  implements BreakerConfigStore
+{
+  private readonly stream: MemoryStream<BreakerConfigVersion>;
+  private readonly maxVersions: number;
+  private readonly onConfigChange: (config: BreakerConfigVersion) => void;
+
+  private config: BreakerConfigVersion | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: MemoryBreakerConfigStoreOptions) {
+    super();
+    this.stream = options.stream;
+    this.maxVersions = options.maxVersions;
+    this.onConfigChange = options.onConfigChange;
+  }
+
+  protected override startInternal(): Promise<void> {
+    this.config = this.stream.getEntries().at(-1)?.value ?? null;
+    this.unsubscribe = this.stream.subscribe((entries) => {
+      const entry = entries.at(-1);
+      if (!entry) {
+        return;
+      }
+
+      this.config = entry.value;
+      this.onConfigChange(entry.value);
+    });
+
+    return Promise.resolve();
+  }
+
+  protected override stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    return Promise.resolve();
+  }
+
+  getConfig(): BreakerConfigVersion | null {
+    return this.config;
+  }
+
+  setConfig(
+    config: BreakerConfig,
+    params: ConfigChangeParams,
+  ): Promise<BreakerConfigVersion> {
+    const latestVersion = this.stream.getEntries().at(-1)?.value.version ?? 0;
+    const configVersion: BreakerConfigVersion = {
+      version: latestVersion + 1,
+      // Copied, so later changes to the caller's object do not leak into the log
+      config: structuredClone(config),
+      reason: params.reason,
+      actor: params.actor,
+      timestamp: Date.now(),
+    };
+
+    this.stream.append(configVersion);
+    this.stream.trimToLength(this.maxVersions);
+
+    return Promise.resolve(configVersion);
+  }
+
+  getHistory(limit?: number): Promise<BreakerConfigVersion[]> {
+    const entries = this.stream.getEntries();
+    const start = limit === undefined ? 0 : Math.max(0, entries.length - limit);
+
+    return Promise.resolve(entries.slice(start).map((entry) => entry.value));
+  }
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from 'node:crypto';
+import type { BulkheadStore } from '../breaker-backend.ts';
+
+type MemoryBulkheadStoreOptions = {
+  /** Expiry times of the active leases of the circuit by lease id, shared by all of its stores */
+  leases: Map<string, number>;
+  /**
+   * Lifetime of a lease in milliseconds. Leases not released within it are dropped.
+   */
+  leaseTtlMs: number;
+};
+
+/**
+ * Hands out a limited number of concurrent call leases within the process.
+ */
+export class MemoryBulkheadStore implements BulkheadStore {
+  private readonly leases: Map<string, number>;
+  private readonly leaseTtlMs: number;
+
+  constructor(options: MemoryBulkheadStoreOptions) {
+    this.leases = options.leases;
+    this.leaseTtlMs = options.leaseTtlMs;
+  }
+
+  tryAcquire(limit: number): Promise<string | null> {
+    const now = Date.now();
+
+    for (const [leaseId, expiresAt] of this.leases) {
+      if (expiresAt <= now) {
+        this.leases.delete(leaseId);
+      }
+    }
+
+    if (this.leases.size >= limit) {
+      return Promise.resolve(null);
+    }
+
+    const leaseId = randomUUID();
+    this.leases.set(leaseId, now + this.leaseTtlMs);
+
+    return Promise.resolve(leaseId);
+  }
+
+  release(leaseId: string): Promise<void> {
+    this.leases.delete(leaseId);
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CallResult } from '../../constants.ts';
+import type { CallResultBucket } from '../../types.ts';
+import { delay } from '../../utils/delay.ts';
+import { MemoryCallResultBucketStore } from './memory-call-result-bucket-store.ts';
+
+describe('MemoryCallResultBucketStore', () => {
+  const createStore = (
+    buckets: Map<number, CallResultBucket>,
+    onBucketsUpdated = vi.fn(),
+  ) =>
+    new MemoryCallResultBucketStore({
+      buckets,
+      bucketMs: 1000,
+      retentionMs: 10_000,
+      pollIntervalMs: 10,
+      onReadError: vi.fn(),
+      onWriteError: vi.fn(),
+      onBucketsUpdated,
+    });
+
+  it('should count call results per bucket', async () => {
+    const store = createStore(new Map());
+    const now = Date.now();
+    const bucketStart = now - (now % 1000);
+
+    await store.storeCallResults([
+      { callResult: CallResult.SUCCESS, timestamp: bucketStart - 500 },
+      { callResult: CallResult.FAILURE, timestamp: bucketStart },
+      { callResult: CallResult.SLOW, timestamp: bucketStart + 1 },
+      { callResult: CallResult.FAILURE, timestamp: bucketStart + 2 },
+    ]);
+
+    await store.start();
+
+    expect(store.getBuckets()).toEqual([
+      {
+        timestamp: bucketStart - 1000,
+        successes: 1,
+        failures: 0,
+        slowCalls: 0,
+      },
+      { timestamp: bucketStart, successes: 0, failures: 2, slowCalls: 1 },
+    ]);
+
+    await store.stop();
+  });
+
+  it('should notify other stores of the circuit once they poll', async () => {
+    const buckets = new Map<number, CallResultBucket>();
+    const onBucketsUpdated = vi.fn();
+    const writer = createStore(buckets);
+    const reader = createStore(buckets, onBucketsUpdated);
+
+    await reader.start();
+    await writer.storeCallResult(CallResult.FAILURE);
+
+    await vi.waitFor(() =>
+      expect(onBucketsUpdated).toHaveBeenCalledWith([
+        expect.objectContaining({ failures: 1 }),
+      ]),
+    );
+
+    await reader.stop();
+  });
+
+  it('should not notify when the buckets are unchanged', async () => {
+    const onBucketsUpdated = vi.fn();
+    const store = createStore(new Map(), onBucketsUpdated);
+
+    await store.storeCallResult(CallResult.SUCCESS);
+    await store.start();
+    await delay(50);
+
+    expect(onBucketsUpdated).toHaveBeenCalledTimes(1);
+
+    await store.stop();
+  });
+
+  it('should drop buckets older than the retention', async () => {
+    const buckets = new Map<number, CallResultBucket>();
+    const store = createStore(buckets);
+
+    await store.storeCallResults([
+      { callResult: CallResult.FAILURE, timestamp: Date.now() - 60_000 },
+      { callResult: CallResult.SUCCESS, timestamp: Date.now() },
+    ]);
+
+    await store.start();
+
+    expect(store.getBuckets()).toEqual([
+      expect.objectContaining({ successes: 1, failures: 0 }),
+    ]);
+    expect(buckets.size).toBe(1);
+
+    await store.stop();
+  });
+});
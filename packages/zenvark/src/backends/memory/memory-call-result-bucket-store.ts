@@ -0,0 +1,58 @@
+import type { CallResultBucket } from '../../types.ts';
+import { createCallResultBucket } from '../../utils/call-result-buckets.ts';
+import {
+  AbstractCallResultBucketStore,
+  type CallResultBucketPollingOptions,
+} from '../abstract-call-result-bucket-store.ts';
+
+type MemoryCallResultBucketStoreOptions = CallResultBucketPollingOptions & {
+  /** Buckets of the circuit by start timestamp, shared by all of its stores */
+  buckets: Map<number, CallResultBucket>;
+};
+
+/**
+ * Counts the call results of a circuit per time bucket within the process.
+ */
+export class MemoryCallResultBucketStore extends AbstractCallResultBucketStore {
+  private readonly sharedBuckets: Map<number, CallResultBucket>;
+
+  constructor(options: MemoryCallResultBucketStoreOptions) {
+    super(options);
+    this.sharedBuckets = options.buckets;
+  }
+
+  protected override readBuckets(
+    minTimestamp: number,
+  ): Promise<CallResultBucket[]> {
+    for (const timestamp of this.sharedBuckets.keys()) {
+      if (timestamp < minTimestamp) {
+        this.sharedBuckets.delete(timestamp);
+      }
+    }
+
+    const buckets = Array.from(this.sharedBuckets.values(), (bucket) => ({
+      ...bucket,
+    }));
+
+    return Promise.resolve(buckets.sort((a, b) => a.timestamp - b.timestamp));
+  }
+
+  protected override incrementBuckets(
+    buckets: CallResultBucket[],
+  ): Promise<void> {
+    for (const bucket of buckets) {
+      let sharedBucket = this.sharedBuckets.get(bucket.timestamp);
+
+      if (!sharedBucket) {
+        sharedBucket = createCallResultBucket(bucket.timestamp);
+        this.sharedBuckets.set(bucket.timestamp, sharedBucket);
+      }
+
+      sharedBucket.successes += bucket.successes;
+      sharedBucket.failures += bucket.failures;
+      sharedBucket.slowCalls += bucket.slowCalls;
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { ConsecutiveBreaker } from '../../breakers/consecutive-breaker.ts';
+import {
+  CallResult,
+  CircuitState,
+  StateChangeReason,
+} from '../../constants.ts';
+import { MemoryCallResultEvaluator } from './memory-call-result-evaluator.ts';
+import type { CallResultRecord } from './memory-call-result-store.ts';
+import type { CircuitStateRecord } from './memory-circuit-state-store.ts';
+import { MemoryStream } from './memory-stream.ts';
+
+describe('MemoryCallResultEvaluator', () => {
+  const createEvaluator = () => {
+    const callResults = new MemoryStream<CallResultRecord>();
+    const states = new MemoryStream<CircuitStateRecord>();
+    const evaluator = new MemoryCallResultEvaluator({
+      callResults,
+      states,
+      instanceId: 'instance-1',
+      retention: { maxEntries: 100 },
+      stateRetention: { maxEntries: 10 },
+    });
+
+    return { callResults, states, evaluator };
+  };
+
+  const failures = (count: number, timestamp = Date.now()) =>
+    Array.from({ length: count }, () => ({
+      callResult: CallResult.FAILURE,
+      timestamp,
+    }));
+
+  it('records call results without opening while the strategy does not trip', async () => {
+    const { callResults, states, evaluator } = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 3 });
+
+    await expect(
+      evaluator.recordCallResults(failures(2), breaker),
+    ).resolves.toBe(false);
+
+    expect(callResults.getEntries()).toHaveLength(2);
+    expect(states.getEntries()).toHaveLength(0);
+  });
+
+  it('opens the circuit once the strategy trips', async () => {
+    const { states, evaluator } = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 3 });
+
+    await evaluator.recordCallResults(failures(2), breaker);
+    await expect(
+      evaluator.recordCallResults(failures(1), breaker),
+    ).resolves.toBe(true);
+
+    expect(states.getEntries().map((entry) => entry.value)).toEqual([
+      expect.objectContaining({
+        state: CircuitState.OPEN,
+        reason: StateChangeReason.BREAKER_TRIPPED,
+        details: {
+          strategy: 'ConsecutiveBreaker',
+          snapshot: { consecutiveFailures: 3, threshold: 3 },
+        },
+        instanceId: 'instance-1',
+        override: null,
+      }),
+    ]);
+  });
+
+  it('carries the latest leadership term forward', async () => {
+    const { states, evaluator } = createEvaluator();
+    states.append({
+      state: CircuitState.CLOSED,
+      timestamp: 0,
+      reason: StateChangeReason.TRIAL_CALLS_PASSED,
+      details: {},
+      instanceId: 'leader',
+      override: null,
+      term: 4,
+    });
+
+    await evaluator.recordCallResults(
+      failures(1),
+      new ConsecutiveBreaker({ threshold: 1 }),
+    );
+
+    expect(states.getEntries().at(-1)?.value).toEqual(
+      expect.objectContaining({ state: CircuitState.OPEN, term: 4 }),
+    );
+  });
+
+  it('only evaluates call results recorded since the latest transition', async () => {
+    const { states, evaluator } = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 2 });
+
+    await evaluator.recordCallResults(failures(1, 1000), breaker);
+    states.append({
+      state: CircuitState.CLOSED,
+      timestamp: 2000,
+      reason: StateChangeReason.TRIAL_CALLS_PASSED,
+      details: {},
+      instanceId: 'leader',
+      override: null,
+      term: 1,
+    });
+
+    await expect(
+      evaluator.recordCallResults(failures(1, 3000), breaker),
+    ).resolves.toBe(false);
+  });
+
+  it('does not open a circuit that is not CLOSED or is overridden', async () => {
+    const { states, evaluator } = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 1 });
+    states.append({
+      state: CircuitState.CLOSED,
+      timestamp: 0,
+      reason: StateChangeReason.MANUAL_OVERRIDE,
+      details: {},
+      instanceId: 'operator',
+      override: {
+        state: CircuitState.CLOSED,
+        reason: 'maintenance',
+        timestamp: 0,
+      },
+      term: 0,
+    });
+
+    await expect(
+      evaluator.recordCallResults(failures(1), breaker),
+    ).resolves.toBe(false);
+
+    states.append({
+      state: CircuitState.HALF_OPEN,
+      timestamp: 0,
+      reason: StateChangeReason.RECOVERY_CHECK_PASSED,
+      details: {},
+      instanceId: 'leader',
+      override: null,
+      term: 1,
+    });
+
+    await expect(
+      evaluator.recordCallResults(failures(1), breaker),
+    ).resolves.toBe(false);
+    expect(states.getEntries()).toHaveLength(2);
+  });
+});
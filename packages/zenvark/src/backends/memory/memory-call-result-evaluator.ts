@@ -0,0 +1,101 @@
+import type { BreakerStrategy } from '../../breakers/breaker-strategy.ts';
+import { CircuitState, StateChangeReason } from '../../constants.ts';
+import type { CallResultEvent } from '../../types.ts';
+import type {
+  CallResultEvaluator,
+  CallResultRetention,
+  StateRetention,
+} from '../breaker-backend.ts';
+import type { CallResultRecord } from './memory-call-result-store.ts';
+import type { CircuitStateRecord } from './memory-circuit-state-store.ts';
+import type { MemoryStream } from './memory-stream.ts';
+
+type MemoryCallResultEvaluatorOptions = {
+  /** Call-result stream shared by all stores of the circuit */
+  callResults: MemoryStream<CallResultRecord>;
+  /** State stream shared by all stores of the circuit */
+  states: MemoryStream<CircuitStateRecord>;
+  /** Identifies this instance as the writer of the transitions it appends */
+  instanceId: string;
+  /** How many past call results the call-result stream keeps */
+  retention: CallResultRetention;
+  /** How many past transitions the state stream keeps */
+  stateRetention: StateRetention;
+};
+
+/**
+ * Records call results and opens the circuit within the process, evaluating the
+ * breaker strategy synchronously on the shared call-result stream.
+ */
+export class MemoryCallResultEvaluator implements CallResultEvaluator {
+  private readonly callResults: MemoryStream<CallResultRecord>;
+  private readonly states: MemoryStream<CircuitStateRecord>;
+  private readonly instanceId: string;
+  private readonly retention: CallResultRetention;
+  private readonly stateRetention: StateRetention;
+
+  constructor(options: MemoryCallResultEvaluatorOptions) {
+    this.callResults = options.callResults;
+    this.states = options.states;
+    this.instanceId = options.instanceId;
+    this.retention = options.retention;
+    this.stateRetention = options.stateRetention;
+  }
+
+  recordCallResults(
+    events: CallResultRecord[],
+    breaker: BreakerStrategy,
+  ): Promise<boolean> {
+    for (const event of events) {
+      this.callResults.append({
+        callResult: event.callResult,
+        timestamp: event.timestamp,
+      });
+    }
+    if ('maxAgeMs' in this.retention) {
+      this.callResults.trimBefore(Date.now() - this.retention.maxAgeMs);
+    } else {
+      this.callResults.trimToLength(this.retention.maxEntries);
+    }
+
+    const latest = this.states.getEntries().at(-1)?.value;
+    if (latest && (latest.state !== CircuitState.CLOSED || latest.override)) {
+      return Promise.resolve(false);
+    }
+
+    const lastStateChangeTimestamp = latest?.timestamp ?? 0;
+    const recentEvents: CallResultEvent[] = this.callResults
+      .getEntries()
+      .filter((entry) => entry.value.timestamp >= lastStateChangeTimestamp)
+      .map((entry) => ({ id: entry.id, ...entry.value }));
+
+    if (recentEvents.length === 0 || !breaker.shouldOpenCircuit(recentEvents)) {
+      return Promise.resolve(false);
+    }
+
+    const now = Date.now();
+    this.states.append(
+      {
+        state: CircuitState.OPEN,
+        timestamp: now,
+        reason: StateChangeReason.BREAKER_TRIPPED,
+        details: {
+          strategy: breaker.constructor.name,
+          snapshot: breaker.getSnapshot?.(recentEvents),
+        },
+        instanceId: this.instanceId,
+        override: null,
+        // Not written by a leader, so the latest term is carried forward
+        term: latest?.term ?? 0,
+      },
+      now,
+    );
+    if ('maxAgeMs' in this.stateRetention) {
+      this.states.trimBefore(now - this.stateRetention.maxAgeMs);
+    } else {
+      this.states.trimToLength(this.stateRetention.maxEntries);
+    }
+
+    return Promise.resolve(true);
+  }
+}
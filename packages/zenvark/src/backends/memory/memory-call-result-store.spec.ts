@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CallResult } from '../../constants.ts';
+import type { CallResultRecord } from './memory-call-result-store.ts';
+import { MemoryCallResultStore } from './memory-call-result-store.ts';
+import { MemoryStream } from './memory-stream.ts';
+
+describe('MemoryCallResultStore', () => {
+  it('should load existing events on start', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const store = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 1000 },
+      onEventsAdded: vi.fn(),
+    });
+
+    await store.storeCallResult(CallResult.SUCCESS);
+    await store.storeCallResult(CallResult.FAILURE);
+
+    await store.start();
+
+    expect(store.getEvents()).toEqual([
+      expect.objectContaining({ callResult: CallResult.SUCCESS }),
+      expect.objectContaining({ callResult: CallResult.FAILURE }),
+    ]);
+
+    await store.stop();
+  });
+
+  it('should notify both store1 and store2 when new events are added', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const onEventsAddedSpy1 = vi.fn();
+    const onEventsAddedSpy2 = vi.fn();
+
+    const store1 = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 1000 },
+      onEventsAdded: onEventsAddedSpy1,
+    });
+    const store2 = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 1000 },
+      onEventsAdded: onEventsAddedSpy2,
+    });
+
+    await Promise.all([store1.start(), store2.start()]);
+
+    await store1.storeCallResult(CallResult.SUCCESS);
+    await store2.storeCallResult(CallResult.FAILURE);
+
+    await vi.waitUntil(
+      () => store1.getEvents().length === 2 && store2.getEvents().length === 2,
+    );
+
+    const expectedEvents = [
+      expect.objectContaining({ callResult: CallResult.SUCCESS }),
+      expect.objectContaining({ callResult: CallResult.FAILURE }),
+    ];
+
+    expect(onEventsAddedSpy1).toHaveBeenLastCalledWith(expectedEvents);
+    expect(onEventsAddedSpy2).toHaveBeenLastCalledWith(expectedEvents);
+
+    await Promise.all([store1.stop(), store2.stop()]);
+  });
+
+  it('keeps the original timestamps of results recorded elsewhere', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const store = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 1000 },
+      onEventsAdded: vi.fn(),
+    });
+
+    await store.storeCallResults([
+      { callResult: CallResult.FAILURE, timestamp: 1000 },
+      { callResult: CallResult.SUCCESS, timestamp: 2000 },
+    ]);
+
+    await store.start();
+
+    expect(store.getEvents()).toEqual([
+      expect.objectContaining({
+        callResult: CallResult.FAILURE,
+        timestamp: 1000,
+      }),
+      expect.objectContaining({
+        callResult: CallResult.SUCCESS,
+        timestamp: 2000,
+      }),
+    ]);
+
+    await store.stop();
+  });
+
+  it('should enforce the maxEntries retention', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const onEventsAddedSpy = vi.fn();
+    const store = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 3 },
+      onEventsAdded: onEventsAddedSpy,
+    });
+
+    await store.start();
+
+    for (let i = 0; i < 5; i++) {
+      await store.storeCallResult(CallResult.SUCCESS);
+    }
+
+    await vi.waitUntil(() => onEventsAddedSpy.mock.calls.length === 5);
+
+    expect(store.getEvents()).toHaveLength(3);
+    expect(stream.getEntries()).toHaveLength(3);
+
+    await store.stop();
+  });
+
+  it('should only keep events within the maxAgeMs retention', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const store = new MemoryCallResultStore({
+      stream,
+      retention: { maxAgeMs: 60_000 },
+      onEventsAdded: vi.fn(),
+    });
+
+    await store.storeCallResults([
+      { callResult: CallResult.FAILURE, timestamp: Date.now() - 120_000 },
+      { callResult: CallResult.SUCCESS, timestamp: Date.now() },
+    ]);
+
+    await store.start();
+
+    expect(store.getEvents()).toEqual([
+      expect.objectContaining({ callResult: CallResult.SUCCESS }),
+    ]);
+
+    await store.stop();
+  });
+
+  it('stops delivering events after stop', async () => {
+    const stream = new MemoryStream<CallResultRecord>();
+    const onEventsAddedSpy = vi.fn();
+    const store = new MemoryCallResultStore({
+      stream,
+      retention: { maxEntries: 1000 },
+      onEventsAdded: onEventsAddedSpy,
+    });
+
+    await store.start();
+    await store.stop();
+
+    await store.storeCallResult(CallResult.SUCCESS);
+    await Promise.resolve();
+
+    expect(onEventsAddedSpy).not.toHaveBeenCalled();
+  });
+});
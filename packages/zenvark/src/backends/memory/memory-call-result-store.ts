@@ -0,0 +1,109 @@
+import type { CallResult } from '../../constants.ts';
+import type { CallResultEvent } from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { applyCallResultRetention } from '../../utils/call-result-retention.ts';
+import type {
+  CallResultRetention,
+  CallResultStore,
+} from '../breaker-backend.ts';
+import type { MemoryStream, MemoryStreamEntry } from './memory-stream.ts';
+
+export type CallResultRecord = Pick<
+  CallResultEvent,
+  'callResult' | 'timestamp'
+>;
+
+type MemoryCallResultStoreOptions = {
+  /** Stream shared by all stores of the circuit */
+  stream: MemoryStream<CallResultRecord>;
+  /** How many past events to retain in memory and stream */
+  retention: CallResultRetention;
+  /** Called whenever new events are added. Receives the full list of current events. */
+  onEventsAdded: (events: CallResultEvent[]) => void | Promise<void>;
+};
+
+/**
+ * Keeps the call results of a circuit in a capped in-process stream.
+ */
+export class MemoryCallResultStore
+  extends AbstractLifecycleManager
+  implements CallResultStore
+{
+  private readonly stream: MemoryStream<CallResultRecord>;
+  private readonly retention: CallResultRetention;
+  private readonly onEventsAdded: (
+    events: CallResultEvent[],
+  ) => void | Promise<void>;
+
+  private events: CallResultEvent[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: MemoryCallResultStoreOptions) {
+    super();
+    this.stream = options.stream;
+    this.retention = options.retention;
+    this.onEventsAdded = options.onEventsAdded;
+  }
+
+  protected override startInternal(): Promise<void> {
+    this.events = applyCallResultRetention(
+      this.stream.getEntries().map(this.mapEntryToCallResultEvent),
+      this.retention,
+    );
+    if (this.events.length > 0) {
+      this.onEventsAdded(this.events);
+    }
+    this.unsubscribe = this.stream.subscribe((entries) => {
+      this.pushEvents(entries.map(this.mapEntryToCallResultEvent));
+    });
+
+    return Promise.resolve();
+  }
+
+  protected override stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.events = [];
+
+    return Promise.resolve();
+  }
+
+  getEvents(): CallResultEvent[] {
+    return this.events;
+  }
+
+  storeCallResult(callResult: CallResult): Promise<void> {
+    return this.storeCallResults([{ callResult, timestamp: Date.now() }]);
+  }
+
+  storeCallResults(events: CallResultRecord[]): Promise<void> {
+    for (const event of events) {
+      this.stream.append({
+        callResult: event.callResult,
+        timestamp: event.timestamp,
+      });
+    }
+    if ('maxAgeMs' in this.retention) {
+      this.stream.trimBefore(Date.now() - this.retention.maxAgeMs);
+    } else {
+      this.stream.trimToLength(this.retention.maxEntries);
+    }
+
+    return Promise.resolve();
+  }
+
+  private mapEntryToCallResultEvent(
+    entry: MemoryStreamEntry<CallResultRecord>,
+  ): CallResultEvent {
+    return { id: entry.id, ...entry.value };
+  }
+
+  private pushEvents(events: CallResultEvent[]): void {
+    this.events = applyCallResultRetention(
+      [...this.events, ...events],
+      this.retention,
+    );
+
+    this.onEventsAdded(this.events);
+  }
+}
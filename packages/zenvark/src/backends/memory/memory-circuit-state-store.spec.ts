@@ -0,0 +1,296 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitState, StateChangeReason } from '../../constants.ts';
+import { delay } from '../../utils/delay.ts';
+import type { StateRetention } from '../breaker-backend.ts';
+import {
+  type CircuitStateRecord,
+  MemoryCircuitStateStore,
+} from './memory-circuit-state-store.ts';
+import { MemoryStream } from './memory-stream.ts';
+
+describe('MemoryCircuitStateStore', () => {
+  const createStore = ({
+    stream = new MemoryStream<CircuitStateRecord>(),
+    instanceId = 'instance-1',
+    retention = { maxEntries: 10 },
+    getFencingToken,
+    getLeaderTerm,
+    onWriteRejected,
+    onStateChange,
+    onOverrideChange,
+  }: {
+    stream?: MemoryStream<CircuitStateRecord>;
+    instanceId?: string;
+    retention?: StateRetention;
+    getFencingToken?: () => number | null;
+    getLeaderTerm?: () => number;
+    onWriteRejected?: (err: Error) => void;
+    onStateChange?: () => void;
+    onOverrideChange?: () => void;
+  } = {}) =>
+    new MemoryCircuitStateStore({
+      stream,
+      instanceId,
+      retention,
+      getFencingToken,
+      getLeaderTerm,
+      onWriteRejected,
+      onStateChange,
+      onOverrideChange,
+    });
+
+  it('starts CLOSED when nothing was stored yet', async () => {
+    const store = createStore();
+
+    await store.start();
+
+    expect(store.getState()).toBe(CircuitState.CLOSED);
+    expect(store.getLastStateChangeId()).toBe('0');
+    expect(store.getLastStateChangeTimestamp()).toBe(0);
+
+    await store.stop();
+  });
+
+  it('delivers transitions to every store of the circuit', async () => {
+    const stream = new MemoryStream<CircuitStateRecord>();
+    const onStateChange = vi.fn();
+    const store1 = createStore({ stream });
+    const store2 = createStore({
+      stream,
+      instanceId: 'instance-2',
+      onStateChange,
+    });
+
+    await Promise.all([store1.start(), store2.start()]);
+
+    await store1.setState(
+      CircuitState.OPEN,
+      StateChangeReason.BREAKER_TRIPPED,
+      {
+        strategy: 'ConsecutiveBreaker',
+      },
+    );
+
+    await vi.waitFor(() => expect(store2.getState()).toBe(CircuitState.OPEN));
+
+    expect(onStateChange).toHaveBeenCalledWith({
+      state: CircuitState.OPEN,
+      reason: StateChangeReason.BREAKER_TRIPPED,
+      details: { strategy: 'ConsecutiveBreaker' },
+      instanceId: 'instance-1',
+      timestamp: expect.any(Number),
+    });
+
+    await Promise.all([store1.stop(), store2.stop()]);
+  });
+
+  it('loads the latest state on start', async () => {
+    const stream = new MemoryStream<CircuitStateRecord>();
+    const writer = createStore({ stream });
+
+    await writer.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+
+    const store = createStore({ stream });
+    await store.start();
+
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(store.getLastStateChangeId()).toMatch(/^\d+-\d+$/);
+
+    await store.stop();
+  });
+
+  it('sets and clears overrides', async () => {
+    const onOverrideChange = vi.fn();
+    const store = createStore({ onOverrideChange });
+
+    await store.start();
+
+    await store.setOverride(CircuitState.OPEN, {
+      reason: 'maintenance',
+      actor: 'ops',
+    });
+
+    await vi.waitFor(() =>
+      expect(store.getOverride()).toEqual({
+        state: CircuitState.OPEN,
+        reason: 'maintenance',
+        actor: 'ops',
+        timestamp: expect.any(Number),
+      }),
+    );
+
+    await store.clearOverride({ reason: 'done' });
+
+    await vi.waitFor(() => expect(store.getOverride()).toBeNull());
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(onOverrideChange).toHaveBeenLastCalledWith(null);
+
+    await store.stop();
+  });
+
+  it('returns the history with durations, limited to the most recent entries', async () => {
+    const store = createStore();
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+    await delay(10);
+    await store.setState(
+      CircuitState.CLOSED,
+      StateChangeReason.RECOVERY_CHECK_PASSED,
+    );
+    await delay(10);
+    await store.setState(
+      CircuitState.OPEN,
+      StateChangeReason.IDLE_CHECK_FAILED,
+    );
+
+    const history = await store.getHistory({ limit: 2 });
+
+    expect(history).toEqual([
+      expect.objectContaining({
+        state: CircuitState.CLOSED,
+        endedAt: history[1]?.timestamp,
+      }),
+      expect.objectContaining({ state: CircuitState.OPEN, endedAt: null }),
+    ]);
+    expect(history[0]?.durationMs).toBeGreaterThanOrEqual(10);
+  });
+
+  it('keeps at most maxEntries transitions', async () => {
+    const store = createStore({ retention: { maxEntries: 2 } });
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+    await store.setState(
+      CircuitState.CLOSED,
+      StateChangeReason.RECOVERY_CHECK_PASSED,
+    );
+    await store.setState(
+      CircuitState.OPEN,
+      StateChangeReason.IDLE_CHECK_FAILED,
+    );
+
+    await expect(store.getHistory({})).resolves.toHaveLength(2);
+  });
+
+  it('trims transitions older than maxAgeMs', async () => {
+    const store = createStore({ retention: { maxAgeMs: 50 } });
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+    await delay(100);
+    await store.setState(
+      CircuitState.CLOSED,
+      StateChangeReason.RECOVERY_CHECK_PASSED,
+    );
+
+    await expect(store.getHistory({})).resolves.toEqual([
+      expect.objectContaining({ state: CircuitState.CLOSED }),
+    ]);
+  });
+
+  it('rejects a transition when the stream moved on since it was last read', async () => {
+    const stream = new MemoryStream<CircuitStateRecord>();
+    const onWriteRejected = vi.fn();
+    const store1 = createStore({ stream });
+    const store2 = createStore({
+      stream,
+      instanceId: 'instance-2',
+      onWriteRejected,
+    });
+
+    await Promise.all([store1.start(), store2.start()]);
+
+    // Both written before the entry of store1 is delivered to store2
+    await Promise.all([
+      store1.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED),
+      store2.setState(CircuitState.OPEN, StateChangeReason.IDLE_CHECK_FAILED),
+    ]);
+
+    expect(onWriteRejected).toHaveBeenCalledWith(
+      new Error(
+        `Transition to open rejected: expected latest state entry 0, found ${stream.getEntries()[0]?.id}`,
+      ),
+    );
+    await expect(store1.getHistory({})).resolves.toEqual([
+      expect.objectContaining({ instanceId: 'instance-1' }),
+    ]);
+
+    await Promise.all([store1.stop(), store2.stop()]);
+  });
+
+  it('rejects transitions of a leader whose term has ended', async () => {
+    const stream = new MemoryStream<CircuitStateRecord>();
+    const onWriteRejected = vi.fn();
+    const staleLeader = createStore({
+      stream,
+      getFencingToken: () => 1,
+      onWriteRejected,
+    });
+    const leader = createStore({
+      stream,
+      instanceId: 'instance-2',
+      getFencingToken: () => 2,
+    });
+    const operator = createStore({ stream, instanceId: 'operator' });
+
+    await Promise.all([staleLeader.start(), leader.start(), operator.start()]);
+
+    await leader.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+    // Operator writes keep the term of the latest leader
+    await operator.setOverride(CircuitState.OPEN, { reason: 'maintenance' });
+    await vi.waitFor(() => expect(staleLeader.getOverride()).not.toBeNull());
+
+    await staleLeader.setState(
+      CircuitState.CLOSED,
+      StateChangeReason.RECOVERY_CHECK_PASSED,
+    );
+
+    expect(onWriteRejected).toHaveBeenCalledWith(
+      new Error(
+        'Transition to closed rejected: leadership term 1 is older than term 2',
+      ),
+    );
+    expect(stream.getEntries()).toHaveLength(2);
+
+    await Promise.all([staleLeader.stop(), leader.stop(), operator.stop()]);
+  });
+
+  it('rejects transitions of a leader whose successor has not written yet', async () => {
+    const onWriteRejected = vi.fn();
+    const staleLeader = createStore({
+      getFencingToken: () => 1,
+      getLeaderTerm: () => 2,
+      onWriteRejected,
+    });
+    await staleLeader.start();
+
+    await staleLeader.setState(
+      CircuitState.OPEN,
+      StateChangeReason.BREAKER_TRIPPED,
+    );
+
+    expect(onWriteRejected).toHaveBeenCalledWith(
+      new Error(
+        'Transition to open rejected: leadership term 1 is older than term 2',
+      ),
+    );
+    await expect(staleLeader.getHistory({})).resolves.toEqual([]);
+
+    await staleLeader.stop();
+  });
+
+  it('rejects transitions while the instance does not lead', async () => {
+    const onWriteRejected = vi.fn();
+    const store = createStore({
+      getFencingToken: () => null,
+      onWriteRejected,
+    });
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+
+    expect(onWriteRejected).toHaveBeenCalledWith(
+      new Error(
+        'Transition to open rejected: this instance does not hold leadership',
+      ),
+    );
+    await expect(store.getHistory({})).resolves.toEqual([]);
+  });
+});
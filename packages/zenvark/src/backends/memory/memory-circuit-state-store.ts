@@ -0,0 +1,305 @@
+import { CircuitState, StateChangeReason } from '../../constants.ts';
+import type {
+  CircuitOverride,
+  OverrideParams,
+  StateChangeDetails,
+  StateHistoryEntry,
+  StateHistoryParams,
+  StateTransition,
+} from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { buildStateHistory } from '../../utils/build-state-history.ts';
+import type { CircuitStateStore, StateRetention } from '../breaker-backend.ts';
+import type { MemoryStream, MemoryStreamEntry } from './memory-stream.ts';
+
+export type CircuitStateRecord = StateTransition & {
+  override: CircuitOverride | null;
+  /** Leadership term of the writer. Operator writes carry the latest term forward. */
+  term: number;
+};
+
+type CircuitStateEvent = CircuitStateRecord & {
+  id: string;
+};
+
+type MemoryCircuitStateStoreOptions = {
+  /** Stream shared by all stores of the circuit */
+  stream: MemoryStream<CircuitStateRecord>;
+  /** Identifies this instance as the writer of the entries it appends */
+  instanceId: string;
+  /** How many past transitions the stream keeps */
+  retention: StateRetention;
+  /**
+   * Returns the leadership term of this instance, or null if it does not lead.
+   * When set, transitions are only appended by the leader of the latest term.
+   */
+  getFencingToken?: () => number | null;
+  /** Returns the latest leadership term drawn by any candidate of the circuit */
+  getLeaderTerm?: () => number;
+  /** Called when a transition is not appended, because the stream moved on or leadership was lost */
+  onWriteRejected?: (err: Error) => void;
+  /** Called whenever the state changes to a new value. Not called during initial load. */
+  onStateChange?: (transition: StateTransition) => void;
+  /** Called whenever a manual override is set, replaced or cleared. Not called during initial load. */
+  onOverrideChange?: (override: CircuitOverride | null) => void;
+};
+
+/**
+ * Keeps the state of a circuit in an in-process stream, one entry per transition.
+ */
+export class MemoryCircuitStateStore
+  extends AbstractLifecycleManager
+  implements CircuitStateStore
+{
+  private readonly stream: MemoryStream<CircuitStateRecord>;
+  private readonly instanceId: string;
+  private readonly retention: StateRetention;
+  private readonly getFencingToken?: () => number | null;
+  private readonly getLeaderTerm?: () => number;
+  private readonly onWriteRejected?: (err: Error) => void;
+  private readonly onStateChange?: (transition: StateTransition) => void;
+  private readonly onOverrideChange?: (
+    override: CircuitOverride | null,
+  ) => void;
+
+  private currentState: CircuitStateEvent = {
+    id: '0',
+    state: CircuitState.CLOSED,
+    timestamp: 0,
+    reason: null,
+    details: {},
+    instanceId: null,
+    override: null,
+    term: 0,
+  };
+
+  /** Id of the latest transition appended by this store, until it is delivered back */
+  private ownWriteId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: MemoryCircuitStateStoreOptions) {
+    super();
+    this.stream = options.stream;
+    this.instanceId = options.instanceId;
+    this.retention = options.retention;
+    this.getFencingToken = options.getFencingToken;
+    this.getLeaderTerm = options.getLeaderTerm;
+    this.onWriteRejected = options.onWriteRejected;
+    this.onStateChange = options.onStateChange;
+    this.onOverrideChange = options.onOverrideChange;
+  }
+
+  /**
+   * Starts the store by loading the latest state and listening for changes.
+   */
+  protected override startInternal(): Promise<void> {
+    const latestEntry = this.stream.getEntries().at(-1);
+    if (latestEntry) {
+      this.currentState = this.mapEntryToStateEvent(latestEntry);
+    }
+
+    this.unsubscribe = this.stream.subscribe((entries) => {
+      const entry = entries.at(-1);
+      if (!entry) {
+        return;
+      }
+
+      if (entries.some(({ id }) => id === this.ownWriteId)) {
+        this.ownWriteId = null;
+      }
+
+      const prev = this.currentState;
+      this.currentState = this.mapEntryToStateEvent(entry);
+      const next = this.currentState;
+
+      if (prev.state !== next.state) {
+        this.onStateChange?.(this.getLastTransition());
+      }
+
+      if (prev.override || next.override) {
+        this.onOverrideChange?.(next.override);
+      }
+    });
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Stops listening for changes.
+   */
+  protected override stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Appends a transition, unless another transition was appended since this store
+   * last saw the stream or, with `getFencingToken` set, a later leadership term has begun.
+   * Rejected transitions are passed to `onWriteRejected`.
+   */
+  setState(
+    state: CircuitState,
+    reason: StateChangeReason,
+    details: StateChangeDetails = {},
+  ): Promise<void> {
+    const fencingToken = this.getFencingToken?.();
+    const latestEntry = this.stream.getEntries().at(-1);
+    const latestId = latestEntry?.id ?? '0';
+    const latestTerm = latestEntry?.value.term ?? 0;
+    // A new leader is fenced in as soon as it is elected, before its first write
+    const currentTerm = Math.max(latestTerm, this.getLeaderTerm?.() ?? 0);
+    // Own transitions not delivered yet count as seen, so consecutive writes do not conflict
+    const expectedId = this.ownWriteId ?? this.currentState.id;
+
+    if (fencingToken === null) {
+      this.rejectWrite(state, 'this instance does not hold leadership');
+    } else if (expectedId !== latestId) {
+      this.rejectWrite(
+        state,
+        `expected latest state entry ${expectedId}, found ${latestId}`,
+      );
+    } else if (fencingToken !== undefined && fencingToken < currentTerm) {
+      this.rejectWrite(
+        state,
+        `leadership term ${fencingToken} is older than term ${currentTerm}`,
+      );
+    } else {
+      this.ownWriteId = this.appendEntry(
+        state,
+        reason,
+        details,
+        null,
+        fencingToken ?? latestTerm,
+      );
+    }
+
+    return Promise.resolve();
+  }
+
+  private rejectWrite(state: CircuitState, cause: string): void {
+    this.onWriteRejected?.(
+      new Error(`Transition to ${state} rejected: ${cause}`),
+    );
+  }
+
+  setOverride(state: CircuitState, params: OverrideParams): Promise<void> {
+    this.appendEntry(
+      state,
+      StateChangeReason.MANUAL_OVERRIDE,
+      {},
+      params,
+      this.getLatestTerm(),
+    );
+
+    return Promise.resolve();
+  }
+
+  clearOverride(_params: OverrideParams): Promise<void> {
+    this.appendEntry(
+      this.getState(),
+      StateChangeReason.OVERRIDE_CLEARED,
+      {},
+      null,
+      this.getLatestTerm(),
+    );
+
+    return Promise.resolve();
+  }
+
+  private getLatestTerm(): number {
+    return this.stream.getEntries().at(-1)?.value.term ?? 0;
+  }
+
+  /**
+   * @returns The id of the appended entry
+   */
+  private appendEntry(
+    state: CircuitState,
+    reason: StateChangeReason,
+    details: StateChangeDetails,
+    overrideParams: OverrideParams | null,
+    term: number,
+  ): string {
+    const now = Date.now();
+    const override: CircuitOverride | null = overrideParams
+      ? {
+          state,
+          reason: overrideParams.reason,
+          actor: overrideParams.actor,
+          timestamp: now,
+        }
+      : null;
+
+    const id = this.stream.append(
+      {
+        state,
+        timestamp: now,
+        reason,
+        details,
+        instanceId: this.instanceId,
+        override,
+        term,
+      },
+      now,
+    );
+
+    if ('maxAgeMs' in this.retention) {
+      this.stream.trimBefore(now - this.retention.maxAgeMs);
+    } else {
+      this.stream.trimToLength(this.retention.maxEntries);
+    }
+
+    return id;
+  }
+
+  getState(): CircuitState {
+    return this.currentState.state;
+  }
+
+  getLastStateChangeTimestamp(): number {
+    return this.currentState.timestamp;
+  }
+
+  getLastStateChangeId(): string {
+    return this.currentState.id;
+  }
+
+  getLastTransition(): StateTransition {
+    const { state, reason, details, instanceId, timestamp } = this.currentState;
+    return { state, reason, details, instanceId, timestamp };
+  }
+
+  getOverride(): CircuitOverride | null {
+    return this.currentState.override;
+  }
+
+  getHistory(params: StateHistoryParams): Promise<StateHistoryEntry[]> {
+    const since = params.since ?? 0;
+    const transitions = this.stream
+      .getEntries()
+      .map((entry) => this.mapEntryToStateEvent(entry))
+      .filter((event) => event.timestamp >= since)
+      .map(({ state, reason, details, instanceId, timestamp }) => ({
+        state,
+        reason,
+        details,
+        instanceId,
+        timestamp,
+      }));
+
+    const limited =
+      params.limit === undefined
+        ? transitions
+        : transitions.slice(Math.max(0, transitions.length - params.limit));
+
+    return Promise.resolve(buildStateHistory(limited));
+  }
+
+  private mapEntryToStateEvent(
+    entry: MemoryStreamEntry<CircuitStateRecord>,
+  ): CircuitStateEvent {
+    return { id: entry.id, ...entry.value };
+  }
+}
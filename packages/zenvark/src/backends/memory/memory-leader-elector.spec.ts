@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitRole } from '../../constants.ts';
+import { MemoryLeaderElector } from './memory-leader-elector.ts';
+
+describe('MemoryLeaderElector', () => {
+  const createTermCounter = () => {
+    let term = 0;
+    return () => ++term;
+  };
+
+  it('acquires leadership and calls onRoleChange with leader', async () => {
+    const onRoleChange = vi.fn();
+    const elector = new MemoryLeaderElector({
+      candidates: [],
+      nextTerm: createTermCounter(),
+      onRoleChange,
+    });
+
+    await elector.start();
+
+    expect(elector.isLeader).toBe(true);
+    expect(onRoleChange).toHaveBeenCalledWith(CircuitRole.LEADER);
+
+    await elector.stop();
+
+    expect(elector.isLeader).toBe(false);
+    expect(onRoleChange).toHaveBeenCalledWith(CircuitRole.FOLLOWER);
+  });
+
+  it('only one leader at a time', async () => {
+    const candidates: MemoryLeaderElector[] = [];
+    const nextTerm = createTermCounter();
+    const electorA = new MemoryLeaderElector({
+      candidates,
+      nextTerm,
+      onRoleChange: vi.fn(),
+    });
+    const electorB = new MemoryLeaderElector({
+      candidates,
+      nextTerm,
+      onRoleChange: vi.fn(),
+    });
+
+    await Promise.all([electorA.start(), electorB.start()]);
+
+    expect(electorA.isLeader).toBe(true);
+    expect(electorB.isLeader).toBe(false);
+
+    await Promise.all([electorA.stop(), electorB.stop()]);
+  });
+
+  it('hands leadership over to the next elector on stop', async () => {
+    const candidates: MemoryLeaderElector[] = [];
+    const nextTerm = createTermCounter();
+    const electorA = new MemoryLeaderElector({
+      candidates,
+      nextTerm,
+      onRoleChange: vi.fn(),
+    });
+    const onRoleChangeB = vi.fn();
+    const electorB = new MemoryLeaderElector({
+      candidates,
+      nextTerm,
+      onRoleChange: onRoleChangeB,
+    });
+
+    await electorA.start();
+    await electorB.start();
+
+    expect(electorA.fencingToken).toBe(1);
+    expect(electorB.fencingToken).toBeNull();
+
+    await electorA.stop();
+
+    expect(electorB.isLeader).toBe(true);
+    expect(onRoleChangeB).toHaveBeenCalledWith(CircuitRole.LEADER);
+    expect(electorA.fencingToken).toBeNull();
+    expect(electorB.fencingToken).toBe(2);
+
+    await electorB.stop();
+  });
+});
@@ -0,0 +1,80 @@
+import { CircuitRole } from '../../constants.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import type { LeaderElector } from '../breaker-backend.ts';
+
+type MemoryLeaderElectorOptions = {
+  /** Running electors of the circuit, shared by all of them. The first one leads. */
+  candidates: MemoryLeaderElector[];
+  /** Returns the fencing token of a new leadership term, shared by all electors of the circuit */
+  nextTerm: () => number;
+  /** Called when role changes to leader or follower */
+  onRoleChange: (role: CircuitRole) => void;
+};
+
+/**
+ * Performs leader election within the process. The earliest started elector leads,
+ * and leadership passes to the next one as soon as it stops.
+ */
+export class MemoryLeaderElector
+  extends AbstractLifecycleManager
+  implements LeaderElector
+{
+  private readonly candidates: MemoryLeaderElector[];
+  private readonly nextTerm: () => number;
+  private readonly onRoleChange: (role: CircuitRole) => void;
+
+  private currentRole: CircuitRole = CircuitRole.FOLLOWER;
+  private currentFencingToken: number | null = null;
+
+  constructor(options: MemoryLeaderElectorOptions) {
+    super();
+    this.candidates = options.candidates;
+    this.nextTerm = options.nextTerm;
+    this.onRoleChange = options.onRoleChange;
+  }
+
+  protected override startInternal(): Promise<void> {
+    this.candidates.push(this);
+    this.updateRole();
+
+    return Promise.resolve();
+  }
+
+  protected override stopInternal(): Promise<void> {
+    const index = this.candidates.indexOf(this);
+    if (index !== -1) {
+      this.candidates.splice(index, 1);
+    }
+
+    this.setRole(CircuitRole.FOLLOWER);
+    this.candidates[0]?.updateRole();
+
+    return Promise.resolve();
+  }
+
+  private updateRole(): void {
+    this.setRole(
+      this.candidates[0] === this ? CircuitRole.LEADER : CircuitRole.FOLLOWER,
+    );
+  }
+
+  private setRole(role: CircuitRole): void {
+    if (this.currentRole === role) {
+      return;
+    }
+    this.currentFencingToken =
+      role === CircuitRole.LEADER ? this.nextTerm() : null;
+    this.currentRole = role;
+    this.onRoleChange(role);
+  }
+
+  /** Returns true if this instance currently holds leadership */
+  get isLeader(): boolean {
+    return this.currentRole === CircuitRole.LEADER;
+  }
+
+  /** Term of the current leadership, or null unless this instance leads */
+  get fencingToken(): number | null {
+    return this.currentFencingToken;
+  }
+}
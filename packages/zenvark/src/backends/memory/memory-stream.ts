@@ -0,0 +1,90 @@
+export type MemoryStreamEntry<T> = {
+  /** Unique, increasing id in the `<milliseconds>-<sequence>` format of Redis stream ids */
+  id: string;
+  value: T;
+};
+
+type MemoryStreamListener<T> = (entries: MemoryStreamEntry<T>[]) => void;
+
+/**
+ * Append-only log mirroring a Redis stream within the process.
+ * Appended entries are delivered to listeners asynchronously, like a stream read.
+ */
+export class MemoryStream<T> {
+  private entries: MemoryStreamEntry<T>[] = [];
+  private readonly listeners = new Set<MemoryStreamListener<T>>();
+
+  private lastIdMs = 0;
+  private lastIdSequence = 0;
+
+  /**
+   * Returns the retained entries, ordered from oldest to newest.
+   */
+  getEntries(): MemoryStreamEntry<T>[] {
+    return this.entries;
+  }
+
+  /**
+   * Appends an entry and schedules its delivery to the current listeners.
+   * @returns The id of the new entry
+   */
+  append(value: T, now = Date.now()): string {
+    if (now > this.lastIdMs) {
+      this.lastIdMs = now;
+      this.lastIdSequence = 0;
+    } else {
+      this.lastIdSequence++;
+    }
+
+    const entry: MemoryStreamEntry<T> = {
+      id: `${this.lastIdMs}-${this.lastIdSequence}`,
+      value,
+    };
+    this.entries.push(entry);
+
+    const listeners = Array.from(this.listeners);
+    queueMicrotask(() => {
+      for (const listener of listeners) {
+        // Listeners removed before delivery no longer receive entries
+        if (this.listeners.has(listener)) {
+          listener([entry]);
+        }
+      }
+    });
+
+    return entry.id;
+  }
+
+  /**
+   * Drops the oldest entries so at most `maxLen` remain.
+   */
+  trimToLength(maxLen: number): void {
+    if (this.entries.length > maxLen) {
+      this.entries.splice(0, this.entries.length - maxLen);
+    }
+  }
+
+  /**
+   * Drops the entries appended before the given Unix timestamp (in milliseconds).
+   */
+  trimBefore(minIdMs: number): void {
+    this.entries = this.entries.filter((entry) => getIdMs(entry.id) >= minIdMs);
+  }
+
+  /**
+   * Delivers entries appended from now on to the listener.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: MemoryStreamListener<T>): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Returns the Unix timestamp (in milliseconds) an entry id was generated at.
+ */
+export const getIdMs = (id: string): number => Number(id.split('-')[0]);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { delay } from '../../utils/delay.ts';
+import { MemoryTrialPermitStore } from './memory-trial-permit-store.ts';
+
+describe('MemoryTrialPermitStore', () => {
+  it('grants permits up to the limit for a phase', async () => {
+    const store = new MemoryTrialPermitStore({
+      counters: new Map(),
+      ttlMs: 10_000,
+    });
+
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(false);
+  });
+
+  it('counts permits separately for each phase', async () => {
+    const store = new MemoryTrialPermitStore({
+      counters: new Map(),
+      ttlMs: 10_000,
+    });
+
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+    await expect(store.tryAcquire('2-0', 1)).resolves.toBe(true);
+  });
+
+  it('shares permits between stores of the same counters', async () => {
+    const counters = new Map();
+    const store1 = new MemoryTrialPermitStore({ counters, ttlMs: 10_000 });
+    const store2 = new MemoryTrialPermitStore({ counters, ttlMs: 10_000 });
+
+    await expect(store1.tryAcquire('1-0', 1)).resolves.toBe(true);
+    await expect(store2.tryAcquire('1-0', 1)).resolves.toBe(false);
+  });
+
+  it('grants a returned permit again', async () => {
+    const store = new MemoryTrialPermitStore({
+      counters: new Map(),
+      ttlMs: 10_000,
+    });
+
+    await store.tryAcquire('1-0', 1);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+
+    await store.release('1-0');
+
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+  });
+
+  it('starts counting again once the ttl expires', async () => {
+    const store = new MemoryTrialPermitStore({
+      counters: new Map(),
+      ttlMs: 50,
+    });
+
+    await store.tryAcquire('1-0', 1);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+
+    await delay(100);
+
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(true);
+  });
+});
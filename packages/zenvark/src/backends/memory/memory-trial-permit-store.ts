@@ -0,0 +1,65 @@
+import type { TrialPermitStore } from '../breaker-backend.ts';
+
+export type TrialPermitCounter = {
+  issued: number;
+  /** Unix timestamp (in milliseconds) after which the counter starts over */
+  expiresAt: number;
+};
+
+type MemoryTrialPermitStoreOptions = {
+  /** Permit counters of the circuit by phase id, shared by all of its stores */
+  counters: Map<string, TrialPermitCounter>;
+  /**
+   * Lifetime of a permit counter in milliseconds. Once it expires, a new batch
+   * of trial calls is admitted.
+   */
+  ttlMs: number;
+};
+
+/**
+ * Hands out a limited number of trial-call permits per HALF_OPEN phase
+ * within the process.
+ */
+export class MemoryTrialPermitStore implements TrialPermitStore {
+  private readonly counters: Map<string, TrialPermitCounter>;
+  private readonly ttlMs: number;
+
+  constructor(options: MemoryTrialPermitStoreOptions) {
+    this.counters = options.counters;
+    this.ttlMs = options.ttlMs;
+  }
+
+  tryAcquire(phaseId: string, limit: number): Promise<boolean> {
+    const now = Date.now();
+
+    for (const [id, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(id);
+      }
+    }
+
+    let counter = this.counters.get(phaseId);
+    if (!counter) {
+      counter = { issued: 0, expiresAt: now + this.ttlMs };
+      this.counters.set(phaseId, counter);
+    }
+
+    // Denied requests are not counted, so a returned permit can be taken again
+    if (counter.issued >= limit) {
+      return Promise.resolve(false);
+    }
+
+    counter.issued++;
+
+    return Promise.resolve(true);
+  }
+
+  release(phaseId: string): Promise<void> {
+    const counter = this.counters.get(phaseId);
+    if (counter && counter.expiresAt > Date.now() && counter.issued > 0) {
+      counter.issued--;
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,234 @@
+import { KeyLayout } from '../../constants.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { duplicateClient, type RedisClient } from '../../utils/redis-client.ts';
+import {
+  type BreakerKeys,
+  createBreakerKeys,
+  type RedisKeyOptions,
+} from '../../utils/redis-keys.ts';
+import { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type {
+  BreakerBackend,
+  BreakerConfigStore,
+  BreakerConfigStoreOptions,
+  BulkheadStore,
+  BulkheadStoreOptions,
+  CallResultBucketStore,
+  CallResultBucketStoreOptions,
+  CallResultEvaluator,
+  CallResultEvaluatorOptions,
+  CallResultStore,
+  CallResultStoreOptions,
+  CircuitStateStore,
+  CircuitStateStoreOptions,
+  LeaderElector,
+  LeaderElectorOptions,
+  TrialPermitStore,
+  TrialPermitStoreOptions,
+} from '../breaker-backend.ts';
+import { RedisBreakerConfigStore } from './redis-breaker-config-store.ts';
+import { RedisBulkheadStore } from './redis-bulkhead-store.ts';
+import { RedisCallResultBucketStore } from './redis-call-result-bucket-store.ts';
+import { RedisCallResultEvaluator } from './redis-call-result-evaluator.ts';
+import { RedisCallResultStore } from './redis-call-result-store.ts';
+import { RedisCircuitStateStore } from './redis-circuit-state-store.ts';
+import { RedisLeaderElector } from './redis-leader-elector.ts';
+import { RedisTrialPermitStore } from './redis-trial-permit-store.ts';
+
+export type RedisBackendOptions = {
+  redis: RedisClient;
+  /**
+   * Issue commands over `redis` itself instead of a dedicated duplicate. The connection
+   * must be connected by the caller, and is left open when the backend stops.
+   */
+  sharedConnection?: boolean;
+  /**
+   * Reader shared with other backends, so their streams are read over a single connection.
+   * It must be started and stopped by the caller. Defaults to a reader owned by the backend.
+   */
+  streamReader?: RedisStreamReader;
+  /** Prefix and layout of the Redis keys. Defaults to `zenvark:<id>:<name>`. */
+  keys?: RedisKeyOptions;
+};
+
+/**
+ * Stores circuits in Redis streams and coordinates their instances through Redis locks
+ * and counters. Must be started before the circuit breakers using it.
+ */
+export class RedisBackend
+  extends AbstractLifecycleManager
+  implements BreakerBackend
+{
+  private readonly redis: RedisClient;
+  private readonly ownsConnection: boolean;
+  private readonly streamReader: RedisStreamReader;
+  private readonly ownsStreamReader: boolean;
+  private readonly keys?: RedisKeyOptions;
+
+  constructor(options: RedisBackendOptions) {
+    super();
+    this.ownsConnection = !options.sharedConnection;
+    this.redis = this.ownsConnection
+      ? duplicateClient(options.redis, { lazyConnect: true })
+      : options.redis;
+    this.ownsStreamReader = !options.streamReader;
+    this.streamReader =
+      options.streamReader ?? new RedisStreamReader({ redis: this.redis });
+    this.keys = options.keys;
+  }
+
+  protected override async startInternal(): Promise<void> {
+    if (this.ownsConnection) {
+      await this.redis.connect();
+    }
+
+    if (this.ownsStreamReader) {
+      await this.streamReader.start();
+    }
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    if (this.ownsStreamReader) {
+      await this.streamReader.stop();
+    }
+
+    if (this.ownsConnection) {
+      await this.redis.quit();
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.redis.status === 'ready';
+  }
+
+  createCallResultStore(options: CallResultStoreOptions): CallResultStore {
+    return new RedisCallResultStore({
+      redis: this.redis,
+      streamReader: this.streamReader,
+      redisStreamKey: this.getKeys(options.breakerId).callResult,
+      retention: options.retention,
+      onStreamReadError: options.onReadError,
+      onStreamWriteError: options.onWriteError,
+      onEventsAdded: options.onEventsAdded,
+    });
+  }
+
+  createCallResultBucketStore(
+    options: CallResultBucketStoreOptions,
+  ): CallResultBucketStore {
+    return new RedisCallResultBucketStore({
+      redis: this.redis,
+      redisKey: this.getKeys(options.breakerId).callResultBuckets,
+      bucketMs: options.bucketMs,
+      retentionMs: options.retentionMs,
+      pollIntervalMs: options.pollIntervalMs,
+      onReadError: options.onReadError,
+      onWriteError: options.onWriteError,
+      onBucketsUpdated: options.onBucketsUpdated,
+    });
+  }
+
+  /**
+   * Throws on Redis Cluster unless the keys are hash-tagged, as the evaluation script
+   * writes to the call-result and state streams together.
+   */
+  createCallResultEvaluator(
+    options: CallResultEvaluatorOptions,
+  ): CallResultEvaluator {
+    if (this.redis.isCluster && this.keys?.layout !== KeyLayout.HASH_TAGGED) {
+      throw new Error(
+        'Server-side evaluation on Redis Cluster requires KeyLayout.HASH_TAGGED',
+      );
+    }
+
+    const keys = this.getKeys(options.breakerId);
+
+    return new RedisCallResultEvaluator({
+      redis: this.redis,
+      callResultStreamKey: keys.callResult,
+      stateStreamKey: keys.state,
+      instanceId: options.instanceId,
+      retention: options.retention,
+      stateRetention: options.stateRetention,
+    });
+  }
+
+  /**
+   * Throws on Redis Cluster unless the keys are hash-tagged, as the append script
+   * reads the leader-term counter together with the state stream.
+   */
+  createCircuitStateStore(
+    options: CircuitStateStoreOptions,
+  ): CircuitStateStore {
+    if (this.redis.isCluster && this.keys?.layout !== KeyLayout.HASH_TAGGED) {
+      throw new Error(
+        'Fenced state transitions on Redis Cluster require KeyLayout.HASH_TAGGED',
+      );
+    }
+
+    const keys = this.getKeys(options.breakerId);
+
+    return new RedisCircuitStateStore({
+      redis: this.redis,
+      streamReader: this.streamReader,
+      redisStreamKey: keys.state,
+      leaderTermKey: keys.leaderTerm,
+      instanceId: options.instanceId,
+      retention: options.retention,
+      onStreamReadError: options.onReadError,
+      onStreamWriteError: options.onWriteError,
+      getFencingToken: options.getFencingToken,
+      onWriteRejected: options.onWriteRejected,
+      onStateChange: options.onStateChange,
+      onOverrideChange: options.onOverrideChange,
+    });
+  }
+
+  createLeaderElector(options: LeaderElectorOptions): LeaderElector {
+    const keys = this.getKeys(options.breakerId);
+
+    return new RedisLeaderElector({
+      redis: this.redis,
+      streamReader: this.streamReader,
+      key: keys.leader,
+      handoffKey: keys.leaderHandoff,
+      termKey: keys.leaderTerm,
+      election: options.election,
+      onAcquireError: options.onAcquireError,
+      onRoleChange: options.onRoleChange,
+    });
+  }
+
+  createBreakerConfigStore(
+    options: BreakerConfigStoreOptions,
+  ): BreakerConfigStore {
+    return new RedisBreakerConfigStore({
+      redis: this.redis,
+      streamReader: this.streamReader,
+      redisStreamKey: this.getKeys(options.breakerId).config,
+      maxVersions: options.maxVersions,
+      onStreamReadError: options.onReadError,
+      onConfigChange: options.onConfigChange,
+    });
+  }
+
+  createTrialPermitStore(options: TrialPermitStoreOptions): TrialPermitStore {
+    return new RedisTrialPermitStore({
+      redis: this.redis,
+      redisKey: this.getKeys(options.breakerId).trialPermit,
+      ttlMs: options.ttlMs,
+    });
+  }
+
+  createBulkheadStore(options: BulkheadStoreOptions): BulkheadStore {
+    return new RedisBulkheadStore({
+      redis: this.redis,
+      redisKey: this.getKeys(options.breakerId).bulkhead,
+      leaseTtlMs: options.leaseTtlMs,
+    });
+  }
+
+  private getKeys(breakerId: string): BreakerKeys {
+    return createBreakerKeys(breakerId, this.keys);
+  }
+}
@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { BreakerStrategyType } from '../../constants.ts';
+import { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import { RedisBreakerConfigStore } from './redis-breaker-config-store.ts';
+
+describe('RedisBreakerConfigStore', () => {
+  const streamReader = new RedisStreamReader({ redis });
+
+  beforeAll(async () => {
+    await streamReader.start();
+  });
+
+  afterAll(async () => {
+    await streamReader.stop();
+  });
+
+  const createStore = ({
+    maxVersions = 10,
+    onStreamReadError = vi.fn(),
+    onConfigChange = vi.fn(),
+  }: {
+    maxVersions?: number;
+    onStreamReadError?: (err: unknown) => void;
+    onConfigChange?: () => void;
+  } = {}) =>
+    new RedisBreakerConfigStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-config',
+      maxVersions,
+      onStreamReadError,
+      onConfigChange,
+    });
+
+  it('has no config until one is written', async () => {
+    const store = createStore();
+
+    await store.start();
+
+    expect(store.getConfig()).toBeNull();
+    await expect(store.getHistory()).resolves.toEqual([]);
+
+    await store.stop();
+  });
+
+  it('delivers new versions to every store of the circuit', async () => {
+    const onConfigChange = vi.fn();
+    const writer = createStore();
+    const reader = createStore({ onConfigChange });
+
+    await Promise.all([writer.start(), reader.start()]);
+
+    const configVersion = await writer.setConfig(
+      {
+        breaker: {
+          type: BreakerStrategyType.COUNT,
+          threshold: 0.8,
+          size: 100,
+          minimumNumberOfCalls: 20,
+        },
+      },
+      { reason: 'incident', actor: 'alice' },
+    );
+
+    expect(configVersion.version).toBe(1);
+
+    await vi.waitFor(() =>
+      expect(onConfigChange).toHaveBeenCalledWith(configVersion),
+    );
+    expect(reader.getConfig()).toEqual(configVersion);
+
+    await Promise.all([writer.stop(), reader.stop()]);
+  });
+
+  it('numbers versions after the latest one in the stream', async () => {
+    const store1 = createStore();
+    const store2 = createStore();
+    await Promise.all([store1.start(), store2.start()]);
+
+    const versions = await Promise.all([
+      store1.setConfig({ idleProbeIntervalMs: 1000 }, { reason: 'first' }),
+      store2.setConfig({ idleProbeIntervalMs: 2000 }, { reason: 'second' }),
+    ]);
+
+    expect(versions.map((entry) => entry.version).sort()).toEqual([1, 2]);
+
+    await Promise.all([store1.stop(), store2.stop()]);
+  });
+
+  it('loads the latest version on start without reporting it as a change', async () => {
+    const writer = createStore();
+    await writer.start();
+    await writer.setConfig({ idleProbeIntervalMs: 1000 }, { reason: 'first' });
+    await writer.setConfig({ idleProbeIntervalMs: 2000 }, { reason: 'second' });
+    await writer.stop();
+
+    const onConfigChange = vi.fn();
+    const store = createStore({ onConfigChange });
+    await store.start();
+
+    expect(store.getConfig()).toEqual({
+      version: 2,
+      config: { idleProbeIntervalMs: 2000 },
+      reason: 'second',
+      actor: undefined,
+      timestamp: expect.any(Number),
+    });
+    expect(onConfigChange).not.toHaveBeenCalled();
+
+    await store.stop();
+  });
+
+  it('keeps a limited change log, oldest version first', async () => {
+    const store = createStore({ maxVersions: 2 });
+    await store.start();
+
+    for (const delayMs of [100, 200, 300]) {
+      await store.setConfig(
+        { backoff: { type: 'constant', delayMs } },
+        { reason: `delay ${delayMs}` },
+      );
+    }
+
+    const history = await store.getHistory();
+    expect(history.map((entry) => entry.version)).toEqual([2, 3]);
+    await expect(store.getHistory(1)).resolves.toEqual([
+      expect.objectContaining({ version: 3, reason: 'delay 300' }),
+    ]);
+
+    await store.stop();
+  });
+
+  it('reports entries holding invalid config', async () => {
+    const onStreamReadError = vi.fn();
+    await redis.xadd(
+      'test-config',
+      '*',
+      'version',
+      '1',
+      'config',
+      'not json',
+      'reason',
+      'broken',
+      'timestamp',
+      String(Date.now()),
+    );
+
+    const store = createStore({ onStreamReadError });
+    await store.start();
+
+    expect(store.getConfig()).toBeNull();
+    expect(onStreamReadError).toHaveBeenCalledWith(expect.any(SyntaxError));
+
+    await store.stop();
+  });
+});
@@ -0,0 +1,192 @@
+import type {
+  BreakerConfig,
+  BreakerConfigVersion,
+  ConfigChangeParams,
+} from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { parseStreamFields } from '../../utils/parse-stream-fields.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type { BreakerConfigStore } from '../breaker-backend.ts';
+
+/**
+ * Appends a config version numbered one above the latest entry of the log,
+ * so concurrent writers never produce the same version.
+ *
+ * KEYS[1] - config stream key
+ * ARGV[1] - number of versions kept, ARGV[2] - config JSON, ARGV[3] - reason,
+ * ARGV[4] - timestamp, ARGV[5] - actor (optional)
+ */
+const APPEND_VERSION_SCRIPT = `
+local version = 1
+local latest = redis.call('XREVRANGE', KEYS[1], '+', '-', 'COUNT', 1)[1]
+if latest then
+  local fields = latest[2]
+  for i = 1, #fields, 2 do
+    if fields[i] == 'version' then
+      version = tonumber(fields[i + 1]) + 1
+    end
+  end
+end
+local args = {KEYS[1], 'MAXLEN', '=', ARGV[1], '*', 'version', version, 'config', ARGV[2], 'reason', ARGV[3], 'timestamp', ARGV[4]}
+if ARGV[5] then
+  table.insert(args, 'actor')
+  table.insert(args, ARGV[5])
+end
+redis.call('XADD', unpack(args))
+return version
+`;
+
+type RedisBreakerConfigStoreOptions = {
+  /** Redis client used for storing and reading stream data */
+  redis: RedisClient;
+  /** Reader that delivers entries appended to the stream */
+  streamReader: RedisStreamReader;
+  /** Stream key identifying the circuit's config change log */
+  redisStreamKey: string;
+  /** Number of past versions the stream keeps */
+  maxVersions: number;
+  /** Called when an error occurs while reading from the Redis stream */
+  onStreamReadError: (err: unknown) => void;
+  /** Called whenever a new config version is written. Not called during initial load. */
+  onConfigChange: (config: BreakerConfigVersion) => void;
+};
+
+/**
+ * Keeps the config of a circuit in a Redis stream, one entry per version.
+ */
+export class RedisBreakerConfigStore
+  extends AbstractLifecycleManager
+  implements BreakerConfigStore
+{
+  private readonly redis: RedisClient;
+  private readonly streamReader: RedisStreamReader;
+  private readonly redisStreamKey: string;
+  private readonly maxVersions: number;
+  private readonly onStreamReadError: (err: unknown) => void;
+  private readonly onConfigChange: (config: BreakerConfigVersion) => void;
+
+  private lastEntryId = '0';
+  private config: BreakerConfigVersion | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: RedisBreakerConfigStoreOptions) {
+    super();
+    this.redis = options.redis;
+    this.streamReader = options.streamReader;
+    this.redisStreamKey = options.redisStreamKey;
+    this.maxVersions = options.maxVersions;
+    this.onStreamReadError = options.onStreamReadError;
+    this.onConfigChange = options.onConfigChange;
+  }
+
+  protected override async startInternal(): Promise<void> {
+    const [latestEntry] = await this.redis.xrevrange(
+      this.redisStreamKey,
+      '+',
+      '-',
+      'COUNT',
+      1,
+    );
+
+    if (latestEntry) {
+      this.lastEntryId = latestEntry[0];
+
+      try {
+        this.config = this.mapEntryToConfigVersion(latestEntry);
+      } catch (err) {
+        this.onStreamReadError(err);
+      }
+    }
+
+    this.unsubscribe = this.streamReader.subscribe(this.redisStreamKey, {
+      getLastId: () => this.lastEntryId,
+      onEntries: (entries) => {
+        const entry = entries.at(-1);
+        if (!entry) {
+          return;
+        }
+
+        this.lastEntryId = entry[0];
+
+        try {
+          this.config = this.mapEntryToConfigVersion(entry);
+        } catch (err) {
+          this.onStreamReadError(err);
+          return;
+        }
+
+        this.onConfigChange(this.config);
+      },
+      onError: this.onStreamReadError,
+    });
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  getConfig(): BreakerConfigVersion | null {
+    return this.config;
+  }
+
+  async setConfig(
+    config: BreakerConfig,
+    params: ConfigChangeParams,
+  ): Promise<BreakerConfigVersion> {
+    const timestamp = Date.now();
+    const version = await this.redis.eval(
+      APPEND_VERSION_SCRIPT,
+      1,
+      this.redisStreamKey,
+      this.maxVersions,
+      JSON.stringify(config),
+      params.reason,
+      timestamp,
+      ...(params.actor === undefined ? [] : [params.actor]),
+    );
+
+    return {
+      version: Number(version),
+      config,
+      reason: params.reason,
+      actor: params.actor,
+      timestamp,
+    };
+  }
+
+  async getHistory(limit?: number): Promise<BreakerConfigVersion[]> {
+    const entries =
+      limit === undefined
+        ? await this.redis.xrevrange(this.redisStreamKey, '+', '-')
+        : await this.redis.xrevrange(
+            this.redisStreamKey,
+            '+',
+            '-',
+            'COUNT',
+            limit,
+          );
+
+    return entries
+      .toReversed()
+      .map((entry) => this.mapEntryToConfigVersion(entry));
+  }
+
+  /**
+   * Throws if the entry holds no valid config JSON.
+   */
+  private mapEntryToConfigVersion(
+    entry: [string, string[]],
+  ): BreakerConfigVersion {
+    const record = parseStreamFields(entry[1]);
+
+    return {
+      version: Number(record.version),
+      config: JSON.parse(record.config ?? '') as BreakerConfig,
+      reason: record.reason ?? '',
+      actor: record.actor,
+      timestamp: Number(record.timestamp),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { delay } from '../../utils/delay.ts';
+import { RedisBulkheadStore } from './redis-bulkhead-store.ts';
+
+describe('RedisBulkheadStore', () => {
+  it('grants leases up to the limit', async () => {
+    const store = new RedisBulkheadStore({
+      redis,
+      redisKey: 'test-bulkhead',
+      leaseTtlMs: 10_000,
+    });
+
+    await expect(store.tryAcquire(2)).resolves.toEqual(expect.any(String));
+    await expect(store.tryAcquire(2)).resolves.toEqual(expect.any(String));
+    await expect(store.tryAcquire(2)).resolves.toBeNull();
+  });
+
+  it('grants a lease again once one is released', async () => {
+    const store = new RedisBulkheadStore({
+      redis,
+      redisKey: 'test-bulkhead',
+      leaseTtlMs: 10_000,
+    });
+
+    const leaseId = await store.tryAcquire(1);
+    await expect(store.tryAcquire(1)).resolves.toBeNull();
+
+    await store.release(leaseId as string);
+
+    await expect(store.tryAcquire(1)).resolves.toEqual(expect.any(String));
+  });
+
+  it('drops leases that were not released within the ttl', async () => {
+    const store = new RedisBulkheadStore({
+      redis,
+      redisKey: 'test-bulkhead',
+      leaseTtlMs: 50,
+    });
+
+    await store.tryAcquire(1);
+    await expect(store.tryAcquire(1)).resolves.toBeNull();
+
+    await delay(100);
+
+    await expect(store.tryAcquire(1)).resolves.toEqual(expect.any(String));
+  });
+});
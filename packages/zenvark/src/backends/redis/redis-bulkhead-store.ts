@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { BulkheadStore } from '../breaker-backend.ts';
+
+/**
+ * Drops expired leases and adds a new one if fewer than the limit remain.
+ * Uses the Redis server clock so instances with skewed clocks agree on expiry.
+ *
+ * KEYS[1] - lease set key
+ * ARGV[1] - limit, ARGV[2] - lease ttl in milliseconds, ARGV[3] - lease id
+ */
+const ACQUIRE_LEASE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[2]), ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return 1
+`;
+
+type RedisBulkheadStoreOptions = {
+  /** Redis client used for storing leases */
+  redis: RedisClient;
+  /** Sorted set key holding the active leases, scored by their expiry time */
+  redisKey: string;
+  /**
+   * Lifetime of a lease in milliseconds. Leases not released within it are
+   * dropped, so a crashed instance cannot hold its slots forever.
+   */
+  leaseTtlMs: number;
+};
+
+/**
+ * Hands out a limited number of concurrent call leases shared across all
+ * instances through a Redis sorted set.
+ */
+export class RedisBulkheadStore implements BulkheadStore {
+  private readonly redis: RedisClient;
+  private readonly redisKey: string;
+  private readonly leaseTtlMs: number;
+
+  constructor(options: RedisBulkheadStoreOptions) {
+    this.redis = options.redis;
+    this.redisKey = options.redisKey;
+    this.leaseTtlMs = options.leaseTtlMs;
+  }
+
+  /**
+   * Attempts to take a lease.
+   * @param limit Maximum number of leases held at the same time
+   * @returns the lease id to release once the call completes, or null if the limit is reached
+   */
+  async tryAcquire(limit: number): Promise<string | null> {
+    const leaseId = randomUUID();
+    const acquired = await this.redis.eval(
+      ACQUIRE_LEASE_SCRIPT,
+      1,
+      this.redisKey,
+      limit,
+      this.leaseTtlMs,
+      leaseId,
+    );
+
+    return acquired === 1 ? leaseId : null;
+  }
+
+  /**
+   * Releases a lease taken with `tryAcquire`. Releasing an expired lease is a no-op.
+   */
+  async release(leaseId: string): Promise<void> {
+    await this.redis.zrem(this.redisKey, leaseId);
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { CallResult } from '../../constants.ts';
+import { RedisCallResultBucketStore } from './redis-call-result-bucket-store.ts';
+
+describe('RedisCallResultBucketStore', () => {
+  const redisKey = 'test-call-result-buckets';
+
+  const createStore = (onBucketsUpdated = vi.fn()) =>
+    new RedisCallResultBucketStore({
+      redis,
+      redisKey,
+      bucketMs: 1000,
+      retentionMs: 10_000,
+      pollIntervalMs: 10,
+      onReadError: vi.fn(),
+      onWriteError: vi.fn(),
+      onBucketsUpdated,
+    });
+
+  afterEach(async () => {
+    await redis.del(redisKey);
+  });
+
+  it('should increment one hash field per bucket and call result', async () => {
+    const store = createStore();
+    const now = Date.now();
+    const bucketStart = now - (now % 1000);
+
+    await store.storeCallResults([
+      { callResult: CallResult.FAILURE, timestamp: bucketStart },
+      { callResult: CallResult.FAILURE, timestamp: bucketStart + 1 },
+      { callResult: CallResult.SUCCESS, timestamp: bucketStart + 2 },
+    ]);
+
+    expect(await redis.hgetall(redisKey)).toEqual({
+      [`${bucketStart}:${CallResult.FAILURE}`]: '2',
+      [`${bucketStart}:${CallResult.SUCCESS}`]: '1',
+    });
+    expect(await redis.pttl(redisKey)).toBeGreaterThan(0);
+  });
+
+  it('should share buckets between instances', async () => {
+    const onBucketsUpdated = vi.fn();
+    const writer = createStore();
+    const reader = createStore(onBucketsUpdated);
+
+    await reader.start();
+    await writer.storeCallResult(CallResult.FAILURE);
+    await writer.storeCallResult(CallResult.SLOW);
+
+    await vi.waitFor(() =>
+      expect(reader.getBuckets()).toEqual([
+        expect.objectContaining({ failures: 1, slowCalls: 1 }),
+      ]),
+    );
+    expect(onBucketsUpdated).toHaveBeenCalled();
+
+    await reader.stop();
+  });
+
+  it('should delete fields of buckets older than the retention', async () => {
+    const store = createStore();
+    const expiredBucketStart = Date.now() - 60_000;
+
+    await redis.hset(redisKey, `${expiredBucketStart}:failure`, '5');
+    await store.storeCallResult(CallResult.SUCCESS);
+
+    await store.start();
+
+    expect(store.getBuckets()).toEqual([
+      expect.objectContaining({ successes: 1, failures: 0 }),
+    ]);
+    expect(await redis.hexists(redisKey, `${expiredBucketStart}:failure`)).toBe(
+      0,
+    );
+
+    await store.stop();
+  });
+});
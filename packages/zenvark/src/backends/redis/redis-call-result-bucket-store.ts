@@ -0,0 +1,101 @@
+import { CallResult } from '../../constants.ts';
+import type { CallResultBucket } from '../../types.ts';
+import {
+  addToBucket,
+  createCallResultBucket,
+} from '../../utils/call-result-buckets.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import {
+  AbstractCallResultBucketStore,
+  type CallResultBucketPollingOptions,
+} from '../abstract-call-result-bucket-store.ts';
+
+type RedisCallResultBucketStoreOptions = CallResultBucketPollingOptions & {
+  /** Redis client used for incrementing and reading the counters */
+  redis: RedisClient;
+  /** Hash key holding the circuit's counters, one field per bucket and call result */
+  redisKey: string;
+};
+
+/**
+ * Counts the call results of a circuit per time bucket in a Redis hash.
+ * Fields are named `<bucket start>:<call result>`, so a single key holds all
+ * buckets of the circuit.
+ */
+export class RedisCallResultBucketStore extends AbstractCallResultBucketStore {
+  private readonly redis: RedisClient;
+  private readonly redisKey: string;
+
+  constructor(options: RedisCallResultBucketStoreOptions) {
+    super(options);
+    this.redis = options.redis;
+    this.redisKey = options.redisKey;
+  }
+
+  protected override async readBuckets(
+    minTimestamp: number,
+  ): Promise<CallResultBucket[]> {
+    const fields = await this.redis.hgetall(this.redisKey);
+    const buckets = new Map<number, CallResultBucket>();
+    const expiredFields: string[] = [];
+
+    for (const [field, value] of Object.entries(fields)) {
+      const [timestampField, callResult] = field.split(':');
+      const timestamp = Number(timestampField);
+
+      if (timestamp < minTimestamp) {
+        expiredFields.push(field);
+        continue;
+      }
+
+      let bucket = buckets.get(timestamp);
+      if (!bucket) {
+        bucket = createCallResultBucket(timestamp);
+        buckets.set(timestamp, bucket);
+      }
+
+      addToBucket(bucket, callResult as CallResult, Number(value));
+    }
+
+    if (expiredFields.length > 0) {
+      await this.redis.hdel(this.redisKey, ...expiredFields);
+    }
+
+    return Array.from(buckets.values()).sort(
+      (a, b) => a.timestamp - b.timestamp,
+    );
+  }
+
+  protected override async incrementBuckets(
+    buckets: CallResultBucket[],
+  ): Promise<void> {
+    const pipeline = this.redis.pipeline();
+
+    for (const bucket of buckets) {
+      const counts: [CallResult, number][] = [
+        [CallResult.SUCCESS, bucket.successes],
+        [CallResult.FAILURE, bucket.failures],
+        [CallResult.SLOW, bucket.slowCalls],
+      ];
+
+      for (const [callResult, count] of counts) {
+        if (count > 0) {
+          pipeline.hincrby(
+            this.redisKey,
+            `${bucket.timestamp}:${callResult}`,
+            count,
+          );
+        }
+      }
+    }
+
+    // Counters of a circuit that stops receiving calls expire with it
+    pipeline.pexpire(this.redisKey, this.retentionMs + this.bucketMs);
+
+    const results = (await pipeline.exec()) ?? [];
+    const failed = results.find(([err]) => err);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { ConsecutiveBreaker } from '../../breakers/consecutive-breaker.ts';
+import { CountBreaker } from '../../breakers/count-breaker.ts';
+import { SamplingBreaker } from '../../breakers/sampling-breaker.ts';
+import {
+  CallResult,
+  CircuitState,
+  StateChangeReason,
+} from '../../constants.ts';
+import { parseStreamFields } from '../../utils/parse-stream-fields.ts';
+import { RedisCallResultEvaluator } from './redis-call-result-evaluator.ts';
+
+describe('RedisCallResultEvaluator', () => {
+  const createEvaluator = () =>
+    new RedisCallResultEvaluator({
+      redis,
+      callResultStreamKey: 'test-call-result',
+      stateStreamKey: 'test-state',
+      instanceId: 'instance-1',
+      retention: { maxEntries: 100 },
+      stateRetention: { maxEntries: 10 },
+    });
+
+  const results = (callResult: CallResult, count: number) =>
+    Array.from({ length: count }, () => ({
+      callResult,
+      timestamp: Date.now(),
+    }));
+
+  const readStates = async () => {
+    const entries = await redis.xrange('test-state', '-', '+');
+    return entries.map(([, fields]) => parseStreamFields(fields));
+  };
+
+  it('records call results without opening while the strategy does not trip', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 3 });
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 2), breaker),
+    ).resolves.toBe(false);
+
+    await expect(redis.xlen('test-call-result')).resolves.toBe(2);
+    await expect(readStates()).resolves.toEqual([]);
+  });
+
+  it('opens the circuit once a consecutive breaker trips', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new ConsecutiveBreaker({
+      threshold: 3,
+      slowCallThreshold: 5,
+    });
+
+    await evaluator.recordCallResults(results(CallResult.FAILURE, 2), breaker);
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), breaker),
+    ).resolves.toBe(true);
+
+    const [state] = await readStates();
+    expect(state).toEqual(
+      expect.objectContaining({
+        state: CircuitState.OPEN,
+        reason: StateChangeReason.BREAKER_TRIPPED,
+        instanceId: 'instance-1',
+        term: '0',
+      }),
+    );
+    expect(JSON.parse(state?.details ?? '')).toEqual({
+      strategy: 'ConsecutiveBreaker',
+      snapshot: {
+        consecutiveFailures: 3,
+        threshold: 3,
+        consecutiveSlowCalls: 0,
+        slowCallThreshold: 5,
+      },
+    });
+  });
+
+  it('evaluates the failure rate of a count breaker', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new CountBreaker({
+      threshold: 0.5,
+      size: 4,
+      minimumNumberOfCalls: 4,
+    });
+
+    await expect(
+      evaluator.recordCallResults(
+        [...results(CallResult.SUCCESS, 2), ...results(CallResult.FAILURE, 1)],
+        breaker,
+      ),
+    ).resolves.toBe(false);
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), breaker),
+    ).resolves.toBe(true);
+
+    const [state] = await readStates();
+    expect(JSON.parse(state?.details ?? '')).toEqual({
+      strategy: 'CountBreaker',
+      snapshot: {
+        calls: 4,
+        failures: 2,
+        failureRate: 0.5,
+        slowCalls: 0,
+        slowCallRate: 0,
+        threshold: 0.5,
+      },
+    });
+  });
+
+  it('evaluates the slow-call rate of a sampling breaker', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new SamplingBreaker({
+      threshold: 0.5,
+      duration: 10_000,
+      minimumNumberOfCalls: 2,
+      slowCallThreshold: 0.5,
+    });
+
+    await expect(
+      evaluator.recordCallResults(
+        [
+          { callResult: CallResult.SLOW, timestamp: Date.now() - 60_000 },
+          ...results(CallResult.SUCCESS, 1),
+        ],
+        breaker,
+      ),
+    ).resolves.toBe(false);
+    await expect(
+      evaluator.recordCallResults(results(CallResult.SLOW, 1), breaker),
+    ).resolves.toBe(true);
+  });
+
+  it('evaluates results by their timestamps while the client clock runs ahead of Redis', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 2 });
+    const clientNow = Date.now() + 600_000;
+    vi.spyOn(Date, 'now').mockReturnValue(clientNow);
+    await redis.xadd(
+      'test-state',
+      '*',
+      'term',
+      '1',
+      'state',
+      CircuitState.CLOSED,
+      'timestamp',
+      clientNow.toString(),
+    );
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 2), breaker),
+    ).resolves.toBe(true);
+  });
+
+  it('trims by age against the Redis clock', async () => {
+    const evaluator = new RedisCallResultEvaluator({
+      redis,
+      callResultStreamKey: 'test-call-result',
+      stateStreamKey: 'test-state',
+      instanceId: 'instance-1',
+      retention: { maxAgeMs: 60_000 },
+      stateRetention: { maxAgeMs: 60_000 },
+    });
+    const breaker = new ConsecutiveBreaker({ threshold: 1 });
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 600_000);
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), breaker),
+    ).resolves.toBe(true);
+
+    await expect(redis.xlen('test-call-result')).resolves.toBe(1);
+    await expect(readStates()).resolves.toEqual([
+      expect.objectContaining({ state: CircuitState.OPEN }),
+    ]);
+  });
+
+  it('does not open a circuit that is not CLOSED or is overridden', async () => {
+    const evaluator = createEvaluator();
+    const breaker = new ConsecutiveBreaker({ threshold: 1 });
+    await redis.xadd(
+      'test-state',
+      '*',
+      'term',
+      '2',
+      'state',
+      CircuitState.CLOSED,
+      'timestamp',
+      '0',
+      'override',
+      'set',
+    );
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), breaker),
+    ).resolves.toBe(false);
+
+    await redis.xadd(
+      'test-state',
+      '*',
+      'term',
+      '2',
+      'state',
+      CircuitState.HALF_OPEN,
+      'timestamp',
+      '0',
+    );
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), breaker),
+    ).resolves.toBe(false);
+    await expect(redis.xlen('test-state')).resolves.toBe(2);
+  });
+
+  it('rejects strategies that cannot describe themselves', async () => {
+    const evaluator = createEvaluator();
+
+    await expect(
+      evaluator.recordCallResults(results(CallResult.FAILURE, 1), {
+        shouldOpenCircuit: () => true,
+      }),
+    ).rejects.toThrow('Object cannot be evaluated by Redis');
+  });
+});
@@ -0,0 +1,243 @@
+import type { BreakerStrategy } from '../../breakers/breaker-strategy.ts';
+import type { CallResultEvent } from '../../types.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type {
+  CallResultEvaluator,
+  CallResultRetention,
+  StateRetention,
+} from '../breaker-backend.ts';
+
+/**
+ * Appends call results, then evaluates a built-in breaker strategy on the results
+ * recorded since the latest transition and opens the circuit if it trips. The circuit
+ * is only opened while CLOSED and not overridden. The OPEN entry carries the latest
+ * leadership term forward, like operator writes.
+ *
+ * KEYS[1] - call-result stream key, KEYS[2] - state stream key
+ * ARGV[1] - call-result trim strategy, ARGV[2] - call-result trim threshold,
+ * ARGV[3] - state trim strategy, ARGV[4] - state trim threshold, where the threshold
+ * of MINID is a maximum age in milliseconds measured against the Redis clock,
+ * ARGV[5] - strategy config as JSON, ARGV[6] - strategy name, ARGV[7] - instance id,
+ * ARGV[8] - timestamp of the transition, ARGV[9..] - call result and timestamp pairs
+ * Returns 1 if the circuit was opened, 0 otherwise
+ */
+const RECORD_AND_EVALUATE_SCRIPT = `
+-- Entry ids are stamped by the Redis clock, so ages are measured against it
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local function trimThreshold(strategy, threshold)
+  if strategy == 'MINID' then
+    return now - tonumber(threshold)
+  end
+  return threshold
+end
+
+local callResultTrimThreshold = trimThreshold(ARGV[1], ARGV[2])
+for i = 9, #ARGV, 2 do
+  redis.call('XADD', KEYS[1], ARGV[1], '~', callResultTrimThreshold, '*', 'callResult', ARGV[i], 'timestamp', ARGV[i + 1])
+end
+
+local state = 'closed'
+local override = nil
+local since = 0
+local term = 0
+local latest = redis.call('XREVRANGE', KEYS[2], '+', '-', 'COUNT', 1)[1]
+if latest then
+  local fields = latest[2]
+  for i = 1, #fields, 2 do
+    local name, value = fields[i], fields[i + 1]
+    if name == 'state' then
+      state = value
+    elseif name == 'override' then
+      override = value
+    elseif name == 'timestamp' then
+      since = tonumber(value)
+    elseif name == 'term' then
+      term = tonumber(value)
+    end
+  end
+end
+if state ~= 'closed' or override == 'set' then
+  return 0
+end
+
+-- Timestamps come from the instances' clocks, which may run ahead of the Redis clock
+-- stamping the entry ids, so results are selected by their timestamps only
+local function readResults(minTimestamp, count)
+  local entries
+  if count then
+    entries = redis.call('XREVRANGE', KEYS[1], '+', '-', 'COUNT', count)
+  else
+    entries = redis.call('XREVRANGE', KEYS[1], '+', '-')
+  end
+  local results = {}
+  for _, entry in ipairs(entries) do
+    local timestamp = tonumber(entry[2][4])
+    if timestamp >= minTimestamp then
+      table.insert(results, entry[2][2])
+    end
+  end
+  return results
+end
+
+local config = cjson.decode(ARGV[5])
+local trips = false
+local snapshot
+
+if config.type == 'consecutive' then
+  local results = readResults(since, math.max(config.threshold, config.slowCallThreshold or 0))
+  if #results == 0 then
+    return 0
+  end
+  local function countTrailing(callResult)
+    local count = 0
+    for _, result in ipairs(results) do
+      if result ~= callResult then
+        break
+      end
+      count = count + 1
+    end
+    return count
+  end
+  local failures = countTrailing('failure')
+  snapshot = {consecutiveFailures = failures, threshold = config.threshold}
+  trips = failures >= config.threshold
+  if config.slowCallThreshold then
+    local slowCalls = countTrailing('slow')
+    snapshot.consecutiveSlowCalls = slowCalls
+    snapshot.slowCallThreshold = config.slowCallThreshold
+    trips = trips or slowCalls >= config.slowCallThreshold
+  end
+elseif config.type == 'count' or config.type == 'sampling' then
+  local results
+  if config.type == 'count' then
+    results = readResults(since, config.size)
+  else
+    local newest = redis.call('XREVRANGE', KEYS[1], '+', '-', 'COUNT', 1)[1]
+    results = readResults(math.max(since, tonumber(newest[2][4]) - config.duration))
+  end
+  local calls, failures, slowCalls = #results, 0, 0
+  for _, result in ipairs(results) do
+    if result == 'failure' then
+      failures = failures + 1
+    elseif result == 'slow' then
+      slowCalls = slowCalls + 1
+    end
+  end
+  local failureRate, slowCallRate = 0, 0
+  if calls > 0 then
+    failureRate = failures / calls
+    slowCallRate = slowCalls / calls
+  end
+  snapshot = {
+    calls = calls,
+    failures = failures,
+    failureRate = failureRate,
+    slowCalls = slowCalls,
+    slowCallRate = slowCallRate,
+    threshold = config.threshold,
+    slowCallThreshold = config.slowCallThreshold,
+  }
+  if calls > 0 and calls >= config.minimumNumberOfCalls then
+    trips = failureRate >= config.threshold or
+      (config.slowCallThreshold ~= nil and slowCallRate >= config.slowCallThreshold)
+  end
+else
+  return redis.error_reply('Unknown breaker strategy type "' .. tostring(config.type) .. '"')
+end
+
+if not trips then
+  return 0
+end
+local details = cjson.encode({strategy = ARGV[6], snapshot = snapshot})
+redis.call('XADD', KEYS[2], ARGV[3], '=', trimThreshold(ARGV[3], ARGV[4]), '*', 'term', term, 'state', 'open', 'timestamp', ARGV[8], 'reason', 'breaker-tripped', 'instanceId', ARGV[7], 'details', details)
+return 1
+`;
+
+type RedisCallResultEvaluatorOptions = {
+  /** Redis client used for running the evaluation script */
+  redis: RedisClient;
+  /** Stream key identifying the circuit's call-result event log */
+  callResultStreamKey: string;
+  /** Stream key identifying the circuit's state event log */
+  stateStreamKey: string;
+  /** Identifies this instance as the writer of the transitions it appends */
+  instanceId: string;
+  /** How many past call results the call-result stream keeps */
+  retention: CallResultRetention;
+  /** How many past transitions the state stream keeps */
+  stateRetention: StateRetention;
+};
+
+/**
+ * Records call results and opens the circuit in a single round trip, evaluating
+ * built-in breaker strategies in a Lua script. Both streams must share a Redis
+ * Cluster slot.
+ */
+export class RedisCallResultEvaluator implements CallResultEvaluator {
+  private readonly redis: RedisClient;
+  private readonly callResultStreamKey: string;
+  private readonly stateStreamKey: string;
+  private readonly instanceId: string;
+  private readonly retention: CallResultRetention;
+  private readonly stateRetention: StateRetention;
+
+  constructor(options: RedisCallResultEvaluatorOptions) {
+    this.redis = options.redis;
+    this.callResultStreamKey = options.callResultStreamKey;
+    this.stateStreamKey = options.stateStreamKey;
+    this.instanceId = options.instanceId;
+    this.retention = options.retention;
+    this.stateRetention = options.stateRetention;
+  }
+
+  /**
+   * Appends call results and opens the circuit if the strategy trips.
+   * Throws if the strategy cannot describe itself with `toConfig`.
+   * @returns true if the circuit was opened
+   */
+  async recordCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+    breaker: BreakerStrategy,
+  ): Promise<boolean> {
+    const config = breaker.toConfig?.();
+    if (!config) {
+      throw new Error(
+        `${breaker.constructor.name} cannot be evaluated by Redis`,
+      );
+    }
+
+    if (events.length === 0) {
+      return false;
+    }
+
+    // Call results are trimmed approximately, like the call-result store does
+    const trimArgs: [string, number] =
+      'maxAgeMs' in this.retention
+        ? ['MINID', this.retention.maxAgeMs]
+        : ['MAXLEN', this.retention.maxEntries];
+    const stateTrimArgs: [string, number] =
+      'maxAgeMs' in this.stateRetention
+        ? ['MINID', this.stateRetention.maxAgeMs]
+        : ['MAXLEN', this.stateRetention.maxEntries];
+
+    const opened = await this.redis.eval(
+      RECORD_AND_EVALUATE_SCRIPT,
+      2,
+      this.callResultStreamKey,
+      this.stateStreamKey,
+      ...trimArgs,
+      ...stateTrimArgs,
+      JSON.stringify(config),
+      breaker.constructor.name,
+      this.instanceId,
+      Date.now().toString(),
+      ...events.flatMap((event) => [
+        event.callResult,
+        event.timestamp.toString(),
+      ]),
+    );
+
+    return opened === 1;
+  }
+}
@@ -1,14 +1,27 @@
-import { describe, expect, it, vi } from 'vitest';
-import { redis } from '../../test/setup-redis.ts';
-import { CallResult } from '../constants.ts';
-import { CallResultStore } from './call-result-store.ts';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { CallResult } from '../../constants.ts';
+import { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import { RedisCallResultStore } from './redis-call-result-store.ts';
+
+describe('RedisCallResultStore', () => {
+  const streamReader = new RedisStreamReader({ redis });
+  const otherStreamReader = new RedisStreamReader({ redis });
+
+  beforeAll(async () => {
+    await Promise.all([streamReader.start(), otherStreamReader.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([streamReader.stop(), otherStreamReader.stop()]);
+  });
 
-describe('CallResultStore', () => {
   it('start is idempotent - calling twice should not throw', async () => {
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test-stream',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: vi.fn(),
@@ -21,10 +34,11 @@ describe('CallResultStore', () => {
   });
 
   it('stop is idempotent - calling before start should not throw', async () => {
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test-stream',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: vi.fn(),
@@ -34,10 +48,11 @@ describe('CallResultStore', () => {
   });
 
   it('should append call results to the redis stream', async () => {
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: vi.fn(),
@@ -75,10 +90,11 @@ describe('CallResultStore', () => {
   it('should load existing events on start', async () => {
     const onEventsAddedSpy = vi.fn();
 
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: onEventsAddedSpy,
@@ -101,19 +117,22 @@ describe('CallResultStore', () => {
     const onEventsAddedSpy1 = vi.fn();
     const onEventsAddedSpy2 = vi.fn();
 
-    const store1 = new CallResultStore({
+    const store1 = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: onEventsAddedSpy1,
     });
 
-    const store2 = new CallResultStore({
+    const store2 = new RedisCallResultStore({
       redis,
+      // A second instance reads the stream over its own connection
+      streamReader: otherStreamReader,
       redisStreamKey: 'test',
-      maxLen: 1000,
+      retention: { maxEntries: 1000 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: onEventsAddedSpy2,
@@ -143,13 +162,14 @@ describe('CallResultStore', () => {
     await Promise.all([store1.stop(), store2.stop()]);
   });
 
-  it('should enforce maxLen limit', async () => {
+  it('should enforce the maxEntries retention', async () => {
     const onEventsAddedSpy = vi.fn();
 
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test-maxlen',
-      maxLen: 3,
+      retention: { maxEntries: 3 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: onEventsAddedSpy,
@@ -176,13 +196,39 @@ describe('CallResultStore', () => {
     await store.stop();
   });
 
+  it('should only load events within the maxAgeMs retention', async () => {
+    const store = new RedisCallResultStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-max-age',
+      retention: { maxAgeMs: 60_000 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+      onEventsAdded: vi.fn(),
+    });
+
+    await store.storeCallResults([
+      { callResult: CallResult.FAILURE, timestamp: Date.now() - 120_000 },
+      { callResult: CallResult.SUCCESS, timestamp: Date.now() },
+    ]);
+
+    await store.start();
+
+    expect(store.getEvents()).toEqual([
+      expect.objectContaining({ callResult: CallResult.SUCCESS }),
+    ]);
+
+    await store.stop();
+  });
+
   it('should listen for events after restart', async () => {
     const onEventsAddedSpy = vi.fn();
 
-    const store = new CallResultStore({
+    const store = new RedisCallResultStore({
       redis,
+      streamReader,
       redisStreamKey: 'test-restart',
-      maxLen: 3,
+      retention: { maxEntries: 3 },
       onStreamReadError: vi.fn(),
       onStreamWriteError: vi.fn(),
       onEventsAdded: onEventsAddedSpy,
@@ -0,0 +1,187 @@
+import type { CallResult } from '../../constants.ts';
+import type { CallResultEvent } from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { applyCallResultRetention } from '../../utils/call-result-retention.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type {
+  CallResultRetention,
+  CallResultStore,
+} from '../breaker-backend.ts';
+
+type RedisCallResultStoreOptions = {
+  /** Redis client used for storing and reading stream data */
+  redis: RedisClient;
+  /** Reader that delivers entries appended to the stream */
+  streamReader: RedisStreamReader;
+  /** Stream key identifying the circuit's call-result event log */
+  redisStreamKey: string;
+  /** How many past events to retain in memory and stream */
+  retention: CallResultRetention;
+  /** Called when an error occurs while reading from the Redis stream */
+  onStreamReadError: (err: unknown) => void;
+  /** Called when an error occurs while writing to the Redis stream */
+  onStreamWriteError: (err: unknown) => void;
+  /** Called whenever new events are added. Receives the full list of current events. */
+  onEventsAdded: (events: CallResultEvent[]) => void | Promise<void>;
+};
+
+/**
+ * Keeps the call results of a circuit in a capped Redis stream.
+ */
+export class RedisCallResultStore
+  extends AbstractLifecycleManager
+  implements CallResultStore
+{
+  private readonly redis: RedisClient;
+  private readonly redisStreamKey: string;
+  private readonly streamReader: RedisStreamReader;
+  private readonly retention: CallResultRetention;
+  private readonly onStreamReadError: (err: unknown) => void;
+  private readonly onStreamWriteError: (err: unknown) => void;
+  private readonly onEventsAdded: (
+    events: CallResultEvent[],
+  ) => void | Promise<void>;
+
+  private events: CallResultEvent[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: RedisCallResultStoreOptions) {
+    super();
+    this.redis = options.redis;
+    this.redisStreamKey = options.redisStreamKey;
+    this.streamReader = options.streamReader;
+    this.retention = options.retention;
+    this.onStreamReadError = options.onStreamReadError;
+    this.onStreamWriteError = options.onStreamWriteError;
+    this.onEventsAdded = options.onEventsAdded;
+  }
+
+  protected override async startInternal(): Promise<void> {
+    this.events = await this.getInitialEvents();
+    if (this.events.length > 0) {
+      this.onEventsAdded(this.events);
+    }
+    this.unsubscribe = this.streamReader.subscribe(this.redisStreamKey, {
+      getLastId: () => this.events.at(-1)?.id ?? '0',
+      onEntries: (entries) => {
+        const events = entries.map(this.mapEntryToCallResultEvent);
+        this.pushEvents(events);
+      },
+      onError: this.onStreamReadError,
+    });
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.events = [];
+  }
+
+  private async getInitialEvents(): Promise<CallResultEvent[]> {
+    if ('maxAgeMs' in this.retention) {
+      const now = Date.now();
+      const entries = await this.redis.xrange(
+        this.redisStreamKey,
+        now - this.retention.maxAgeMs,
+        '+',
+      );
+
+      return applyCallResultRetention(
+        entries.map(this.mapEntryToCallResultEvent),
+        this.retention,
+        now,
+      );
+    }
+
+    const entries = await this.redis.xrevrange(
+      this.redisStreamKey,
+      '+',
+      '-',
+      'COUNT',
+      this.retention.maxEntries,
+    );
+
+    const orderedEntries = entries.toReversed();
+    return orderedEntries.map(this.mapEntryToCallResultEvent);
+  }
+
+  getEvents(): CallResultEvent[] {
+    return this.events;
+  }
+
+  async storeCallResult(callResult: CallResult): Promise<void> {
+    try {
+      await this.redis.xadd(
+        this.redisStreamKey,
+        ...this.getTrimArgs(),
+        '*',
+        'callResult',
+        callResult,
+        'timestamp',
+        Date.now().toString(),
+      );
+    } catch (err) {
+      this.onStreamWriteError(err);
+    }
+  }
+
+  async storeCallResults(
+    events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const pipeline = this.redis.pipeline();
+
+    for (const event of events) {
+      pipeline.xadd(
+        this.redisStreamKey,
+        ...this.getTrimArgs(),
+        '*',
+        'callResult',
+        event.callResult,
+        'timestamp',
+        event.timestamp.toString(),
+      );
+    }
+
+    const results = (await pipeline.exec()) ?? [];
+    const failed = results.find(([err]) => err);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+
+  /**
+   * Returns the XADD arguments trimming the stream to the retention. Trimming is
+   * approximate, so Redis can drop whole nodes of the stream at once.
+   */
+  private getTrimArgs(): [string, string, number] {
+    return 'maxAgeMs' in this.retention
+      ? ['MINID', '~', Date.now() - this.retention.maxAgeMs]
+      : ['MAXLEN', '~', this.retention.maxEntries];
+  }
+
+  private mapEntryToCallResultEvent(
+    entry: [string, string[]],
+  ): CallResultEvent {
+    const [id, fields] = entry;
+
+    return {
+      id,
+      callResult: fields[1] as CallResult,
+      timestamp: Number(fields[3]),
+    };
+  }
+
+  private pushEvents(events: CallResultEvent[]): void {
+    this.events = applyCallResultRetention(
+      [...this.events, ...events],
+      this.retention,
+    );
+
+    this.onEventsAdded(this.events);
+  }
+}
@@ -0,0 +1,709 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { CircuitState, StateChangeReason } from '../../constants.ts';
+import { delay } from '../../utils/delay.ts';
+import { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type { StateRetention } from '../breaker-backend.ts';
+import { RedisCircuitStateStore } from './redis-circuit-state-store.ts';
+
+describe('RedisCircuitStateStore', () => {
+  const streamReader = new RedisStreamReader({ redis });
+  const otherStreamReader = new RedisStreamReader({ redis });
+
+  beforeAll(async () => {
+    await Promise.all([streamReader.start(), otherStreamReader.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([streamReader.stop(), otherStreamReader.stop()]);
+  });
+
+  it('start is idempotent - calling twice should not throw', async () => {
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-circuit',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+    await expect(store.start()).resolves.not.toThrow();
+    await store.stop();
+  });
+
+  it('stop is idempotent - calling before start should not throw', async () => {
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-circuit',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await expect(store.stop()).resolves.not.toThrow();
+  });
+
+  it('should write state updates to the Redis stream', async () => {
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-circuit-stream',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+    await store.setState(
+      CircuitState.CLOSED,
+      StateChangeReason.RECOVERY_CHECK_PASSED,
+    );
+
+    const entries = await redis.xrange('test-circuit-stream', '-', '+');
+
+    expect(entries).toHaveLength(2);
+
+    expect(entries).toEqual([
+      [
+        expect.any(String),
+        [
+          'state',
+          CircuitState.OPEN,
+          'timestamp',
+          expect.stringMatching(/^\d+$/),
+          'reason',
+          StateChangeReason.BREAKER_TRIPPED,
+          'instanceId',
+          'test-instance',
+        ],
+      ],
+      [
+        expect.any(String),
+        [
+          'state',
+          CircuitState.CLOSED,
+          'timestamp',
+          expect.stringMatching(/^\d+$/),
+          'reason',
+          StateChangeReason.RECOVERY_CHECK_PASSED,
+          'instanceId',
+          'test-instance',
+        ],
+      ],
+    ]);
+  });
+
+  it('should load the latest existing state on start', async () => {
+    const redisStreamKey = 'test-circuit-init';
+    await redis.xadd(
+      redisStreamKey,
+      '*',
+      'state',
+      CircuitState.OPEN,
+      'timestamp',
+      Date.now().toString(),
+    );
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(store.getLastTransition()).toMatchObject({
+      reason: null,
+      details: {},
+      instanceId: null,
+    });
+
+    await store.stop();
+  });
+
+  it('should default to CLOSED if no state exists', async () => {
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-default-state',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+
+    expect(store.getState()).toBe(CircuitState.CLOSED);
+
+    await store.stop();
+  });
+
+  it('should update the current state when a new event is written', async () => {
+    const redisStreamKey = 'test-circuit-update';
+
+    const onStateChange1 = vi.fn();
+
+    const store1 = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'instance-1',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+      onStateChange: onStateChange1,
+    });
+
+    const onStateChange2 = vi.fn();
+
+    const store2 = new RedisCircuitStateStore({
+      redis,
+      // A second instance reads the stream over its own connection
+      streamReader: otherStreamReader,
+      redisStreamKey,
+      instanceId: 'instance-2',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+      onStateChange: onStateChange2,
+    });
+
+    await Promise.all([store1.start(), store2.start()]);
+
+    await store1.setState(
+      CircuitState.OPEN,
+      StateChangeReason.BREAKER_TRIPPED,
+      {
+        strategy: 'ConsecutiveBreaker',
+        snapshot: { consecutiveFailures: 3, threshold: 3 },
+      },
+    );
+
+    await vi.waitUntil(
+      () => onStateChange1.mock.calls[0]?.[0]?.state === CircuitState.OPEN,
+    );
+    await vi.waitUntil(
+      () => onStateChange2.mock.calls[0]?.[0]?.state === CircuitState.OPEN,
+    );
+    await vi.waitUntil(() => store1.getState() === CircuitState.OPEN);
+    await vi.waitUntil(() => store2.getState() === CircuitState.OPEN);
+
+    expect(onStateChange2).toHaveBeenCalledExactlyOnceWith({
+      state: CircuitState.OPEN,
+      reason: StateChangeReason.BREAKER_TRIPPED,
+      details: {
+        strategy: 'ConsecutiveBreaker',
+        snapshot: { consecutiveFailures: 3, threshold: 3 },
+      },
+      instanceId: 'instance-1',
+      timestamp: expect.any(Number),
+    });
+
+    await Promise.all([store1.stop(), store2.stop()]);
+  });
+
+  it('should listen for events after restart', async () => {
+    const onStateChange = vi.fn();
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-restart',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+      onStateChange,
+    });
+
+    await store.start();
+    await store.stop();
+    await store.start();
+
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+
+    await vi.waitUntil(() => onStateChange.mock.calls.length > 0);
+
+    await store.stop();
+  });
+
+  it('should return 0 as timestamp for initial state', () => {
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-initial-timestamp',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    expect(store.getLastStateChangeTimestamp()).toBe(0);
+  });
+
+  it('should load timestamp from existing state on start', async () => {
+    const redisStreamKey = 'test-load-timestamp';
+    const expectedTimestamp = Date.now() - 1000;
+
+    await redis.xadd(
+      redisStreamKey,
+      '*',
+      'state',
+      CircuitState.OPEN,
+      'timestamp',
+      expectedTimestamp.toString(),
+    );
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(store.getLastStateChangeTimestamp()).toBe(expectedTimestamp);
+
+    await store.stop();
+  });
+
+  it('should return timestamp when state changes', async () => {
+    const redisStreamKey = 'test-timestamp-change';
+    const beforeTimestamp = Date.now();
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+    await store.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED);
+
+    await vi.waitUntil(() => store.getState() === CircuitState.OPEN);
+
+    const afterTimestamp = Date.now();
+    const stateTimestamp = store.getLastStateChangeTimestamp();
+
+    expect(stateTimestamp).toBeGreaterThanOrEqual(beforeTimestamp);
+    expect(stateTimestamp).toBeLessThanOrEqual(afterTimestamp);
+
+    await store.stop();
+  });
+
+  it('should write overrides with audit fields to the Redis stream', async () => {
+    const redisStreamKey = 'test-override-write';
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.setOverride(CircuitState.OPEN, {
+      reason: 'incident',
+      actor: 'alice',
+    });
+
+    const entries = await redis.xrange(redisStreamKey, '-', '+');
+
+    expect(entries).toEqual([
+      [
+        expect.any(String),
+        [
+          'state',
+          CircuitState.OPEN,
+          'timestamp',
+          expect.stringMatching(/^\d+$/),
+          'reason',
+          StateChangeReason.MANUAL_OVERRIDE,
+          'instanceId',
+          'test-instance',
+          'override',
+          'set',
+          'overrideReason',
+          'incident',
+          'overrideActor',
+          'alice',
+        ],
+      ],
+    ]);
+  });
+
+  it('should track the active override and notify about its changes', async () => {
+    const onOverrideChange = vi.fn();
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey: 'test-override-change',
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+      onOverrideChange,
+    });
+
+    await store.start();
+
+    await store.setOverride(CircuitState.OPEN, { reason: 'incident' });
+
+    await vi.waitUntil(() => store.getOverride() !== null);
+
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(store.getOverride()).toEqual({
+      state: CircuitState.OPEN,
+      reason: 'incident',
+      actor: undefined,
+      timestamp: expect.any(Number),
+    });
+    expect(onOverrideChange).toHaveBeenLastCalledWith(store.getOverride());
+
+    await store.clearOverride({ reason: 'resolved' });
+
+    await vi.waitUntil(() => store.getOverride() === null);
+
+    expect(store.getState()).toBe(CircuitState.OPEN);
+    expect(onOverrideChange).toHaveBeenLastCalledWith(null);
+
+    await store.stop();
+  });
+
+  it('should load an active override on start', async () => {
+    const redisStreamKey = 'test-override-load';
+
+    const writer = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await writer.setOverride(CircuitState.CLOSED, {
+      reason: 'false positive',
+      actor: 'bob',
+    });
+
+    const store = new RedisCircuitStateStore({
+      redis,
+      streamReader,
+      redisStreamKey,
+      instanceId: 'test-instance',
+      retention: { maxEntries: 10 },
+      onStreamReadError: vi.fn(),
+      onStreamWriteError: vi.fn(),
+    });
+
+    await store.start();
+
+    expect(store.getOverride()).toMatchObject({
+      state: CircuitState.CLOSED,
+      reason: 'false positive',
+      actor: 'bob',
+    });
+
+    await store.stop();
+  });
+
+  describe('getHistory', () => {
+    const createStore = (
+      redisStreamKey: string,
+      retention: StateRetention = { maxEntries: 100 },
+    ) =>
+      new RedisCircuitStateStore({
+        redis,
+        streamReader,
+        redisStreamKey,
+        instanceId: 'test-instance',
+        retention,
+        onStreamReadError: vi.fn(),
+        onStreamWriteError: vi.fn(),
+      });
+
+    it('returns transitions from oldest to newest with time spent in each state', async () => {
+      const store = createStore('test-history');
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await delay(20);
+      await store.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+
+      const history = await store.getHistory({});
+
+      expect(history).toEqual([
+        {
+          state: CircuitState.OPEN,
+          reason: StateChangeReason.BREAKER_TRIPPED,
+          details: {},
+          instanceId: 'test-instance',
+          timestamp: expect.any(Number),
+          endedAt: history[1]?.timestamp,
+          durationMs: expect.any(Number),
+        },
+        {
+          state: CircuitState.CLOSED,
+          reason: StateChangeReason.RECOVERY_CHECK_PASSED,
+          details: {},
+          instanceId: 'test-instance',
+          timestamp: expect.any(Number),
+          endedAt: null,
+          durationMs: expect.any(Number),
+        },
+      ]);
+      expect(history[0]?.durationMs).toBeGreaterThanOrEqual(20);
+    });
+
+    it('returns the most recent transitions up to the limit', async () => {
+      const store = createStore('test-history-limit');
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await store.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.IDLE_CHECK_FAILED,
+      );
+
+      const history = await store.getHistory({ limit: 2 });
+
+      expect(history.map((entry) => entry.reason)).toEqual([
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+        StateChangeReason.IDLE_CHECK_FAILED,
+      ]);
+      expect(history[0]?.endedAt).toBe(history[1]?.timestamp);
+    });
+
+    it('returns only transitions since the given time', async () => {
+      const store = createStore('test-history-since');
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await delay(20);
+      const since = Date.now();
+      await store.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+
+      const history = await store.getHistory({ since });
+
+      expect(history.map((entry) => entry.state)).toEqual([
+        CircuitState.CLOSED,
+      ]);
+    });
+
+    it('keeps at most the configured number of transitions', async () => {
+      const store = createStore('test-history-entries', { maxEntries: 2 });
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await store.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.IDLE_CHECK_FAILED,
+      );
+
+      const history = await store.getHistory({});
+
+      expect(history.map((entry) => entry.reason)).toEqual([
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+        StateChangeReason.IDLE_CHECK_FAILED,
+      ]);
+    });
+
+    it('trims transitions older than the retention age', async () => {
+      const store = createStore('test-history-age', { maxAgeMs: 50 });
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await delay(100);
+      await store.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+
+      const entries = await redis.xrange('test-history-age', '-', '+');
+
+      expect(entries).toHaveLength(1);
+    });
+  });
+
+  describe('conditional transitions', () => {
+    const createStore = (
+      instanceId: string,
+      options: {
+        getFencingToken?: () => number | null;
+        onWriteRejected?: (err: Error) => void;
+      } = {},
+    ) =>
+      new RedisCircuitStateStore({
+        redis,
+        streamReader,
+        redisStreamKey: 'test-conditional',
+        leaderTermKey: 'test-conditional-term',
+        instanceId,
+        retention: { maxEntries: 10 },
+        onStreamReadError: vi.fn(),
+        onStreamWriteError: vi.fn(),
+        ...options,
+      });
+
+    it('appends consecutive transitions of the same store', async () => {
+      const onWriteRejected = vi.fn();
+      const store = createStore('instance-1', { onWriteRejected });
+      await store.start();
+
+      await store.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      await store.setState(
+        CircuitState.HALF_OPEN,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+
+      expect(onWriteRejected).not.toHaveBeenCalled();
+      await expect(
+        redis.xrange('test-conditional', '-', '+'),
+      ).resolves.toHaveLength(2);
+
+      await store.stop();
+    });
+
+    it('rejects a transition when the stream moved on since it was last read', async () => {
+      const onWriteRejected = vi.fn();
+      const store1 = createStore('instance-1', { onWriteRejected });
+      const store2 = createStore('instance-2', { onWriteRejected });
+      await Promise.all([store1.start(), store2.start()]);
+
+      // Whichever store writes second has not read the entry of the first
+      await Promise.all([
+        store1.setState(CircuitState.OPEN, StateChangeReason.BREAKER_TRIPPED),
+        store2.setState(CircuitState.OPEN, StateChangeReason.IDLE_CHECK_FAILED),
+      ]);
+
+      expect(onWriteRejected).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          message: expect.stringContaining('expected latest state entry 0'),
+        }),
+      );
+      await expect(
+        redis.xrange('test-conditional', '-', '+'),
+      ).resolves.toHaveLength(1);
+
+      await Promise.all([store1.stop(), store2.stop()]);
+    });
+
+    it('rejects transitions of a leader whose term has ended', async () => {
+      const onWriteRejected = vi.fn();
+      const staleLeader = createStore('instance-1', {
+        getFencingToken: () => 1,
+        onWriteRejected,
+      });
+      const leader = createStore('instance-2', { getFencingToken: () => 2 });
+      const operator = createStore('operator');
+      await Promise.all([
+        staleLeader.start(),
+        leader.start(),
+        operator.start(),
+      ]);
+
+      await leader.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+      // Operator writes keep the term of the latest leader
+      await operator.setOverride(CircuitState.OPEN, { reason: 'maintenance' });
+      await vi.waitFor(() => expect(staleLeader.getOverride()).not.toBeNull());
+
+      await staleLeader.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+      );
+
+      expect(onWriteRejected).toHaveBeenCalledWith(
+        new Error(
+          'Transition to closed rejected: leadership term 1 is older than term 2',
+        ),
+      );
+      await expect(
+        redis.xrange('test-conditional', '-', '+'),
+      ).resolves.toHaveLength(2);
+
+      await Promise.all([staleLeader.stop(), leader.stop(), operator.stop()]);
+    });
+
+    it('rejects transitions of a leader whose successor has not written yet', async () => {
+      const onWriteRejected = vi.fn();
+      const staleLeader = createStore('instance-1', {
+        getFencingToken: () => 1,
+        onWriteRejected,
+      });
+      await staleLeader.start();
+
+      // The successor drew term 2 but has not transitioned the circuit
+      await redis.set('test-conditional-term', 2);
+
+      await staleLeader.setState(
+        CircuitState.OPEN,
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+
+      expect(onWriteRejected).toHaveBeenCalledWith(
+        new Error(
+          'Transition to open rejected: leadership term 1 is older than term 2',
+        ),
+      );
+      await expect(redis.exists('test-conditional')).resolves.toBe(0);
+
+      await staleLeader.stop();
+    });
+  });
+});
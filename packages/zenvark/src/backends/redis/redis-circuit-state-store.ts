@@ -0,0 +1,469 @@
+import { CircuitState, StateChangeReason } from '../../constants.ts';
+import type {
+  CircuitOverride,
+  OverrideParams,
+  StateChangeDetails,
+  StateHistoryEntry,
+  StateHistoryParams,
+  StateTransition,
+} from '../../types.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { buildStateHistory } from '../../utils/build-state-history.ts';
+import { parseStreamFields } from '../../utils/parse-stream-fields.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type { CircuitStateStore, StateRetention } from '../breaker-backend.ts';
+
+/**
+ * Value of the `override` stream field, marking entries written by an operator.
+ */
+const OverrideAction = {
+  SET: 'set',
+  CLEARED: 'cleared',
+} as const;
+
+/**
+ * Appends a state entry unless the stream moved on since the writer last read it,
+ * or a later leadership term has begun. Each entry records the term of the
+ * leader that wrote it; operator writes carry the latest term forward.
+ *
+ * KEYS[1] - state stream key, KEYS[2] - leadership term counter key (optional)
+ * ARGV[1] - expected id of the latest entry, ARGV[2] - fencing token of the writer,
+ * both empty to append unconditionally. ARGV[3] - trim strategy, ARGV[4] - trim threshold,
+ * ARGV[5..] - entry fields
+ * Returns {'ok', id}, {'conflict', latest entry id} or {'fenced', latest term}
+ */
+const APPEND_ENTRY_SCRIPT = `
+local latestId = '0'
+local latestTerm = 0
+local latest = redis.call('XREVRANGE', KEYS[1], '+', '-', 'COUNT', 1)[1]
+if latest then
+  latestId = latest[1]
+  local fields = latest[2]
+  for i = 1, #fields, 2 do
+    if fields[i] == 'term' then
+      latestTerm = tonumber(fields[i + 1])
+    end
+  end
+end
+if ARGV[1] ~= '' and ARGV[1] ~= latestId then
+  return {'conflict', latestId}
+end
+local term = latestTerm
+if ARGV[2] ~= '' then
+  term = tonumber(ARGV[2])
+  -- A new leader is fenced in as soon as it is elected, before its first write
+  local currentTerm = latestTerm
+  if KEYS[2] then
+    currentTerm = math.max(currentTerm, tonumber(redis.call('GET', KEYS[2]) or '0'))
+  end
+  if term < currentTerm then
+    return {'fenced', tostring(currentTerm)}
+  end
+end
+local id = redis.call('XADD', KEYS[1], ARGV[3], '=', ARGV[4], '*', 'term', term, unpack(ARGV, 5))
+return {'ok', id}
+`;
+
+/**
+ * Condition a transition written by the leader is appended under.
+ */
+type WriteGuard = {
+  /** Id of the latest entry the writer knows of */
+  expectedId: string;
+  /** Term of the writer's leadership, if transitions are fenced */
+  fencingToken: number | undefined;
+};
+
+type CircuitStateEvent = StateTransition & {
+  id: string;
+  override: CircuitOverride | null;
+};
+
+type RedisCircuitStateStoreOptions = {
+  /** Redis client used for storing and reading stream data */
+  redis: RedisClient;
+  /** Reader that delivers entries appended to the stream */
+  streamReader: RedisStreamReader;
+  /** Stream key identifying the circuit's state event log */
+  redisStreamKey: string;
+  /**
+   * Key of the counter the leader elector draws leadership terms from. Fenced writes
+   * are rejected once a later term begins. Without it, only terms that have written
+   * to the stream fence them.
+   */
+  leaderTermKey?: string;
+  /** Identifies this instance as the writer of the entries it appends */
+  instanceId: string;
+  /** How many past transitions the stream keeps */
+  retention: StateRetention;
+  /** Called when an error occurs while reading from the Redis stream */
+  onStreamReadError: (err: unknown) => void;
+  /** Called when an error occurs while writing to the Redis stream */
+  onStreamWriteError: (err: unknown) => void;
+  /**
+   * Returns the leadership term of this instance, or null if it does not lead.
+   * When set, transitions are only appended by the leader of the latest term.
+   */
+  getFencingToken?: () => number | null;
+  /** Called when a transition is not appended, because the stream moved on or leadership was lost */
+  onWriteRejected?: (err: Error) => void;
+  /** Called whenever the state changes to a new value. Not called during initial load. */
+  onStateChange?: (transition: StateTransition) => void;
+  /** Called whenever a manual override is set, replaced or cleared. Not called during initial load. */
+  onOverrideChange?: (override: CircuitOverride | null) => void;
+};
+
+/**
+ * Keeps the state of a circuit in a Redis stream, one entry per transition.
+ */
+export class RedisCircuitStateStore
+  extends AbstractLifecycleManager
+  implements CircuitStateStore
+{
+  private readonly redis: RedisClient;
+  private readonly redisStreamKey: string;
+  private readonly leaderTermKey?: string;
+  private readonly instanceId: string;
+  private readonly retention: StateRetention;
+  private readonly streamReader: RedisStreamReader;
+  private readonly onStreamReadError: (err: unknown) => void;
+  private readonly onStreamWriteError: (err: unknown) => void;
+  private readonly getFencingToken?: () => number | null;
+  private readonly onWriteRejected?: (err: Error) => void;
+  private readonly onStateChange?: (transition: StateTransition) => void;
+  private readonly onOverrideChange?: (
+    override: CircuitOverride | null,
+  ) => void;
+
+  private currentState: CircuitStateEvent = {
+    id: '0',
+    state: CircuitState.CLOSED,
+    timestamp: 0,
+    reason: null,
+    details: {},
+    instanceId: null,
+    override: null,
+  };
+
+  /** Id of the latest transition appended by this store, until the reader delivers it */
+  private ownWriteId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: RedisCircuitStateStoreOptions) {
+    super();
+    this.redis = options.redis;
+    this.redisStreamKey = options.redisStreamKey;
+    this.leaderTermKey = options.leaderTermKey;
+    this.instanceId = options.instanceId;
+    this.streamReader = options.streamReader;
+    this.retention = options.retention;
+    this.onStreamReadError = options.onStreamReadError;
+    this.onStreamWriteError = options.onStreamWriteError;
+    this.getFencingToken = options.getFencingToken;
+    this.onWriteRejected = options.onWriteRejected;
+    this.onStateChange = options.onStateChange;
+    this.onOverrideChange = options.onOverrideChange;
+  }
+
+  /**
+   * Starts the store by loading the latest state from Redis and listening for changes.
+   */
+  protected override async startInternal(): Promise<void> {
+    await this.loadLatestState();
+
+    this.unsubscribe = this.streamReader.subscribe(this.redisStreamKey, {
+      getLastId: () => this.currentState.id,
+      onEntries: (entries) => {
+        const entry = entries.at(-1);
+        if (!entry) {
+          return;
+        }
+
+        if (entries.some(([id]) => id === this.ownWriteId)) {
+          this.ownWriteId = null;
+        }
+
+        const prev = this.currentState;
+        this.currentState = this.mapEntryToStateEvent(entry);
+        const next = this.currentState;
+
+        if (prev.state !== next.state) {
+          this.onStateChange?.(this.getLastTransition());
+        }
+
+        if (prev.override || next.override) {
+          this.onOverrideChange?.(next.override);
+        }
+      },
+      onError: this.onStreamReadError,
+    });
+  }
+
+  /**
+   * Stops listening for changes.
+   */
+  protected override async stopInternal(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Appends a transition, unless another transition was appended since this store
+   * last read the stream or, with `getFencingToken` set, a later leadership term has begun.
+   * Rejected transitions are passed to `onWriteRejected`.
+   */
+  async setState(
+    state: CircuitState,
+    reason: StateChangeReason,
+    details: StateChangeDetails = {},
+  ): Promise<void> {
+    const fencingToken = this.getFencingToken?.();
+    if (fencingToken === null) {
+      this.onWriteRejected?.(
+        new Error(
+          `Transition to ${state} rejected: this instance does not hold leadership`,
+        ),
+      );
+      return;
+    }
+
+    // Own transitions not read back yet count as seen, so consecutive writes do not conflict
+    const expectedId = this.ownWriteId ?? this.currentState.id;
+
+    let result: [string, string];
+    try {
+      result = await this.appendEntry(state, reason, details, [], {
+        expectedId,
+        fencingToken,
+      });
+    } catch (err) {
+      this.onStreamWriteError(err);
+      return;
+    }
+
+    const [status, value] = result;
+    if (status === 'conflict') {
+      this.onWriteRejected?.(
+        new Error(
+          `Transition to ${state} rejected: expected latest state entry ${expectedId}, found ${value}`,
+        ),
+      );
+    } else if (status === 'fenced') {
+      this.onWriteRejected?.(
+        new Error(
+          `Transition to ${state} rejected: leadership term ${fencingToken} is older than term ${value}`,
+        ),
+      );
+    } else {
+      this.ownWriteId = value;
+    }
+  }
+
+  /**
+   * Forces the circuit into the given state on all instances until the override is cleared.
+   * Unlike `setState`, write errors are thrown to the caller.
+   */
+  async setOverride(
+    state: CircuitState,
+    params: OverrideParams,
+  ): Promise<void> {
+    await this.appendEntry(
+      state,
+      StateChangeReason.MANUAL_OVERRIDE,
+      {},
+      ['override', OverrideAction.SET, ...this.getOverrideAuditFields(params)],
+      null,
+    );
+  }
+
+  /**
+   * Clears the active override, keeping the circuit in its current state.
+   * Unlike `setState`, write errors are thrown to the caller.
+   */
+  async clearOverride(params: OverrideParams): Promise<void> {
+    await this.appendEntry(
+      this.getState(),
+      StateChangeReason.OVERRIDE_CLEARED,
+      {},
+      [
+        'override',
+        OverrideAction.CLEARED,
+        ...this.getOverrideAuditFields(params),
+      ],
+      null,
+    );
+  }
+
+  private getOverrideAuditFields(params: OverrideParams): string[] {
+    const fields = ['overrideReason', params.reason];
+
+    if (params.actor !== undefined) {
+      fields.push('overrideActor', params.actor);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Appends an entry through `APPEND_ENTRY_SCRIPT`. Entries without a guard,
+   * written by operators, are appended unconditionally.
+   * @returns The status and value returned by the script
+   */
+  private async appendEntry(
+    state: CircuitState,
+    reason: StateChangeReason,
+    details: StateChangeDetails,
+    extraFields: string[],
+    guard: WriteGuard | null,
+  ): Promise<[string, string]> {
+    const detailFields =
+      Object.keys(details).length > 0
+        ? ['details', JSON.stringify(details)]
+        : [];
+
+    // Transitions are rare, so exact trimming is cheap and keeps the retention predictable
+    const trimArgs: [string, number] =
+      'maxAgeMs' in this.retention
+        ? ['MINID', Date.now() - this.retention.maxAgeMs]
+        : ['MAXLEN', this.retention.maxEntries];
+
+    const keys = this.leaderTermKey
+      ? [this.redisStreamKey, this.leaderTermKey]
+      : [this.redisStreamKey];
+
+    return (await this.redis.eval(
+      APPEND_ENTRY_SCRIPT,
+      keys.length,
+      ...keys,
+      guard?.expectedId ?? '',
+      guard?.fencingToken ?? '',
+      ...trimArgs,
+      'state',
+      state,
+      'timestamp',
+      Date.now().toString(),
+      'reason',
+      reason,
+      'instanceId',
+      this.instanceId,
+      ...detailFields,
+      ...extraFields,
+    )) as [string, string];
+  }
+
+  /**
+   * Returns the current state of the circuit.
+   */
+  getState(): CircuitState {
+    return this.currentState.state;
+  }
+
+  /**
+   * Returns the Unix timestamp (in milliseconds) of the latest circuit state transition.
+   * Returns 0 if the circuit has never transitioned from its initial state.
+   */
+  getLastStateChangeTimestamp(): number {
+    return this.currentState.timestamp;
+  }
+
+  /**
+   * Returns the stream entry id of the latest circuit state transition.
+   * Returns '0' if the circuit has never transitioned from its initial state.
+   */
+  getLastStateChangeId(): string {
+    return this.currentState.id;
+  }
+
+  /**
+   * Returns the latest circuit state transition, including why it happened and who wrote it.
+   */
+  getLastTransition(): StateTransition {
+    const { state, reason, details, instanceId, timestamp } = this.currentState;
+    return { state, reason, details, instanceId, timestamp };
+  }
+
+  /**
+   * Returns the active manual override, or null if the circuit is not overridden.
+   */
+  getOverride(): CircuitOverride | null {
+    return this.currentState.override;
+  }
+
+  /**
+   * Reads past transitions from the stream, ordered from oldest to newest.
+   * Errors are thrown to the caller.
+   */
+  async getHistory(params: StateHistoryParams): Promise<StateHistoryEntry[]> {
+    const start = params.since === undefined ? '-' : params.since.toString();
+    const entries =
+      params.limit === undefined
+        ? await this.redis.xrevrange(this.redisStreamKey, '+', start)
+        : await this.redis.xrevrange(
+            this.redisStreamKey,
+            '+',
+            start,
+            'COUNT',
+            params.limit,
+          );
+
+    const transitions = entries.toReversed().map((entry) => {
+      const { state, reason, details, instanceId, timestamp } =
+        this.mapEntryToStateEvent(entry);
+      return { state, reason, details, instanceId, timestamp };
+    });
+
+    return buildStateHistory(transitions);
+  }
+
+  private mapEntryToStateEvent(entry: [string, string[]]): CircuitStateEvent {
+    const [id, fields] = entry;
+    const record = parseStreamFields(fields);
+
+    const state = record.state as CircuitState;
+    const timestamp = Number(record.timestamp);
+    const reason = (record.reason as StateChangeReason | undefined) ?? null;
+    const instanceId = record.instanceId ?? null;
+    const details = this.parseDetails(record.details);
+
+    const override: CircuitOverride | null =
+      record.override === OverrideAction.SET
+        ? {
+            state,
+            reason: record.overrideReason ?? '',
+            actor: record.overrideActor,
+            timestamp,
+          }
+        : null;
+
+    return { id, state, timestamp, reason, details, instanceId, override };
+  }
+
+  private parseDetails(value: string | undefined): StateChangeDetails {
+    if (value === undefined) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(value) as StateChangeDetails;
+    } catch {
+      return {};
+    }
+  }
+
+  private async loadLatestState(): Promise<void> {
+    const entries = await this.redis.xrevrange(
+      this.redisStreamKey,
+      '+',
+      '-',
+      'COUNT',
+      1,
+    );
+
+    const firstEntry = entries.at(0);
+
+    if (firstEntry) {
+      this.currentState = this.mapEntryToStateEvent(firstEntry);
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { CircuitRole } from '../../constants.ts';
+import { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import { RedisLeaderElector } from './redis-leader-elector.ts';
+
+describe('RedisLeaderElector', () => {
+  const streamReader = new RedisStreamReader({ redis });
+
+  beforeAll(async () => {
+    await streamReader.start();
+  });
+
+  afterAll(async () => {
+    await streamReader.stop();
+  });
+
+  it('start is idempotent - calling twice should not throw', async () => {
+    const elector = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'duplicate',
+      handoffKey: 'duplicate-handoff',
+      termKey: 'duplicate-term',
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await elector.start();
+
+    await expect(elector.start()).resolves.not.toThrow();
+
+    await elector.stop();
+  });
+
+  it('stop is idempotent - calling before start should not throw', async () => {
+    const elector = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'not-started',
+      handoffKey: 'not-started-handoff',
+      termKey: 'not-started-term',
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await expect(elector.stop()).resolves.not.toThrow();
+  });
+
+  it('stop is idempotent - calling twice should not throw', async () => {
+    const elector = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'double-stop',
+      handoffKey: 'double-stop-handoff',
+      termKey: 'double-stop-term',
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await elector.start();
+    const stopPromise = elector.stop();
+
+    await expect(elector.stop()).resolves.not.toThrow();
+
+    await stopPromise;
+  });
+
+  it('acquires leadership and calls onRoleChange with leader', async () => {
+    const onRoleChange = vi.fn();
+
+    const elector = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'test',
+      handoffKey: 'test-handoff',
+      termKey: 'test-term',
+      onRoleChange,
+      onAcquireError: vi.fn(),
+    });
+
+    await elector.start();
+
+    await vi.waitFor(() => {
+      expect(elector.isLeader).toBe(true);
+      expect(onRoleChange).toHaveBeenCalledWith(CircuitRole.LEADER);
+    });
+
+    await elector.stop();
+  });
+
+  it('only one leader at a time', async () => {
+    const electorA = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'test',
+      handoffKey: 'test-handoff',
+      termKey: 'test-term',
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    const electorB = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'test',
+      handoffKey: 'test-handoff',
+      termKey: 'test-term',
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await Promise.all([electorA.start(), electorB.start()]);
+
+    await vi.waitFor(() => {
+      const leaders = [electorA.isLeader, electorB.isLeader].filter(Boolean);
+      expect(leaders).toHaveLength(1);
+    });
+
+    await Promise.all([electorA.stop(), electorB.stop()]);
+  });
+
+  it('releases leadership on stop, allowing new leader', async () => {
+    const onRoleChangeA = vi.fn();
+    const electorA = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'handover',
+      handoffKey: 'handover-handoff',
+      termKey: 'handover-term',
+      onRoleChange: onRoleChangeA,
+      onAcquireError: vi.fn(),
+    });
+
+    const onRoleChangeB = vi.fn();
+    const electorB = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'handover',
+      handoffKey: 'handover-handoff',
+      termKey: 'handover-term',
+      onRoleChange: onRoleChangeB,
+      onAcquireError: vi.fn(),
+    });
+
+    await electorA.start();
+
+    await vi.waitFor(() => {
+      expect(electorA.isLeader).toBe(true);
+      expect(onRoleChangeA).toHaveBeenCalledWith(CircuitRole.LEADER);
+    });
+
+    await electorA.stop();
+
+    await vi.waitFor(() => {
+      expect(onRoleChangeA).toHaveBeenCalledWith(CircuitRole.FOLLOWER);
+    });
+
+    await electorB.start();
+
+    await vi.waitFor(() => {
+      expect(electorB.isLeader).toBe(true);
+      expect(onRoleChangeB).toHaveBeenCalledWith(CircuitRole.LEADER);
+    });
+
+    await electorB.stop();
+
+    await vi.waitFor(() => {
+      expect(onRoleChangeB).toHaveBeenCalledWith(CircuitRole.FOLLOWER);
+    });
+  });
+
+  it('hands leadership over to a running follower on stop', async () => {
+    // Acquire attempts are too rare to take over within the test timeout
+    const election = { acquireIntervalMs: 60_000 };
+    const electorA = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'handoff',
+      handoffKey: 'handoff-handoff',
+      termKey: 'handoff-term',
+      election,
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+    const electorB = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'handoff',
+      handoffKey: 'handoff-handoff',
+      termKey: 'handoff-term',
+      election,
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await electorA.start();
+    await vi.waitFor(() => expect(electorA.isLeader).toBe(true));
+
+    await electorB.start();
+    expect(electorB.isLeader).toBe(false);
+
+    expect(electorA.fencingToken).toBe(1);
+    expect(electorB.fencingToken).toBeNull();
+
+    await electorA.stop();
+
+    await vi.waitFor(() => expect(electorB.isLeader).toBe(true));
+    expect(electorA.fencingToken).toBeNull();
+    expect(electorB.fencingToken).toBe(2);
+
+    await electorB.stop();
+  });
+
+  it('loses leadership to another instance once the lock expires', async () => {
+    const onRoleChange = vi.fn();
+    const electorA = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'expiry',
+      handoffKey: 'expiry-handoff',
+      termKey: 'expiry-term',
+      election: {
+        lockTtlMs: 300,
+        refreshIntervalMs: 100,
+        acquireIntervalMs: 60_000,
+      },
+      onRoleChange,
+      onAcquireError: vi.fn(),
+    });
+    const electorB = new RedisLeaderElector({
+      redis,
+      streamReader,
+      key: 'expiry',
+      handoffKey: 'expiry-handoff',
+      termKey: 'expiry-term',
+      election: { acquireIntervalMs: 50, acquireJitterMs: 50 },
+      onRoleChange: vi.fn(),
+      onAcquireError: vi.fn(),
+    });
+
+    await electorA.start();
+    await vi.waitFor(() => expect(electorA.isLeader).toBe(true));
+    await electorB.start();
+
+    // Simulates a crashed leader that can no longer refresh the lock
+    await redis.pexpire('expiry', 1);
+
+    await vi.waitFor(() => {
+      expect(electorB.isLeader).toBe(true);
+      expect(onRoleChange).toHaveBeenLastCalledWith(CircuitRole.FOLLOWER);
+    });
+
+    await Promise.all([electorA.stop(), electorB.stop()]);
+  });
+
+  it('throws when the refresh interval is not shorter than the lock TTL', () => {
+    expect(
+      () =>
+        new RedisLeaderElector({
+          redis,
+          streamReader,
+          key: 'invalid',
+          handoffKey: 'invalid-handoff',
+          termKey: 'invalid-term',
+          election: { lockTtlMs: 1000, refreshIntervalMs: 1000 },
+          onRoleChange: vi.fn(),
+          onAcquireError: vi.fn(),
+        }),
+    ).toThrow(
+      'Leader refresh interval (1000ms) must be shorter than the lock TTL (1000ms)',
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { Mutex } from 'redis-semaphore';
+import { CircuitRole } from '../../constants.ts';
+import { AbstractLifecycleManager } from '../../utils/abstract-lifecycle-manager.ts';
+import { delay } from '../../utils/delay.ts';
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { RedisStreamReader } from '../../utils/redis-stream-reader.ts';
+import type {
+  LeaderElectionConfig,
+  LeaderElector,
+} from '../breaker-backend.ts';
+
+/**
+ * Default lifetime of the leadership mutex, in milliseconds.
+ * A crashed leader keeps leadership until it expires.
+ */
+const DEFAULT_LOCK_TTL_MS = 10_000;
+
+/** Share of the mutex lifetime after which the leader refreshes it by default */
+const DEFAULT_REFRESH_RATIO = 0.8;
+
+/**
+ * Default delay between attempts to acquire leadership, in milliseconds.
+ * Defines how frequently the leader elector tries to obtain the leadership mutex.
+ */
+const DEFAULT_ACQUIRE_INTERVAL_MS = 5_000;
+
+/** Number of handoff notices kept in the handoff stream */
+const HANDOFF_STREAM_MAX_LEN = 10;
+
+type RedisLeaderElectorOptions = {
+  /** Redis client used to acquire the mutex lock */
+  redis: RedisClient;
+  /** Reader that delivers handoff notices of other instances */
+  streamReader: RedisStreamReader;
+  /** Redis key used to coordinate leadership */
+  key: string;
+  /** Stream key a leader announces on that it gave up leadership */
+  handoffKey: string;
+  /** Key of the counter the fencing token of each leadership term is drawn from */
+  termKey: string;
+  /** Timings of the mutex and the acquire loop */
+  election?: LeaderElectionConfig;
+  /** Called when an error occurs during the acquire loop or while handing over leadership */
+  onAcquireError: (err: unknown) => void;
+  /** Called when role changes to leader or follower */
+  onRoleChange: (role: CircuitRole) => void;
+};
+
+type AcquireLoop = {
+  abortController: AbortController;
+  promise: Promise<unknown>;
+};
+
+/**
+ * Performs leader election using a Redis-backed mutex and a periodic acquire loop.
+ * Ensures only one instance holds leadership at a time. A stopping leader announces
+ * the handoff on a stream, so a follower takes over without waiting for its next attempt.
+ */
+export class RedisLeaderElector
+  extends AbstractLifecycleManager
+  implements LeaderElector
+{
+  private readonly redis: RedisClient;
+  private readonly streamReader: RedisStreamReader;
+  private readonly handoffKey: string;
+  private readonly termKey: string;
+  private readonly acquireIntervalMs: number;
+  private readonly acquireJitterMs: number;
+  private readonly mutex: Mutex;
+  private readonly onAcquireError: (err: unknown) => void;
+  private readonly onRoleChange: (role: CircuitRole) => void;
+
+  private acquireLoop: AcquireLoop | null = null;
+  private acquireAttempt: Promise<void> | null = null;
+  private lastHandoffId = '0';
+  private unsubscribe: (() => void) | null = null;
+  private currentRole: CircuitRole = CircuitRole.FOLLOWER;
+  private currentFencingToken: number | null = null;
+
+  constructor(options: RedisLeaderElectorOptions) {
+    super();
+    this.redis = options.redis;
+    this.streamReader = options.streamReader;
+    this.handoffKey = options.handoffKey;
+    this.termKey = options.termKey;
+    this.acquireIntervalMs =
+      options.election?.acquireIntervalMs ?? DEFAULT_ACQUIRE_INTERVAL_MS;
+    this.acquireJitterMs = options.election?.acquireJitterMs ?? 0;
+    this.onAcquireError = options.onAcquireError;
+    this.onRoleChange = options.onRoleChange;
+
+    const lockTtlMs = options.election?.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+    const refreshIntervalMs =
+      options.election?.refreshIntervalMs ??
+      Math.round(lockTtlMs * DEFAULT_REFRESH_RATIO);
+
+    if (refreshIntervalMs >= lockTtlMs) {
+      throw new Error(
+        `Leader refresh interval (${refreshIntervalMs}ms) must be shorter than the lock TTL (${lockTtlMs}ms)`,
+      );
+    }
+
+    this.mutex = new Mutex(options.redis, options.key, {
+      acquireAttemptsLimit: 1,
+      lockTimeout: lockTtlMs,
+      refreshInterval: refreshIntervalMs,
+      onLockLost: () => {
+        this.setRole(CircuitRole.FOLLOWER);
+      },
+    });
+  }
+
+  protected override async startInternal(): Promise<void> {
+    const [latestHandoff] = await this.redis.xrevrange(
+      this.handoffKey,
+      '+',
+      '-',
+      'COUNT',
+      1,
+    );
+    this.lastHandoffId = latestHandoff?.[0] ?? '0';
+
+    this.unsubscribe = this.streamReader.subscribe(this.handoffKey, {
+      getLastId: () => this.lastHandoffId,
+      onEntries: (entries) => {
+        this.lastHandoffId = entries.at(-1)?.[0] ?? this.lastHandoffId;
+        void this.attemptAcquireLeadership();
+      },
+      onError: this.onAcquireError,
+    });
+
+    const abortController = new AbortController();
+
+    this.acquireLoop = {
+      abortController,
+      promise: this.startAcquireLoop(abortController.signal),
+    };
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    if (!this.acquireLoop) {
+      return;
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    this.acquireLoop.abortController.abort();
+    await this.acquireLoop.promise;
+    await this.acquireAttempt;
+
+    const wasLeader = this.mutex.isAcquired;
+
+    await this.mutex.release();
+    this.setRole(CircuitRole.FOLLOWER);
+
+    if (wasLeader) {
+      await this.announceHandoff();
+    }
+
+    this.acquireLoop = null;
+  }
+
+  private setRole(role: CircuitRole): void {
+    if (this.currentRole === role) {
+      return;
+    }
+    if (role === CircuitRole.FOLLOWER) {
+      this.currentFencingToken = null;
+    }
+    this.currentRole = role;
+    this.onRoleChange(role);
+  }
+
+  /**
+   * Tries to acquire leadership once. Only one attempt runs at a time;
+   * concurrent callers share it.
+   */
+  private attemptAcquireLeadership(): Promise<void> {
+    this.acquireAttempt ??= this.tryAcquireLeadership().finally(() => {
+      this.acquireAttempt = null;
+    });
+
+    return this.acquireAttempt;
+  }
+
+  /**
+   * Acquires the mutex, then draws the fencing token of the new term.
+   * Leadership starts only once both succeeded.
+   */
+  private async tryAcquireLeadership(): Promise<void> {
+    if (this.isLeader) {
+      return;
+    }
+
+    try {
+      if (!this.mutex.isAcquired) {
+        await this.mutex.tryAcquire();
+      }
+      if (this.mutex.isAcquired) {
+        this.currentFencingToken = await this.redis.incr(this.termKey);
+      }
+    } catch (err) {
+      this.onAcquireError(err);
+    }
+
+    if (this.mutex.isAcquired && this.currentFencingToken !== null) {
+      this.setRole(CircuitRole.LEADER);
+    }
+  }
+
+  /**
+   * Tells the other instances that leadership was released. Without it,
+   * they would only notice on their next acquire attempt.
+   */
+  private async announceHandoff(): Promise<void> {
+    try {
+      await this.redis.xadd(
+        this.handoffKey,
+        'MAXLEN',
+        '~',
+        HANDOFF_STREAM_MAX_LEN,
+        '*',
+        'timestamp',
+        Date.now(),
+      );
+    } catch (err) {
+      this.onAcquireError(err);
+    }
+  }
+
+  private async startAcquireLoop(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await this.attemptAcquireLeadership();
+
+      await delay(
+        this.acquireIntervalMs + Math.random() * this.acquireJitterMs,
+        signal,
+      );
+    }
+  }
+
+  /** Returns true if this instance currently holds leadership */
+  get isLeader(): boolean {
+    return this.currentRole === CircuitRole.LEADER;
+  }
+
+  /** Term of the current leadership, or null unless this instance leads */
+  get fencingToken(): number | null {
+    return this.currentFencingToken;
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { redis } from '../../../test/setup-redis.ts';
+import { RedisTrialPermitStore } from './redis-trial-permit-store.ts';
+
+describe('RedisTrialPermitStore', () => {
+  it('grants permits up to the limit for a phase', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(false);
+  });
+
+  it('counts permits separately for each phase', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+    await expect(store.tryAcquire('2-0', 1)).resolves.toBe(true);
+  });
+
+  it('grants a returned permit again', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+
+    await store.tryAcquire('1-0', 1);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+
+    await store.release('1-0');
+
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(true);
+    await expect(store.tryAcquire('1-0', 1)).resolves.toBe(false);
+    await expect(redis.get('test-trial-permit:1-0')).resolves.toBe('1');
+  });
+
+  it('ignores a release after the counter expired', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+
+    await store.release('1-0');
+
+    await expect(redis.exists('test-trial-permit:1-0')).resolves.toBe(0);
+  });
+
+  it('expires the permit counter after the configured ttl', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+
+    await store.tryAcquire('1-0', 1);
+
+    const ttl = await redis.pttl('test-trial-permit:1-0');
+
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(10_000);
+  });
+
+  it('sets an expiry on a counter left without one', async () => {
+    const store = new RedisTrialPermitStore({
+      redis,
+      redisKey: 'test-trial-permit',
+      ttlMs: 10_000,
+    });
+    await redis.set('test-trial-permit:1-0', '1');
+
+    await expect(store.tryAcquire('1-0', 2)).resolves.toBe(true);
+
+    await expect(redis.pttl('test-trial-permit:1-0')).resolves.toBeGreaterThan(
+      0,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import type { RedisClient } from '../../utils/redis-client.ts';
+import type { TrialPermitStore } from '../breaker-backend.ts';
+
+/**
+ * Counts a permit if any is left and sets the counter's expiry in the same step,
+ * so a counter can never be left without one. Also repairs counters that lack an
+ * expiry. Denied requests are not counted, so a returned permit can be taken again.
+ *
+ * KEYS[1] - permit counter key
+ * ARGV[1] - counter ttl in milliseconds, ARGV[2] - maximum number of permits
+ * Returns 1 if the permit was granted, 0 otherwise
+ */
+const ACQUIRE_PERMIT_SCRIPT = `
+local granted = 0
+if tonumber(redis.call('GET', KEYS[1]) or '0') < tonumber(ARGV[2]) then
+  redis.call('INCR', KEYS[1])
+  granted = 1
+end
+if redis.call('PTTL', KEYS[1]) == -1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return granted
+`;
+
+/**
+ * Uncounts a permit, keeping the counter's expiry. A counter that has expired
+ * since is left alone.
+ *
+ * KEYS[1] - permit counter key
+ */
+const RELEASE_PERMIT_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') > 0 then
+  redis.call('DECR', KEYS[1])
+end
+`;
+
+type RedisTrialPermitStoreOptions = {
+  /** Redis client used for counting issued permits */
+  redis: RedisClient;
+  /** Key prefix for the per-phase permit counters */
+  redisKey: string;
+  /**
+   * Lifetime of a permit counter in milliseconds. Once it expires, a new batch
+   * of trial calls is admitted, so a crashed instance cannot stall recovery.
+   */
+  ttlMs: number;
+};
+
+/**
+ * Hands out a limited number of trial-call permits per HALF_OPEN phase,
+ * shared across all instances through a Redis counter.
+ */
+export class RedisTrialPermitStore implements TrialPermitStore {
+  private readonly redis: RedisClient;
+  private readonly redisKey: string;
+  private readonly ttlMs: number;
+
+  constructor(options: RedisTrialPermitStoreOptions) {
+    this.redis = options.redis;
+    this.redisKey = options.redisKey;
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Attempts to take a permit for the given HALF_OPEN phase.
+   * @param phaseId Identifier of the state transition that started the phase
+   * @param limit Maximum number of permits handed out for the phase
+   * @returns true if the permit was granted
+   */
+  async tryAcquire(phaseId: string, limit: number): Promise<boolean> {
+    const granted = (await this.redis.eval(
+      ACQUIRE_PERMIT_SCRIPT,
+      1,
+      `${this.redisKey}:${phaseId}`,
+      this.ttlMs,
+      limit,
+    )) as number;
+
+    return granted === 1;
+  }
+
+  /**
+   * Returns a permit of a trial call that recorded no result, so another call can take it.
+   * @param phaseId Identifier of the state transition that started the phase
+   */
+  async release(phaseId: string): Promise<void> {
+    await this.redis.eval(
+      RELEASE_PERMIT_SCRIPT,
+      1,
+      `${this.redisKey}:${phaseId}`,
+    );
+  }
+}
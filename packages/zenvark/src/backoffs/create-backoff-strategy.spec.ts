@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { BackoffStrategyType } from '../constants.ts';
+import type { BackoffStrategyConfig } from '../types.ts';
+import { createBackoffStrategy } from './create-backoff-strategy.ts';
+
+describe('createBackoffStrategy', () => {
+  it('builds a constant backoff', () => {
+    const backoff = createBackoffStrategy({
+      type: BackoffStrategyType.CONSTANT,
+      delayMs: 500,
+    });
+
+    expect(backoff.getDelayMs(1)).toBe(500);
+    expect(backoff.getDelayMs(5)).toBe(500);
+  });
+
+  it('builds an exponential backoff', () => {
+    const backoff = createBackoffStrategy({
+      type: BackoffStrategyType.EXPONENTIAL,
+      initialDelayMs: 100,
+      multiplier: 2,
+      maxDelayMs: 300,
+    });
+
+    expect(backoff.getDelayMs(1)).toBe(100);
+    expect(backoff.getDelayMs(2)).toBe(200);
+    expect(backoff.getDelayMs(3)).toBe(300);
+  });
+
+  it('throws for an unknown type', () => {
+    expect(() =>
+      createBackoffStrategy({
+        type: 'linear',
+        delayMs: 500,
+      } as unknown as BackoffStrategyConfig),
+    ).toThrow('Unknown backoff strategy type "linear"');
+  });
+
+  it('throws when an option is not a finite number', () => {
+    expect(() =>
+      createBackoffStrategy({
+        type: BackoffStrategyType.CONSTANT,
+        delayMs: Number.POSITIVE_INFINITY,
+      }),
+    ).toThrow('Expected "delayMs" to be a finite number');
+  });
+});
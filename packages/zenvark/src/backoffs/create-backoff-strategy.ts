@@ -0,0 +1,31 @@
+import { BackoffStrategyType } from '../constants.ts';
+import type { BackoffStrategyConfig } from '../types.ts';
+import { assertNumberFields } from '../utils/assert-number-fields.ts';
+import type { BackoffStrategy } from './backoff-strategy.ts';
+import { ConstantBackoff } from './constant-backoff.ts';
+import { ExponentialBackoff } from './exponential-backoff.ts';
+
+/**
+ * Builds the backoff strategy described by a shared config.
+ * Throws if the config does not describe a built-in strategy with valid options.
+ */
+export const createBackoffStrategy = (
+  config: BackoffStrategyConfig,
+): BackoffStrategy => {
+  switch (config.type) {
+    case BackoffStrategyType.CONSTANT:
+      assertNumberFields(config, ['delayMs']);
+      return new ConstantBackoff(config);
+    case BackoffStrategyType.EXPONENTIAL:
+      assertNumberFields(
+        config,
+        ['initialDelayMs', 'multiplier'],
+        ['maxDelayMs'],
+      );
+      return new ExponentialBackoff(config);
+    default:
+      throw new Error(
+        `Unknown backoff strategy type "${(config as { type: unknown }).type}"`,
+      );
+  }
+};
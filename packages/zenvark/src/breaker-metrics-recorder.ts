@@ -1,4 +1,10 @@
-import type { CallResult, HealthCheckType } from './constants.ts';
+import type {
+  CallResult,
+  CircuitState,
+  FallbackReason,
+  HealthCheckType,
+  StateChangeReason,
+} from './constants.ts';
 
 export type RecordCallParams = {
   breakerId: string;
@@ -10,6 +16,17 @@ export type RecordBlockedRequestParams = {
   breakerId: string;
 };
 
+export type RecordFallbackParams = {
+  breakerId: string;
+  reason: FallbackReason;
+};
+
+export type RecordStateChangeParams = {
+  breakerId: string;
+  state: CircuitState;
+  reason: StateChangeReason | null;
+};
+
 export type RecordHealthCheckParams = {
   breakerId: string;
   type: HealthCheckType;
@@ -17,6 +34,19 @@ export type RecordHealthCheckParams = {
   durationMs: number;
 };
 
+export type RecordCallResultFlushParams = {
+  breakerId: string;
+  /** `CallResult.FAILURE` if the batch could not be written */
+  result: CallResult;
+  batchSize: number;
+  durationMs: number;
+};
+
+export type RecordDroppedCallResultsParams = {
+  breakerId: string;
+  count: number;
+};
+
 /**
  * Metrics interface for recording circuit breaker events.
  * Implement this interface to integrate with your metrics system.
@@ -38,8 +68,38 @@ export type BreakerMetricsRecorder = {
    */
   recordBlockedRequest(params: RecordBlockedRequestParams): void;
 
+  /**
+   * Record a request that would have been blocked if the breaker was not in shadow mode
+   */
+  recordShadowBlockedRequest?(params: RecordBlockedRequestParams): void;
+
+  /**
+   * Record a request rejected because the bulkhead concurrency limit was reached
+   */
+  recordBulkheadRejection?(params: RecordBlockedRequestParams): void;
+
+  /**
+   * Record a fallback result returned instead of the call's result
+   */
+  recordFallback?(params: RecordFallbackParams): void;
+
+  /**
+   * Record a state transition. Called only on the instance that wrote the transition.
+   */
+  recordStateChange?(params: RecordStateChangeParams): void;
+
   /**
    * Record healthcheck attempt
    */
   recordHealthCheck(params: RecordHealthCheckParams): void;
+
+  /**
+   * Record a batch of call results written with `callResultBatching` enabled
+   */
+  recordCallResultFlush?(params: RecordCallResultFlushParams): void;
+
+  /**
+   * Record call results dropped because the `callResultBatching` buffer was full
+   */
+  recordDroppedCallResults?(params: RecordDroppedCallResultsParams): void;
 };
@@ -1,4 +1,15 @@
-import type { CallResultEvent } from '../types.ts';
+import type { CallResultRetention } from '../backends/breaker-backend.ts';
+import type {
+  BreakerStrategyConfig,
+  CallResultBucket,
+  CallResultEvent,
+} from '../types.ts';
+
+/**
+ * Values a breaker strategy based its decision on, e.g. counters and rates
+ * within its window. Recorded with the state transition the decision caused.
+ */
+export type BreakerSnapshot = Record<string, number>;
 
 /**
  * Strategy interface for determining when a circuit should open
@@ -11,4 +22,41 @@ export interface BreakerStrategy {
    * @returns boolean indicating if circuit should open
    */
   shouldOpenCircuit(events: CallResultEvent[]): boolean;
+
+  /**
+   * Optionally describe the values `shouldOpenCircuit` evaluates for the same events.
+   * @param events Array of CallResultEvent (ordered from oldest to newest)
+   * @returns the snapshot recorded when the circuit opens
+   */
+  getSnapshot?(events: CallResultEvent[]): BreakerSnapshot;
+
+  /**
+   * Optionally describe the past call results `shouldOpenCircuit` evaluates,
+   * so the call-result stream keeps at least these.
+   * @returns the retention covering the strategy's window
+   */
+  getRequiredRetention?(): CallResultRetention;
+
+  /**
+   * Optionally check whether the circuit should open based on call counts
+   * aggregated per time bucket. Required to use the strategy with bucketed
+   * call result storage.
+   * @param buckets Array of CallResultBucket (ordered from oldest to newest)
+   * @returns boolean indicating if circuit should open
+   */
+  shouldOpenCircuitFromBuckets?(buckets: CallResultBucket[]): boolean;
+
+  /**
+   * Optionally describe the values `shouldOpenCircuitFromBuckets` evaluates for the same buckets.
+   * @param buckets Array of CallResultBucket (ordered from oldest to newest)
+   * @returns the snapshot recorded when the circuit opens
+   */
+  getBucketSnapshot?(buckets: CallResultBucket[]): BreakerSnapshot;
+
+  /**
+   * Optionally describe the strategy as a serializable config, so a backend can
+   * evaluate it where the call results are stored. Required for server-side evaluation.
+   * @returns the config `createBreakerStrategy` builds an equivalent strategy from
+   */
+  toConfig?(): BreakerStrategyConfig;
 }
@@ -104,5 +104,94 @@ describe('ConsecutiveBreaker', () => {
 
       expect(breaker.shouldOpenCircuit(events)).toBe(false);
     });
+
+    it('should ignore slow calls when no slow call threshold is set', () => {
+      const breaker = new ConsecutiveBreaker({ threshold: 2 });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.SLOW, 2000),
+        createEvent(CallResult.SLOW, 3000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(false);
+    });
+
+    it('should return true when consecutive slow calls meet slow call threshold', () => {
+      const breaker = new ConsecutiveBreaker({
+        threshold: 5,
+        slowCallThreshold: 2,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.FAILURE, 1000),
+        createEvent(CallResult.SLOW, 2000),
+        createEvent(CallResult.SLOW, 3000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(true);
+    });
+
+    it('should not mix slow calls and failures into one streak', () => {
+      const breaker = new ConsecutiveBreaker({
+        threshold: 2,
+        slowCallThreshold: 2,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.FAILURE, 2000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(false);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('should count consecutive failures at the end of the events', () => {
+      const breaker = new ConsecutiveBreaker({ threshold: 3 });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.FAILURE, 1000),
+        createEvent(CallResult.SUCCESS, 2000),
+        createEvent(CallResult.FAILURE, 3000),
+        createEvent(CallResult.FAILURE, 4000),
+      ];
+
+      expect(breaker.getSnapshot(events)).toEqual({
+        consecutiveFailures: 2,
+        threshold: 3,
+      });
+    });
+
+    it('should count consecutive slow calls when a slow-call threshold is set', () => {
+      const breaker = new ConsecutiveBreaker({
+        threshold: 3,
+        slowCallThreshold: 2,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.SLOW, 2000),
+      ];
+
+      expect(breaker.getSnapshot(events)).toEqual({
+        consecutiveFailures: 0,
+        threshold: 3,
+        consecutiveSlowCalls: 2,
+        slowCallThreshold: 2,
+      });
+    });
+  });
+
+  describe('getRequiredRetention', () => {
+    it('should require the larger of both thresholds', () => {
+      const breaker = new ConsecutiveBreaker({
+        threshold: 3,
+        slowCallThreshold: 5,
+      });
+
+      expect(breaker.getRequiredRetention()).toEqual({ maxEntries: 5 });
+    });
   });
 });
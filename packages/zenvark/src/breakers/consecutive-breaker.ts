@@ -1,34 +1,96 @@
-import { CallResult } from '../constants.ts';
-import type { CallResultEvent } from '../types.ts';
-import type { BreakerStrategy } from './breaker-strategy.ts';
+import type { CallResultRetention } from '../backends/breaker-backend.ts';
+import { BreakerStrategyType, CallResult } from '../constants.ts';
+import type { BreakerStrategyConfig, CallResultEvent } from '../types.ts';
+import type { BreakerSnapshot, BreakerStrategy } from './breaker-strategy.ts';
 
 export interface ConsecutiveBreakerOptions {
   /**
    * The number of consecutive failures required to open the circuit
    */
   threshold: number;
+  /**
+   * Optional number of consecutive slow calls required to open the circuit
+   */
+  slowCallThreshold?: number;
 }
 
 /**
  * Circuit breaker strategy that opens the circuit after a specified number
- * of consecutive failures.
+ * of consecutive failures (or optionally consecutive slow calls).
+ * It needs the order of individual calls, so it cannot evaluate call result buckets.
  */
 export class ConsecutiveBreaker implements BreakerStrategy {
   private readonly threshold: number;
+  private readonly slowCallThreshold?: number;
 
   constructor(options: ConsecutiveBreakerOptions) {
     this.threshold = options.threshold;
+    this.slowCallThreshold = options.slowCallThreshold;
   }
 
   shouldOpenCircuit(events: CallResultEvent[]): boolean {
-    if (events.length < this.threshold) {
+    if (this.endsWithConsecutive(events, CallResult.FAILURE, this.threshold)) {
+      return true;
+    }
+
+    return (
+      this.slowCallThreshold !== undefined &&
+      this.endsWithConsecutive(events, CallResult.SLOW, this.slowCallThreshold)
+    );
+  }
+
+  getSnapshot(events: CallResultEvent[]): BreakerSnapshot {
+    return {
+      consecutiveFailures: this.countConsecutive(events, CallResult.FAILURE),
+      threshold: this.threshold,
+      ...(this.slowCallThreshold !== undefined && {
+        consecutiveSlowCalls: this.countConsecutive(events, CallResult.SLOW),
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
+
+  getRequiredRetention(): CallResultRetention {
+    return {
+      maxEntries: Math.max(this.threshold, this.slowCallThreshold ?? 0),
+    };
+  }
+
+  toConfig(): BreakerStrategyConfig {
+    return {
+      type: BreakerStrategyType.CONSECUTIVE,
+      threshold: this.threshold,
+      ...(this.slowCallThreshold !== undefined && {
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
+
+  private endsWithConsecutive(
+    events: CallResultEvent[],
+    callResult: CallResult,
+    count: number,
+  ): boolean {
+    if (events.length < count) {
       return false;
     }
 
-    const recentEvents = events.slice(-this.threshold);
+    const recentEvents = events.slice(-count);
 
-    return recentEvents.every(
-      (event) => event.callResult === CallResult.FAILURE,
+    return recentEvents.every((event) => event.callResult === callResult);
+  }
+
+  /**
+   * Counts the events with the given result at the end of the list.
+   */
+  private countConsecutive(
+    events: CallResultEvent[],
+    callResult: CallResult,
+  ): number {
+    const lastOtherIndex = events.findLastIndex(
+      (event) => event.callResult !== callResult,
     );
+
+    return events.length - lastOtherIndex - 1;
   }
 }
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { CallResult } from '../constants.ts';
-import type { CallResultEvent } from '../types.ts';
+import type { CallResultBucket, CallResultEvent } from '../types.ts';
 import { CountBreaker } from './count-breaker.ts';
 
 describe('CountBreaker', () => {
@@ -14,6 +14,17 @@ describe('CountBreaker', () => {
     timestamp,
   });
 
+  const createBucket = (
+    timestamp: number,
+    counts: Partial<Omit<CallResultBucket, 'timestamp'>>,
+  ): CallResultBucket => ({
+    timestamp,
+    successes: 0,
+    failures: 0,
+    slowCalls: 0,
+    ...counts,
+  });
+
   describe('shouldOpenCircuit', () => {
     it('should return false for empty events array', () => {
       const breaker = new CountBreaker({
@@ -162,5 +173,165 @@ describe('CountBreaker', () => {
       // Any failure (33% >= 0%) should trigger circuit when threshold is 0%
       expect(breaker.shouldOpenCircuit(withOneFailure)).toBe(true);
     });
+
+    it('should not count slow calls as failures', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 4,
+        minimumNumberOfCalls: 4,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.SLOW, 2000),
+        createEvent(CallResult.SLOW, 3000),
+        createEvent(CallResult.SUCCESS, 4000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(false);
+    });
+
+    it('should return true when slow call rate meets slow call threshold', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 4,
+        minimumNumberOfCalls: 4,
+        slowCallThreshold: 0.75,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.SLOW, 2000),
+        createEvent(CallResult.SUCCESS, 3000),
+        createEvent(CallResult.SLOW, 4000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(true);
+    });
+
+    it('should return false when slow call rate is below slow call threshold', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 4,
+        minimumNumberOfCalls: 4,
+        slowCallThreshold: 0.75,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, 1000),
+        createEvent(CallResult.SUCCESS, 2000),
+        createEvent(CallResult.FAILURE, 3000),
+        createEvent(CallResult.SLOW, 4000),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(false);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('should describe the calls within the window', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 4,
+        minimumNumberOfCalls: 2,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.FAILURE, 1000),
+        createEvent(CallResult.SUCCESS, 2000),
+        createEvent(CallResult.FAILURE, 3000),
+        createEvent(CallResult.SLOW, 4000),
+        createEvent(CallResult.FAILURE, 5000),
+      ];
+
+      expect(breaker.getSnapshot(events)).toEqual({
+        calls: 4,
+        failures: 2,
+        failureRate: 0.5,
+        slowCalls: 1,
+        slowCallRate: 0.25,
+        threshold: 0.5,
+      });
+    });
+  });
+
+  describe('shouldOpenCircuitFromBuckets', () => {
+    it('should return false for empty buckets array', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 10,
+        minimumNumberOfCalls: 1,
+      });
+
+      expect(breaker.shouldOpenCircuitFromBuckets([])).toBe(false);
+    });
+
+    it('should return true when failure rate across buckets meets threshold', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 10,
+        minimumNumberOfCalls: 10,
+      });
+
+      const buckets = [
+        createBucket(1000, { successes: 4, failures: 1 }),
+        createBucket(2000, { successes: 1, failures: 4 }),
+      ];
+
+      expect(breaker.shouldOpenCircuitFromBuckets(buckets)).toBe(true);
+    });
+
+    it('should only consider the newest buckets holding size calls', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 5,
+        minimumNumberOfCalls: 1,
+      });
+
+      const buckets = [
+        createBucket(1000, { failures: 10 }),
+        createBucket(2000, { successes: 3 }),
+        createBucket(3000, { successes: 1, failures: 1 }),
+      ];
+
+      expect(breaker.shouldOpenCircuitFromBuckets(buckets)).toBe(false);
+    });
+  });
+
+  describe('getBucketSnapshot', () => {
+    it('should include the oldest bucket of the window whole', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 4,
+        minimumNumberOfCalls: 1,
+      });
+
+      const buckets = [
+        createBucket(1000, { failures: 5 }),
+        createBucket(2000, { successes: 2, slowCalls: 1 }),
+        createBucket(3000, { failures: 2 }),
+      ];
+
+      expect(breaker.getBucketSnapshot(buckets)).toEqual({
+        calls: 5,
+        failures: 2,
+        failureRate: 0.4,
+        slowCalls: 1,
+        slowCallRate: 0.2,
+        threshold: 0.5,
+      });
+    });
+  });
+
+  describe('getRequiredRetention', () => {
+    it('should require the last size call results', () => {
+      const breaker = new CountBreaker({
+        threshold: 0.5,
+        size: 50,
+        minimumNumberOfCalls: 10,
+      });
+
+      expect(breaker.getRequiredRetention()).toEqual({ maxEntries: 50 });
+    });
   });
 });
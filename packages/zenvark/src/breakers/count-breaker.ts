@@ -1,6 +1,16 @@
-import { CallResult } from '../constants.ts';
-import type { CallResultEvent } from '../types.ts';
-import type { BreakerStrategy } from './breaker-strategy.ts';
+import type { CallResultRetention } from '../backends/breaker-backend.ts';
+import { BreakerStrategyType } from '../constants.ts';
+import type {
+  BreakerStrategyConfig,
+  CallResultBucket,
+  CallResultEvent,
+} from '../types.ts';
+import type { BreakerSnapshot, BreakerStrategy } from './breaker-strategy.ts';
+import {
+  type CallResultCounts,
+  countBucketedCallResults,
+  countCallResults,
+} from './count-call-results.ts';
 
 export interface CountBreakerOptions {
   /**
@@ -15,35 +25,106 @@ export interface CountBreakerOptions {
    * Minimum number of calls required before the circuit can be opened
    */
   minimumNumberOfCalls: number;
+  /**
+   * Optional slow-call threshold (0-1) for opening the circuit.
+   * When set, the circuit also opens if the rate of slow calls reaches it.
+   */
+  slowCallThreshold?: number;
 }
 
 /**
  * Circuit breaker strategy that opens the circuit when the failure rate
- * exceeds a threshold within a sliding window of recent calls.
+ * (or optionally the slow-call rate) exceeds a threshold within a sliding
+ * window of recent calls.
  */
 export class CountBreaker implements BreakerStrategy {
   private readonly threshold: number;
   private readonly size: number;
   private readonly minimumNumberOfCalls: number;
+  private readonly slowCallThreshold?: number;
 
   constructor(options: CountBreakerOptions) {
     this.threshold = options.threshold;
     this.size = options.size;
     this.minimumNumberOfCalls = options.minimumNumberOfCalls;
+    this.slowCallThreshold = options.slowCallThreshold;
   }
 
   shouldOpenCircuit(events: CallResultEvent[]): boolean {
-    const recentEvents = events.slice(-this.size);
+    return this.exceedsThreshold(countCallResults(events.slice(-this.size)));
+  }
+
+  getSnapshot(events: CallResultEvent[]): BreakerSnapshot {
+    return this.toSnapshot(countCallResults(events.slice(-this.size)));
+  }
+
+  getRequiredRetention(): CallResultRetention {
+    return { maxEntries: this.size };
+  }
+
+  toConfig(): BreakerStrategyConfig {
+    return {
+      type: BreakerStrategyType.COUNT,
+      threshold: this.threshold,
+      size: this.size,
+      minimumNumberOfCalls: this.minimumNumberOfCalls,
+      ...(this.slowCallThreshold !== undefined && {
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
 
-    if (recentEvents.length < this.minimumNumberOfCalls) {
+  shouldOpenCircuitFromBuckets(buckets: CallResultBucket[]): boolean {
+    return this.exceedsThreshold(
+      countBucketedCallResults(this.getWindowBuckets(buckets)),
+    );
+  }
+
+  getBucketSnapshot(buckets: CallResultBucket[]): BreakerSnapshot {
+    return this.toSnapshot(
+      countBucketedCallResults(this.getWindowBuckets(buckets)),
+    );
+  }
+
+  private exceedsThreshold(counts: CallResultCounts): boolean {
+    if (counts.calls === 0 || counts.calls < this.minimumNumberOfCalls) {
       return false;
     }
 
-    const failures = recentEvents.filter(
-      (event) => event.callResult === CallResult.FAILURE,
-    ).length;
-    const failureRate = failures / recentEvents.length;
+    if (counts.failureRate >= this.threshold) {
+      return true;
+    }
+
+    return (
+      this.slowCallThreshold !== undefined &&
+      counts.slowCallRate >= this.slowCallThreshold
+    );
+  }
+
+  private toSnapshot(counts: CallResultCounts): BreakerSnapshot {
+    return {
+      ...counts,
+      threshold: this.threshold,
+      ...(this.slowCallThreshold !== undefined && {
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
+
+  /**
+   * Returns the newest buckets holding up to `size` calls. The oldest bucket is
+   * included whole, so the window may hold slightly more than `size` calls.
+   */
+  private getWindowBuckets(buckets: CallResultBucket[]): CallResultBucket[] {
+    let calls = 0;
+    let start = buckets.length;
+
+    while (start > 0 && calls < this.size) {
+      start--;
+      const bucket = buckets[start] as CallResultBucket;
+      calls += bucket.successes + bucket.failures + bucket.slowCalls;
+    }
 
-    return failureRate >= this.threshold;
+    return buckets.slice(start);
   }
 }
@@ -0,0 +1,62 @@
+import { CallResult } from '../constants.ts';
+import type { CallResultBucket, CallResultEvent } from '../types.ts';
+
+export type CallResultCounts = {
+  calls: number;
+  failures: number;
+  /** Share of failed calls (0-1), 0 if there are no calls */
+  failureRate: number;
+  slowCalls: number;
+  /** Share of slow calls (0-1), 0 if there are no calls */
+  slowCallRate: number;
+};
+
+/**
+ * Counts failed and slow calls among the given events.
+ */
+export const countCallResults = (
+  events: CallResultEvent[],
+): CallResultCounts => {
+  const calls = events.length;
+  const failures = events.filter(
+    (event) => event.callResult === CallResult.FAILURE,
+  ).length;
+  const slowCalls = events.filter(
+    (event) => event.callResult === CallResult.SLOW,
+  ).length;
+
+  return toCallResultCounts(calls, failures, slowCalls);
+};
+
+/**
+ * Sums up failed and slow calls across the given buckets.
+ */
+export const countBucketedCallResults = (
+  buckets: CallResultBucket[],
+): CallResultCounts => {
+  let calls = 0;
+  let failures = 0;
+  let slowCalls = 0;
+
+  for (const bucket of buckets) {
+    calls += bucket.successes + bucket.failures + bucket.slowCalls;
+    failures += bucket.failures;
+    slowCalls += bucket.slowCalls;
+  }
+
+  return toCallResultCounts(calls, failures, slowCalls);
+};
+
+const toCallResultCounts = (
+  calls: number,
+  failures: number,
+  slowCalls: number,
+): CallResultCounts => {
+  return {
+    calls,
+    failures,
+    failureRate: calls ? failures / calls : 0,
+    slowCalls,
+    slowCallRate: calls ? slowCalls / calls : 0,
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { BreakerStrategyType } from '../constants.ts';
+import type { BreakerStrategyConfig } from '../types.ts';
+import { ConsecutiveBreaker } from './consecutive-breaker.ts';
+import { CountBreaker } from './count-breaker.ts';
+import { createBreakerStrategy } from './create-breaker-strategy.ts';
+import { SamplingBreaker } from './sampling-breaker.ts';
+
+describe('createBreakerStrategy', () => {
+  it('builds the strategy matching the type', () => {
+    expect(
+      createBreakerStrategy({
+        type: BreakerStrategyType.CONSECUTIVE,
+        threshold: 3,
+      }),
+    ).toBeInstanceOf(ConsecutiveBreaker);
+    expect(
+      createBreakerStrategy({
+        type: BreakerStrategyType.COUNT,
+        threshold: 0.5,
+        size: 10,
+        minimumNumberOfCalls: 5,
+      }),
+    ).toBeInstanceOf(CountBreaker);
+    expect(
+      createBreakerStrategy({
+        type: BreakerStrategyType.SAMPLING,
+        threshold: 0.5,
+        duration: 10_000,
+        minimumNumberOfCalls: 5,
+      }),
+    ).toBeInstanceOf(SamplingBreaker);
+  });
+
+  it('passes the options to the strategy', () => {
+    const breaker = createBreakerStrategy({
+      type: BreakerStrategyType.COUNT,
+      threshold: 0.5,
+      size: 20,
+      minimumNumberOfCalls: 5,
+    });
+
+    expect(breaker.getRequiredRetention?.()).toEqual({ maxEntries: 20 });
+  });
+
+  it.each<BreakerStrategyConfig>([
+    { type: BreakerStrategyType.CONSECUTIVE, threshold: 3 },
+    {
+      type: BreakerStrategyType.COUNT,
+      threshold: 0.5,
+      size: 20,
+      minimumNumberOfCalls: 5,
+      slowCallThreshold: 0.8,
+    },
+    {
+      type: BreakerStrategyType.SAMPLING,
+      threshold: 0.5,
+      duration: 10_000,
+      minimumNumberOfCalls: 5,
+    },
+  ])(
+    'builds a strategy describing itself with the same config: %o',
+    (config) => {
+      expect(createBreakerStrategy(config).toConfig?.()).toEqual(config);
+    },
+  );
+
+  it('throws for an unknown type', () => {
+    expect(() =>
+      createBreakerStrategy({
+        type: 'adaptive',
+        threshold: 3,
+      } as unknown as BreakerStrategyConfig),
+    ).toThrow('Unknown breaker strategy type "adaptive"');
+  });
+
+  it('throws when a required option is missing or not a number', () => {
+    expect(() =>
+      createBreakerStrategy({
+        type: BreakerStrategyType.COUNT,
+        threshold: 0.5,
+        minimumNumberOfCalls: 5,
+      } as unknown as BreakerStrategyConfig),
+    ).toThrow('Expected "size" to be a finite number, got undefined');
+    expect(() =>
+      createBreakerStrategy({
+        type: BreakerStrategyType.CONSECUTIVE,
+        threshold: '3',
+      } as unknown as BreakerStrategyConfig),
+    ).toThrow('Expected "threshold" to be a finite number, got "3"');
+  });
+
+  it('throws when an optional option is not a number', () => {
+    expect(() =>
+      createBreakerStrategy({
+        type: BreakerStrategyType.CONSECUTIVE,
+        threshold: 3,
+        slowCallThreshold: null,
+      } as unknown as BreakerStrategyConfig),
+    ).toThrow('Expected "slowCallThreshold" to be a finite number, got null');
+  });
+});
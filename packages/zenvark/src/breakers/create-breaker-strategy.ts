@@ -0,0 +1,39 @@
+import { BreakerStrategyType } from '../constants.ts';
+import type { BreakerStrategyConfig } from '../types.ts';
+import { assertNumberFields } from '../utils/assert-number-fields.ts';
+import type { BreakerStrategy } from './breaker-strategy.ts';
+import { ConsecutiveBreaker } from './consecutive-breaker.ts';
+import { CountBreaker } from './count-breaker.ts';
+import { SamplingBreaker } from './sampling-breaker.ts';
+
+/**
+ * Builds the breaker strategy described by a shared config.
+ * Throws if the config does not describe a built-in strategy with valid options.
+ */
+export const createBreakerStrategy = (
+  config: BreakerStrategyConfig,
+): BreakerStrategy => {
+  switch (config.type) {
+    case BreakerStrategyType.CONSECUTIVE:
+      assertNumberFields(config, ['threshold'], ['slowCallThreshold']);
+      return new ConsecutiveBreaker(config);
+    case BreakerStrategyType.COUNT:
+      assertNumberFields(
+        config,
+        ['threshold', 'size', 'minimumNumberOfCalls'],
+        ['slowCallThreshold'],
+      );
+      return new CountBreaker(config);
+    case BreakerStrategyType.SAMPLING:
+      assertNumberFields(
+        config,
+        ['threshold', 'duration', 'minimumNumberOfCalls'],
+        ['slowCallThreshold'],
+      );
+      return new SamplingBreaker(config);
+    default:
+      throw new Error(
+        `Unknown breaker strategy type "${(config as { type: unknown }).type}"`,
+      );
+  }
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { CallResult } from '../constants.ts';
-import type { CallResultEvent } from '../types.ts';
+import type { CallResultBucket, CallResultEvent } from '../types.ts';
 import { SamplingBreaker } from './sampling-breaker.ts';
 
 describe('SamplingBreaker', () => {
@@ -14,6 +14,17 @@ describe('SamplingBreaker', () => {
     timestamp,
   });
 
+  const createBucket = (
+    timestamp: number,
+    counts: Partial<Omit<CallResultBucket, 'timestamp'>>,
+  ): CallResultBucket => ({
+    timestamp,
+    successes: 0,
+    failures: 0,
+    slowCalls: 0,
+    ...counts,
+  });
+
   describe('shouldOpenCircuit', () => {
     it('should return false for empty events array', () => {
       const breaker = new SamplingBreaker({
@@ -189,5 +200,181 @@ describe('SamplingBreaker', () => {
       // Any failure (33% > 0%) should trigger circuit when threshold is 0%
       expect(breaker.shouldOpenCircuit(withOneFailure)).toBe(true);
     });
+
+    it('should return true when slow call rate meets slow call threshold', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 10000,
+        minimumNumberOfCalls: 4,
+        slowCallThreshold: 0.5,
+      });
+
+      const now = Date.now();
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SUCCESS, now - 8000),
+        createEvent(CallResult.SLOW, now - 6000),
+        createEvent(CallResult.SUCCESS, now - 4000),
+        createEvent(CallResult.SLOW, now),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(true);
+    });
+
+    it('should only count slow calls within the time window', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 5000,
+        minimumNumberOfCalls: 2,
+        slowCallThreshold: 0.5,
+      });
+
+      const now = Date.now();
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.SLOW, now - 9000),
+        createEvent(CallResult.SLOW, now - 8000),
+        createEvent(CallResult.SUCCESS, now - 2000),
+        createEvent(CallResult.SUCCESS, now),
+      ];
+
+      expect(breaker.shouldOpenCircuit(events)).toBe(false);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('should describe the calls within the sampling window', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 2000,
+        minimumNumberOfCalls: 2,
+        slowCallThreshold: 0.8,
+      });
+
+      const events: CallResultEvent[] = [
+        createEvent(CallResult.FAILURE, 1000),
+        createEvent(CallResult.SUCCESS, 3000),
+        createEvent(CallResult.FAILURE, 4000),
+        createEvent(CallResult.SLOW, 5000),
+      ];
+
+      expect(breaker.getSnapshot(events)).toEqual({
+        calls: 3,
+        failures: 1,
+        failureRate: 1 / 3,
+        slowCalls: 1,
+        slowCallRate: 1 / 3,
+        threshold: 0.5,
+        slowCallThreshold: 0.8,
+      });
+    });
+
+    it('should report zero rates when there are no calls', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 2000,
+        minimumNumberOfCalls: 2,
+      });
+
+      expect(breaker.getSnapshot([])).toEqual({
+        calls: 0,
+        failures: 0,
+        failureRate: 0,
+        slowCalls: 0,
+        slowCallRate: 0,
+        threshold: 0.5,
+      });
+    });
+  });
+
+  describe('shouldOpenCircuitFromBuckets', () => {
+    it('should return false for empty buckets array', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 10000,
+        minimumNumberOfCalls: 1,
+      });
+
+      expect(breaker.shouldOpenCircuitFromBuckets([])).toBe(false);
+    });
+
+    it('should return true when failure rate across buckets meets threshold', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 10000,
+        minimumNumberOfCalls: 10,
+      });
+
+      const buckets = [
+        createBucket(1000, { successes: 4, failures: 1 }),
+        createBucket(2000, { successes: 1, failures: 4 }),
+      ];
+
+      expect(breaker.shouldOpenCircuitFromBuckets(buckets)).toBe(true);
+    });
+
+    it('should only consider buckets within the sampling window', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 2000,
+        minimumNumberOfCalls: 1,
+      });
+
+      const buckets = [
+        createBucket(1000, { failures: 10 }),
+        createBucket(4000, { successes: 3 }),
+        createBucket(5000, { successes: 2, failures: 1 }),
+      ];
+
+      expect(breaker.shouldOpenCircuitFromBuckets(buckets)).toBe(false);
+    });
+
+    it('should return true when slow call rate meets slow call threshold', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 10000,
+        minimumNumberOfCalls: 4,
+        slowCallThreshold: 0.5,
+      });
+
+      const buckets = [createBucket(1000, { successes: 2, slowCalls: 2 })];
+
+      expect(breaker.shouldOpenCircuitFromBuckets(buckets)).toBe(true);
+    });
+  });
+
+  describe('getBucketSnapshot', () => {
+    it('should describe the calls within the sampling window', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 2000,
+        minimumNumberOfCalls: 2,
+      });
+
+      const buckets = [
+        createBucket(1000, { failures: 10 }),
+        createBucket(4000, { successes: 2, slowCalls: 1 }),
+        createBucket(5000, { failures: 1 }),
+      ];
+
+      expect(breaker.getBucketSnapshot(buckets)).toEqual({
+        calls: 4,
+        failures: 1,
+        failureRate: 0.25,
+        slowCalls: 1,
+        slowCallRate: 0.25,
+        threshold: 0.5,
+      });
+    });
+  });
+
+  describe('getRequiredRetention', () => {
+    it('should require the call results within the sampling window', () => {
+      const breaker = new SamplingBreaker({
+        threshold: 0.5,
+        duration: 30_000,
+        minimumNumberOfCalls: 10,
+      });
+
+      expect(breaker.getRequiredRetention()).toEqual({ maxAgeMs: 30_000 });
+    });
   });
 });
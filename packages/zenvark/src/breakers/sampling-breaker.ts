@@ -1,6 +1,16 @@
-import { CallResult } from '../constants.ts';
-import type { CallResultEvent } from '../types.ts';
-import type { BreakerStrategy } from './breaker-strategy.ts';
+import type { CallResultRetention } from '../backends/breaker-backend.ts';
+import { BreakerStrategyType } from '../constants.ts';
+import type {
+  BreakerStrategyConfig,
+  CallResultBucket,
+  CallResultEvent,
+} from '../types.ts';
+import type { BreakerSnapshot, BreakerStrategy } from './breaker-strategy.ts';
+import {
+  type CallResultCounts,
+  countBucketedCallResults,
+  countCallResults,
+} from './count-call-results.ts';
 
 export interface SamplingBreakerOptions {
   /**
@@ -15,44 +25,121 @@ export interface SamplingBreakerOptions {
    * Minimum number of calls required before the circuit can be opened
    */
   minimumNumberOfCalls: number;
+  /**
+   * Optional slow-call threshold (0-1) for opening the circuit.
+   * When set, the circuit also opens if the rate of slow calls reaches it.
+   */
+  slowCallThreshold?: number;
 }
 
 /**
  * Circuit breaker strategy that opens the circuit when the failure rate
- * exceeds a threshold within a time-based sampling window.
+ * (or optionally the slow-call rate) exceeds a threshold within a time-based
+ * sampling window.
  */
 export class SamplingBreaker implements BreakerStrategy {
   private readonly threshold: number;
   private readonly duration: number;
   private readonly minimumNumberOfCalls: number;
+  private readonly slowCallThreshold?: number;
 
   constructor(options: SamplingBreakerOptions) {
     this.threshold = options.threshold;
     this.duration = options.duration;
     this.minimumNumberOfCalls = options.minimumNumberOfCalls;
+    this.slowCallThreshold = options.slowCallThreshold;
   }
 
   shouldOpenCircuit(events: CallResultEvent[]): boolean {
+    return this.exceedsThreshold(
+      countCallResults(this.getTimeWindowEvents(events)),
+    );
+  }
+
+  getSnapshot(events: CallResultEvent[]): BreakerSnapshot {
+    return this.toSnapshot(countCallResults(this.getTimeWindowEvents(events)));
+  }
+
+  getRequiredRetention(): CallResultRetention {
+    return { maxAgeMs: this.duration };
+  }
+
+  toConfig(): BreakerStrategyConfig {
+    return {
+      type: BreakerStrategyType.SAMPLING,
+      threshold: this.threshold,
+      duration: this.duration,
+      minimumNumberOfCalls: this.minimumNumberOfCalls,
+      ...(this.slowCallThreshold !== undefined && {
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
+
+  shouldOpenCircuitFromBuckets(buckets: CallResultBucket[]): boolean {
+    return this.exceedsThreshold(
+      countBucketedCallResults(this.getTimeWindowBuckets(buckets)),
+    );
+  }
+
+  getBucketSnapshot(buckets: CallResultBucket[]): BreakerSnapshot {
+    return this.toSnapshot(
+      countBucketedCallResults(this.getTimeWindowBuckets(buckets)),
+    );
+  }
+
+  private exceedsThreshold(counts: CallResultCounts): boolean {
+    if (counts.calls === 0 || counts.calls < this.minimumNumberOfCalls) {
+      return false;
+    }
+
+    if (counts.failureRate >= this.threshold) {
+      return true;
+    }
+
+    return (
+      this.slowCallThreshold !== undefined &&
+      counts.slowCallRate >= this.slowCallThreshold
+    );
+  }
+
+  private toSnapshot(counts: CallResultCounts): BreakerSnapshot {
+    return {
+      ...counts,
+      threshold: this.threshold,
+      ...(this.slowCallThreshold !== undefined && {
+        slowCallThreshold: this.slowCallThreshold,
+      }),
+    };
+  }
+
+  /**
+   * Returns the events within the sampling window ending at the latest event.
+   */
+  private getTimeWindowEvents(events: CallResultEvent[]): CallResultEvent[] {
     const latestEvent = events.at(-1);
     if (!latestEvent) {
-      return false;
+      return [];
     }
 
     const cutoffTime = latestEvent.timestamp - this.duration;
 
-    const timeWindowEvents = events.filter(
-      (event) => event.timestamp >= cutoffTime,
-    );
+    return events.filter((event) => event.timestamp >= cutoffTime);
+  }
 
-    if (timeWindowEvents.length < this.minimumNumberOfCalls) {
-      return false;
+  /**
+   * Returns the buckets starting within the sampling window that ends at the latest bucket.
+   */
+  private getTimeWindowBuckets(
+    buckets: CallResultBucket[],
+  ): CallResultBucket[] {
+    const latestBucket = buckets.at(-1);
+    if (!latestBucket) {
+      return [];
     }
 
-    const failures = timeWindowEvents.filter(
-      (event) => event.callResult === CallResult.FAILURE,
-    ).length;
-    const failureRate = failures / timeWindowEvents.length;
+    const cutoffTime = latestBucket.timestamp - this.duration;
 
-    return failureRate >= this.threshold;
+    return buckets.filter((bucket) => bucket.timestamp >= cutoffTime);
   }
 }
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import { redis } from '../test/setup-redis.ts';
+import { ConstantBackoff } from './backoffs/constant-backoff.ts';
+import { ConsecutiveBreaker } from './breakers/consecutive-breaker.ts';
+import { CircuitBreakerRegistry } from './circuit-breaker-registry.ts';
+import { CircuitRole, CircuitState } from './constants.ts';
+import { delay } from './utils/delay.ts';
+
+describe('CircuitBreakerRegistry', () => {
+  const createRegistry = () =>
+    new CircuitBreakerRegistry({
+      redis,
+      instanceId: 'registry-instance',
+      defaults: {
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 60_000 }),
+          check: () => Promise.resolve(),
+        },
+        onError: vi.fn(),
+      },
+      onError: vi.fn(),
+    });
+
+  it('returns the same breaker for the same id', () => {
+    const registry = createRegistry();
+
+    const first = registry.getOrCreate('payments');
+    const second = registry.getOrCreate('payments');
+
+    expect(second).toBe(first);
+    expect(registry.get('payments')).toBe(first);
+    expect(registry.get('unknown')).toBeUndefined();
+  });
+
+  it('applies the registry instance id to every breaker', () => {
+    const registry = createRegistry();
+
+    expect(registry.getOrCreate('payments').instanceId).toBe(
+      'registry-instance',
+    );
+  });
+
+  it('throws when the breaker strategy or health config is missing', () => {
+    const registry = new CircuitBreakerRegistry({ redis });
+
+    expect(() => registry.getOrCreate('payments')).toThrow(
+      'Cannot create circuit breaker "payments"',
+    );
+  });
+
+  it('starts and stops all breakers together', async () => {
+    const registry = createRegistry();
+    const payments = registry.getOrCreate('payments');
+    const shipping = registry.getOrCreate('shipping');
+
+    await registry.start();
+
+    expect(payments.isOperational).toBe(true);
+    expect(shipping.isOperational).toBe(true);
+
+    await registry.stop();
+
+    expect(payments.isOperational).toBe(false);
+    expect(shipping.isOperational).toBe(false);
+  });
+
+  it('starts breakers created while running', async () => {
+    const registry = createRegistry();
+    await registry.start();
+
+    const payments = registry.getOrCreate('payments');
+    await vi.waitFor(() => expect(payments.isOperational).toBe(true));
+
+    await registry.stop();
+  });
+
+  it('applies per-breaker options over the defaults', async () => {
+    const registry = createRegistry();
+    const payments = registry.getOrCreate('payments', {
+      breaker: new ConsecutiveBreaker({ threshold: 2 }),
+    });
+
+    await registry.start();
+
+    await payments
+      .execute(() => Promise.reject(new Error('fail')))
+      .catch(() => {});
+    await delay(100);
+
+    expect(payments.state).toBe(CircuitState.CLOSED);
+
+    await registry.stop();
+  });
+
+  it('lists all breakers with their state and role', async () => {
+    const registry = createRegistry();
+    const payments = registry.getOrCreate('payments');
+    registry.getOrCreate('shipping');
+
+    await registry.start();
+
+    await payments
+      .execute(() => Promise.reject(new Error('fail')))
+      .catch(() => {});
+    await vi.waitFor(() => expect(payments.state).toBe(CircuitState.OPEN));
+
+    expect(registry.list()).toEqual([
+      expect.objectContaining({
+        id: 'payments',
+        state: CircuitState.OPEN,
+        role: CircuitRole.LEADER,
+        override: null,
+        isOperational: true,
+      }),
+      expect.objectContaining({
+        id: 'shipping',
+        state: CircuitState.CLOSED,
+        role: CircuitRole.LEADER,
+        override: null,
+        isOperational: true,
+      }),
+    ]);
+
+    await registry.stop();
+  });
+
+  it('stops and forgets removed breakers', async () => {
+    const registry = createRegistry();
+    const payments = registry.getOrCreate('payments');
+
+    await registry.start();
+    await registry.remove('payments');
+
+    expect(payments.isOperational).toBe(false);
+    expect(registry.get('payments')).toBeUndefined();
+    expect(registry.list()).toEqual([]);
+
+    await registry.stop();
+  });
+});
@@ -0,0 +1,202 @@
+import { randomUUID } from 'node:crypto';
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from './circuit-breaker.ts';
+import type { CircuitRole, CircuitState } from './constants.ts';
+import type { CircuitOverride, StateTransition } from './types.ts';
+import { AbstractLifecycleManager } from './utils/abstract-lifecycle-manager.ts';
+import { duplicateClient, type RedisClient } from './utils/redis-client.ts';
+import { RedisStreamReader } from './utils/redis-stream-reader.ts';
+
+/**
+ * Options of a breaker created by the registry. Connection and instance id are
+ * managed by the registry and cannot be set per breaker.
+ */
+export type RegisteredBreakerOptions = Partial<
+  Omit<
+    CircuitBreakerOptions,
+    | 'id'
+    | 'redis'
+    | 'sharedConnection'
+    | 'streamReader'
+    | 'backend'
+    | 'instanceId'
+  >
+>;
+
+export type CircuitBreakerRegistryOptions = {
+  /**
+   * Redis client the registry duplicates once for commands and once for reading
+   * streams, sharing both connections between its breakers
+   */
+  redis: RedisClient;
+  /** Identifies this instance in the state stream of every breaker. Defaults to a random UUID. */
+  instanceId?: string;
+  /**
+   * Options applied to every breaker. Options passed to `getOrCreate()` replace them
+   * key by key, so nested objects such as `health` are not merged.
+   */
+  defaults?: RegisteredBreakerOptions;
+  /** Called when a breaker added to a running registry fails to start */
+  onError?: (err: Error) => void;
+};
+
+/**
+ * Point-in-time view of a registered breaker, meant for admin tooling.
+ */
+export type CircuitBreakerSummary = {
+  id: string;
+  state: CircuitState;
+  role: CircuitRole;
+  override: CircuitOverride | null;
+  lastTransition: StateTransition;
+  isOperational: boolean;
+};
+
+/**
+ * Creates and tracks the circuit breakers of a process. Breakers share one Redis
+ * connection and defaults, and are started and stopped together.
+ */
+export class CircuitBreakerRegistry extends AbstractLifecycleManager {
+  private readonly redis: RedisClient;
+  private readonly streamReader: RedisStreamReader;
+  private readonly instanceId: string;
+  private readonly defaults: RegisteredBreakerOptions;
+  private readonly onError?: (err: Error) => void;
+
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  /** Whether breakers added from now on should be started right away */
+  private started = false;
+
+  constructor(options: CircuitBreakerRegistryOptions) {
+    super();
+    this.redis = duplicateClient(options.redis, { lazyConnect: true });
+    this.streamReader = new RedisStreamReader({ redis: this.redis });
+    this.instanceId = options.instanceId ?? randomUUID();
+    this.defaults = options.defaults ?? {};
+    this.onError = options.onError;
+  }
+
+  /**
+   * Connects the shared Redis connections and starts all registered breakers.
+   */
+  protected override async startInternal(): Promise<void> {
+    await this.redis.connect();
+    await this.streamReader.start();
+    this.started = true;
+
+    await Promise.all(
+      Array.from(this.breakers.values(), (breaker) => breaker.start()),
+    );
+  }
+
+  /**
+   * Stops all registered breakers, then closes the shared Redis connections.
+   * Breakers failing to stop do not prevent the others from stopping.
+   */
+  protected override async stopInternal(): Promise<void> {
+    this.started = false;
+
+    const results = await Promise.allSettled(
+      Array.from(this.breakers.values(), (breaker) => breaker.stop()),
+    );
+
+    await this.streamReader.stop();
+    await this.redis.quit();
+
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Returns the breaker registered under the id, or undefined.
+   */
+  get(id: string): CircuitBreaker | undefined {
+    return this.breakers.get(id);
+  }
+
+  /**
+   * Returns the breaker registered under the id, creating it from the defaults and
+   * the given options if it does not exist yet. Options are ignored for existing breakers.
+   * Breakers created while the registry is running are started in the background.
+   */
+  getOrCreate(
+    id: string,
+    options: RegisteredBreakerOptions = {},
+  ): CircuitBreaker {
+    const existing = this.breakers.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const { breaker, health, ...rest } = { ...this.defaults, ...options };
+
+    if (!breaker || !health) {
+      throw new Error(
+        `Cannot create circuit breaker "${id}": breaker and health must be set in the defaults or options`,
+      );
+    }
+
+    const circuit = new CircuitBreaker({
+      ...rest,
+      id,
+      redis: this.redis,
+      sharedConnection: true,
+      streamReader: this.streamReader,
+      instanceId: this.instanceId,
+      breaker,
+      health,
+    });
+
+    this.breakers.set(id, circuit);
+
+    if (this.started) {
+      circuit.start().catch((err: unknown) => {
+        this.handleError(`Failed to start circuit breaker "${id}"`, err);
+      });
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Stops the breaker and removes it from the registry.
+   */
+  async remove(id: string): Promise<void> {
+    const breaker = this.breakers.get(id);
+    if (!breaker) {
+      return;
+    }
+
+    this.breakers.delete(id);
+    await breaker.stop();
+  }
+
+  /**
+   * Returns the state and role of every registered breaker, in creation order.
+   */
+  list(): CircuitBreakerSummary[] {
+    return Array.from(this.breakers, ([id, breaker]) => ({
+      id,
+      state: breaker.state,
+      role: breaker.role,
+      override: breaker.override,
+      lastTransition: breaker.lastTransition,
+      isOperational: breaker.isOperational,
+    }));
+  }
+
+  private handleError(message: string, cause: unknown): void {
+    const err = new Error(message, { cause });
+
+    if (!this.onError) {
+      console.error('[zenvark] Unhandled error:', err);
+      return;
+    }
+    this.onError(err);
+  }
+}
@@ -1,14 +1,32 @@
-import { describe, expect, it, vi } from 'vitest';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 import { redis } from '../test/setup-redis.ts';
+import type { CallResultRetention } from './backends/breaker-backend.ts';
 import { ConstantBackoff } from './backoffs/constant-backoff.ts';
 import { ConsecutiveBreaker } from './breakers/consecutive-breaker.ts';
-import { CircuitBreaker } from './circuit-breaker.ts';
+import { CountBreaker } from './breakers/count-breaker.ts';
+import { SamplingBreaker } from './breakers/sampling-breaker.ts';
 import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from './circuit-breaker.ts';
+import {
+  BreakerStrategyType,
+  CallResult,
+  CircuitMode,
   CircuitRole,
   CircuitState,
+  ErrorClassification,
+  FallbackReason,
   type HealthCheckType,
+  KeyLayout,
+  StateChangeReason,
 } from './constants.ts';
-import { CircuitOpenError } from './errors/circuit-open-error.ts';
+import { BulkheadFullError } from './errors/bulkhead-full-error.ts';
+import { CallTimeoutError } from './errors/call-timeout-error.ts';
+import {
+  CircuitOpenError,
+  type CircuitOpenErrorDetails,
+} from './errors/circuit-open-error.ts';
 import { delay } from './utils/delay.ts';
 
 describe('CircuitBreaker', () => {
@@ -16,12 +34,14 @@ describe('CircuitBreaker', () => {
     threshold = 3,
     check = () => Promise.resolve(),
     idleProbeIntervalMs,
+    maxTrialCalls,
     onRoleChange,
     onStateChange,
   }: {
     threshold?: number;
     check?: (type: HealthCheckType, signal: AbortSignal) => Promise<void>;
     idleProbeIntervalMs?: number;
+    maxTrialCalls?: number;
     onRoleChange?: (role: CircuitRole) => void;
     onStateChange?: (state: CircuitState) => void;
   } = {}) => {
@@ -34,6 +54,7 @@ describe('CircuitBreaker', () => {
         check,
         idleProbeIntervalMs,
       },
+      halfOpen: maxTrialCalls ? { maxTrialCalls } : undefined,
       onError: vi.fn(),
       onRoleChange,
       onStateChange,
@@ -260,4 +281,1327 @@ describe('CircuitBreaker', () => {
 
     await circuit.stop();
   });
+
+  describe('half-open state', () => {
+    it('closes the circuit after all trial calls succeed', async () => {
+      const circuit = await createCircuit({ threshold: 1, maxTrialCalls: 2 });
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await vi.waitUntil(() => circuit.state === CircuitState.HALF_OPEN, {
+        interval: 1,
+      });
+
+      await expect(
+        circuit.execute(() => Promise.resolve('trial 1')),
+      ).resolves.toBe('trial 1');
+      expect(circuit.state).toBe(CircuitState.HALF_OPEN);
+
+      await expect(
+        circuit.execute(() => Promise.resolve('trial 2')),
+      ).resolves.toBe('trial 2');
+
+      await vi.waitUntil(() => circuit.state === CircuitState.CLOSED, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+
+    it('reopens the circuit when a trial call fails', async () => {
+      const onStateChange = vi.fn();
+
+      const circuit = await createCircuit({
+        threshold: 1,
+        maxTrialCalls: 2,
+        onStateChange,
+      });
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await vi.waitUntil(() => circuit.state === CircuitState.HALF_OPEN, {
+        interval: 1,
+      });
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await vi.waitUntil(() => onStateChange.mock.calls.length >= 3, {
+        interval: 1,
+      });
+
+      expect(onStateChange.mock.calls.slice(0, 3)).toEqual([
+        [CircuitState.OPEN],
+        [CircuitState.HALF_OPEN],
+        [CircuitState.OPEN],
+      ]);
+
+      await circuit.stop();
+    });
+
+    it('rejects calls beyond the trial quota', async () => {
+      const circuit = await createCircuit({ threshold: 1, maxTrialCalls: 1 });
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await vi.waitUntil(() => circuit.state === CircuitState.HALF_OPEN, {
+        interval: 1,
+      });
+
+      let resolveTrialCall: (value: string) => void = () => {};
+      const pendingTrialResult = new Promise<string>((resolve) => {
+        resolveTrialCall = resolve;
+      });
+      const trialCall = circuit.execute(() => pendingTrialResult);
+
+      await expect(
+        circuit.execute(() => Promise.resolve('blocked')),
+      ).rejects.toBeInstanceOf(CircuitOpenError);
+
+      resolveTrialCall('trial');
+      await expect(trialCall).resolves.toBe('trial');
+
+      await vi.waitUntil(() => circuit.state === CircuitState.CLOSED, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+  });
+
+  describe('half-open trial permits', () => {
+    const createTrialCircuit = async (
+      options: Pick<
+        CircuitBreakerOptions,
+        'bulkhead' | 'classifyError' | 'halfOpen'
+      >,
+    ) => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.resolve(),
+        },
+        onError: vi.fn(),
+        ...options,
+      });
+
+      await circuit.start();
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+      await vi.waitUntil(() => circuit.state === CircuitState.HALF_OPEN, {
+        interval: 1,
+      });
+
+      return circuit;
+    };
+
+    it('does not use up a permit for a call rejected by the bulkhead', async () => {
+      const circuit = await createTrialCircuit({
+        halfOpen: { maxTrialCalls: 2 },
+        bulkhead: { maxConcurrent: 1 },
+      });
+
+      let resolveTrialCall: (value: string) => void = () => {};
+      const trialCall = circuit.execute(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveTrialCall = resolve;
+          }),
+      );
+      await delay(20);
+
+      await expect(
+        circuit.execute(() => Promise.resolve('rejected')),
+      ).rejects.toThrow(BulkheadFullError);
+
+      resolveTrialCall('trial 1');
+      await expect(trialCall).resolves.toBe('trial 1');
+      await expect(
+        circuit.execute(() => Promise.resolve('trial 2')),
+      ).resolves.toBe('trial 2');
+
+      await vi.waitUntil(() => circuit.state === CircuitState.CLOSED, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+
+    it('returns the permit of a trial call whose error is ignored', async () => {
+      const ignoredError = new Error('ignored');
+      const circuit = await createTrialCircuit({
+        halfOpen: { maxTrialCalls: 1 },
+        classifyError: (err) =>
+          err === ignoredError
+            ? ErrorClassification.IGNORED
+            : ErrorClassification.FAILURE,
+      });
+
+      await expect(
+        circuit.execute(() => Promise.reject(ignoredError)),
+      ).rejects.toBe(ignoredError);
+      await expect(
+        circuit.execute(() => Promise.resolve('trial')),
+      ).resolves.toBe('trial');
+
+      await vi.waitUntil(() => circuit.state === CircuitState.CLOSED, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+  });
+
+  describe('manual overrides', () => {
+    it('keeps the circuit open while forced open, even if health checks pass', async () => {
+      const check = vi.fn(() => Promise.resolve());
+
+      const circuit = await createCircuit({ check });
+
+      await circuit.forceOpen({ reason: 'incident', actor: 'alice' });
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      expect(circuit.override).toMatchObject({
+        state: CircuitState.OPEN,
+        reason: 'incident',
+        actor: 'alice',
+      });
+
+      await expect(
+        circuit.execute(() => Promise.resolve('blocked')),
+      ).rejects.toBeInstanceOf(CircuitOpenError);
+
+      await delay(150);
+
+      expect(circuit.state).toBe(CircuitState.OPEN);
+      expect(check).not.toHaveBeenCalled();
+
+      await circuit.stop();
+    });
+
+    it('resumes recovery once the override is cleared', async () => {
+      const circuit = await createCircuit();
+
+      await circuit.forceOpen({ reason: 'incident' });
+
+      await vi.waitUntil(() => circuit.override !== null, { interval: 1 });
+
+      await circuit.clearOverride({ reason: 'resolved' });
+
+      await vi.waitUntil(() => circuit.override === null, { interval: 1 });
+      await vi.waitUntil(() => circuit.state === CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+
+    it('keeps the circuit closed while forced closed, even if calls fail', async () => {
+      const circuit = await createCircuit({ threshold: 1 });
+
+      await circuit.forceClose({ reason: 'false positive' });
+
+      await vi.waitUntil(() => circuit.override !== null, { interval: 1 });
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await delay(50);
+
+      expect(circuit.state).toBe(CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('shadow mode', () => {
+    it('opens the circuit but lets calls through and reports them', async () => {
+      const onWouldBlock = vi.fn();
+      const metrics = {
+        recordCall: vi.fn(),
+        recordBlockedRequest: vi.fn(),
+        recordShadowBlockedRequest: vi.fn(),
+        recordHealthCheck: vi.fn(),
+      };
+
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.reject(new Error('still broken')),
+        },
+        mode: CircuitMode.SHADOW,
+        onError: vi.fn(),
+        onWouldBlock,
+        metrics,
+      });
+
+      await circuit.start();
+
+      await expect(circuit.execute(() => Promise.reject())).rejects.toThrow();
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      await expect(
+        circuit.execute(() => Promise.resolve('allowed')),
+      ).resolves.toBe('allowed');
+
+      expect(onWouldBlock).toHaveBeenCalledExactlyOnceWith(CircuitState.OPEN);
+      expect(
+        metrics.recordShadowBlockedRequest,
+      ).toHaveBeenCalledExactlyOnceWith({ breakerId: 'test' });
+      expect(metrics.recordBlockedRequest).not.toHaveBeenCalled();
+
+      await circuit.stop();
+    });
+  });
+
+  describe('error classification', () => {
+    const createClassifyingCircuit = async (
+      classifyError: (err: unknown) => ErrorClassification,
+    ) => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.reject(new Error('still broken')),
+        },
+        classifyError,
+        onError: vi.fn(),
+      });
+
+      await circuit.start();
+
+      return circuit;
+    };
+
+    const getRecordedCallResults = async () => {
+      const entries = await redis.xrange('zenvark:test:call-result', '-', '+');
+      return entries.map(([, fields]) => fields[1]);
+    };
+
+    it('does not record errors classified as ignored', async () => {
+      const circuit = await createClassifyingCircuit(
+        () => ErrorClassification.IGNORED,
+      );
+
+      const error = new Error('aborted');
+      await expect(circuit.execute(() => Promise.reject(error))).rejects.toBe(
+        error,
+      );
+
+      await delay(50);
+
+      expect(await getRecordedCallResults()).toEqual([]);
+      expect(circuit.state).toBe(CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+
+    it('records errors classified as success as successful calls', async () => {
+      const circuit = await createClassifyingCircuit(
+        () => ErrorClassification.SUCCESS,
+      );
+
+      const error = new Error('not found');
+      await expect(circuit.execute(() => Promise.reject(error))).rejects.toBe(
+        error,
+      );
+
+      await vi.waitUntil(
+        async () => (await getRecordedCallResults()).length === 1,
+      );
+
+      expect(await getRecordedCallResults()).toEqual([CallResult.SUCCESS]);
+      expect(circuit.state).toBe(CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+
+    it('prefers the per-call classifier over the breaker-level one', async () => {
+      const circuit = await createClassifyingCircuit(
+        () => ErrorClassification.IGNORED,
+      );
+
+      await expect(
+        circuit.execute(() => Promise.reject(new Error('fail')), {
+          classifyError: () => ErrorClassification.FAILURE,
+        }),
+      ).rejects.toThrow('fail');
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+  });
+
+  describe('slow calls', () => {
+    it('records successful calls exceeding the slow call threshold as slow', async () => {
+      const metrics = {
+        recordCall: vi.fn(),
+        recordBlockedRequest: vi.fn(),
+        recordHealthCheck: vi.fn(),
+      };
+
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 3, slowCallThreshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.reject(new Error('still broken')),
+        },
+        slowCallThresholdMs: 20,
+        onError: vi.fn(),
+        metrics,
+      });
+
+      await circuit.start();
+
+      await expect(
+        circuit.execute(async () => {
+          await delay(30);
+          return 'slow';
+        }),
+      ).resolves.toBe('slow');
+
+      expect(metrics.recordCall).toHaveBeenCalledWith({
+        breakerId: 'test',
+        result: CallResult.SLOW,
+        durationMs: expect.any(Number),
+      });
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+  });
+
+  describe('timeouts', () => {
+    it('aborts calls exceeding the timeout and records them as failures', async () => {
+      const circuit = await createCircuit({ threshold: 1 });
+
+      let signal: AbortSignal | undefined;
+
+      await expect(
+        circuit.execute(
+          async (callSignal) => {
+            signal = callSignal;
+            await delay(1000, callSignal);
+            return 'too late';
+          },
+          { timeoutMs: 20 },
+        ),
+      ).rejects.toBeInstanceOf(CallTimeoutError);
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(CallTimeoutError);
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      await circuit.stop();
+    });
+
+    it('does not abort calls completing within the timeout', async () => {
+      const circuit = await createCircuit({ threshold: 1 });
+
+      let signal: AbortSignal | undefined;
+
+      await expect(
+        circuit.execute(
+          (callSignal) => {
+            signal = callSignal;
+            return Promise.resolve('ok');
+          },
+          { timeoutMs: 100 },
+        ),
+      ).resolves.toBe('ok');
+
+      await delay(150);
+
+      expect(signal?.aborted).toBe(false);
+      expect(circuit.state).toBe(CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('fallbacks', () => {
+    const createFallbackCircuit = async (metrics = {}) => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.reject(new Error('still broken')),
+        },
+        fallback: (err: unknown) => ({ fallback: true, err }),
+        onError: vi.fn(),
+        metrics: {
+          recordCall: vi.fn(),
+          recordBlockedRequest: vi.fn(),
+          recordHealthCheck: vi.fn(),
+          ...metrics,
+        },
+      });
+
+      await circuit.start();
+
+      return circuit;
+    };
+
+    it('returns the breaker-level fallback result when the call fails', async () => {
+      const recordFallback = vi.fn();
+      const circuit = await createFallbackCircuit({ recordFallback });
+
+      const error = new Error('fail');
+
+      const result = circuit.execute(() => Promise.reject<string>(error));
+
+      expectTypeOf(result).resolves.toEqualTypeOf<
+        string | { fallback: boolean; err: unknown }
+      >();
+      await expect(result).resolves.toEqual({ fallback: true, err: error });
+
+      expect(recordFallback).toHaveBeenCalledExactlyOnceWith({
+        breakerId: 'test',
+        reason: FallbackReason.FAILURE,
+      });
+
+      await circuit.stop();
+    });
+
+    it('returns the fallback result when the circuit is open', async () => {
+      const recordFallback = vi.fn();
+      const circuit = await createFallbackCircuit({ recordFallback });
+
+      await circuit.execute(() => Promise.reject(new Error('fail')));
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      const result = await circuit.execute(() => Promise.resolve('blocked'));
+
+      expect(result).toEqual({
+        fallback: true,
+        err: expect.any(CircuitOpenError),
+      });
+      expect(recordFallback).toHaveBeenLastCalledWith({
+        breakerId: 'test',
+        reason: FallbackReason.CIRCUIT_OPEN,
+      });
+
+      await circuit.stop();
+    });
+
+    it('prefers the per-call fallback and reports timeouts', async () => {
+      const recordFallback = vi.fn();
+      const circuit = await createFallbackCircuit({ recordFallback });
+
+      const result = await circuit.execute(
+        async (signal) => {
+          await delay(1000, signal);
+          return 'too late';
+        },
+        { timeoutMs: 10, fallback: () => 0 },
+      );
+
+      expectTypeOf(result).toEqualTypeOf<string | number>();
+      expect(result).toBe(0);
+      expect(recordFallback).toHaveBeenCalledExactlyOnceWith({
+        breakerId: 'test',
+        reason: FallbackReason.TIMEOUT,
+      });
+
+      await circuit.stop();
+    });
+
+    it('does not use the fallback for successful calls', async () => {
+      const recordFallback = vi.fn();
+      const circuit = await createFallbackCircuit({ recordFallback });
+
+      await expect(circuit.execute(() => Promise.resolve('ok'))).resolves.toBe(
+        'ok',
+      );
+      expect(recordFallback).not.toHaveBeenCalled();
+
+      await circuit.stop();
+    });
+  });
+
+  describe('bulkhead', () => {
+    const createBulkheadCircuit = async (
+      bulkhead: { maxConcurrent: number; maxConcurrentLocal?: number },
+      recordBulkheadRejection = vi.fn(),
+    ) => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+          check: () => Promise.resolve(),
+        },
+        bulkhead,
+        onError: vi.fn(),
+        metrics: {
+          recordCall: vi.fn(),
+          recordBlockedRequest: vi.fn(),
+          recordHealthCheck: vi.fn(),
+          recordBulkheadRejection,
+        },
+      });
+
+      await circuit.start();
+
+      return circuit;
+    };
+
+    it('rejects calls over the distributed limit across instances', async () => {
+      const recordBulkheadRejection = vi.fn();
+      const circuitA = await createBulkheadCircuit(
+        { maxConcurrent: 1 },
+        recordBulkheadRejection,
+      );
+      const circuitB = await createBulkheadCircuit(
+        { maxConcurrent: 1 },
+        recordBulkheadRejection,
+      );
+
+      const running = circuitA.execute(() => delay(100).then(() => 'done'));
+      await delay(20);
+
+      await expect(
+        circuitB.execute(() => Promise.resolve('rejected')),
+      ).rejects.toThrow(BulkheadFullError);
+      expect(recordBulkheadRejection).toHaveBeenCalledExactlyOnceWith({
+        breakerId: 'test',
+      });
+
+      await expect(running).resolves.toBe('done');
+      await delay(20);
+
+      await expect(circuitB.execute(() => Promise.resolve('ok'))).resolves.toBe(
+        'ok',
+      );
+
+      await Promise.all([circuitA.stop(), circuitB.stop()]);
+    });
+
+    it('rejects calls over the local limit', async () => {
+      const circuit = await createBulkheadCircuit({
+        maxConcurrent: 10,
+        maxConcurrentLocal: 1,
+      });
+
+      const running = circuit.execute(() => delay(50).then(() => 'done'));
+
+      await expect(
+        circuit.execute(() => Promise.resolve('rejected')),
+      ).rejects.toThrow(BulkheadFullError);
+
+      await expect(running).resolves.toBe('done');
+      await expect(circuit.execute(() => Promise.resolve('ok'))).resolves.toBe(
+        'ok',
+      );
+
+      await circuit.stop();
+    });
+
+    it('does not record rejected calls as failures', async () => {
+      const circuit = await createBulkheadCircuit({
+        maxConcurrent: 10,
+        maxConcurrentLocal: 1,
+      });
+
+      const running = circuit.execute(() => delay(50));
+      await expect(circuit.execute(() => Promise.resolve())).rejects.toThrow(
+        BulkheadFullError,
+      );
+      await running;
+
+      await delay(50);
+
+      expect(circuit.state).toBe(CircuitState.CLOSED);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('open errors', () => {
+    const createOpeningCircuit = async (
+      createOpenError?: (details: CircuitOpenErrorDetails) => Error,
+    ) => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 1000 }),
+          check: () => Promise.reject(new Error('still broken')),
+        },
+        createOpenError,
+        onError: vi.fn(),
+      });
+
+      await circuit.start();
+
+      await circuit
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      return circuit;
+    };
+
+    it('includes when and why the circuit opened and when to retry', async () => {
+      const circuit = await createOpeningCircuit();
+
+      const err = await circuit
+        .execute(() => Promise.resolve('blocked'))
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(CircuitOpenError);
+      const { details } = err as CircuitOpenError;
+      expect(details).toEqual({
+        circuitId: 'test',
+        state: CircuitState.OPEN,
+        openedAt: expect.any(Number),
+        reason: StateChangeReason.BREAKER_TRIPPED,
+        retryAfterMs: expect.any(Number),
+      });
+      expect(details.openedAt).toBeLessThanOrEqual(Date.now());
+      expect(details.retryAfterMs).toBeGreaterThan(0);
+      expect(details.retryAfterMs).toBeLessThanOrEqual(1000);
+
+      await circuit.stop();
+    });
+
+    it('has no retry estimate while manually forced open', async () => {
+      const circuit = await createOpeningCircuit();
+
+      await circuit.forceOpen({ reason: 'incident' });
+      await vi.waitUntil(() => circuit.override !== null, { interval: 1 });
+
+      const err = await circuit
+        .execute(() => Promise.resolve('blocked'))
+        .catch((e: unknown) => e);
+
+      expect((err as CircuitOpenError).details).toMatchObject({
+        reason: StateChangeReason.MANUAL_OVERRIDE,
+        retryAfterMs: null,
+      });
+
+      await circuit.stop();
+    });
+
+    it('throws errors created by a custom factory', async () => {
+      class ServiceUnavailableError extends Error {
+        readonly retryAfterMs: number | null;
+
+        constructor(retryAfterMs: number | null) {
+          super('Service unavailable');
+          this.retryAfterMs = retryAfterMs;
+        }
+      }
+
+      const circuit = await createOpeningCircuit(
+        (details) => new ServiceUnavailableError(details.retryAfterMs),
+      );
+
+      await expect(
+        circuit.execute(() => Promise.resolve('blocked')),
+      ).rejects.toBeInstanceOf(ServiceUnavailableError);
+
+      await expect(
+        circuit.execute(() => Promise.resolve('blocked'), {
+          fallback: (err) => err,
+        }),
+      ).resolves.toBeInstanceOf(ServiceUnavailableError);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('events', () => {
+    it('notifies every listener about state changes', async () => {
+      const circuit = await createCircuit({
+        threshold: 1,
+        check: () => Promise.reject(new Error('still broken')),
+      });
+
+      const first = vi.fn();
+      const second = vi.fn();
+      circuit.on('stateChange', first).on('stateChange', second);
+
+      await circuit
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+
+      await vi.waitFor(() => {
+        expect(first).toHaveBeenCalledWith(CircuitState.OPEN);
+        expect(second).toHaveBeenCalledWith(CircuitState.OPEN);
+      });
+
+      await circuit.stop();
+    });
+
+    it('emits call outcomes', async () => {
+      const circuit = await createCircuit({
+        threshold: 1,
+        check: () => Promise.reject(new Error('still broken')),
+      });
+
+      const onSuccess = vi.fn();
+      const onFailure = vi.fn();
+      const onRejected = vi.fn();
+      circuit
+        .on('callSuccess', onSuccess)
+        .on('callFailure', onFailure)
+        .on('callRejected', onRejected);
+
+      const error = new Error('fail');
+      await circuit.execute(() => Promise.resolve('ok'));
+      await circuit.execute(() => Promise.reject(error)).catch(() => {});
+
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+      await circuit.execute(() => Promise.resolve('blocked')).catch(() => {});
+
+      expect(onSuccess).toHaveBeenCalledExactlyOnceWith({
+        result: CallResult.SUCCESS,
+        durationMs: expect.any(Number),
+      });
+      expect(onFailure).toHaveBeenCalledExactlyOnceWith({
+        error,
+        classification: ErrorClassification.FAILURE,
+        durationMs: expect.any(Number),
+      });
+      expect(onRejected).toHaveBeenCalledExactlyOnceWith({
+        error: expect.any(CircuitOpenError),
+      });
+
+      await circuit.stop();
+    });
+
+    it('emits started and stopped', async () => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: {
+          backoff: new ConstantBackoff({ delayMs: 50 }),
+        },
+      });
+
+      const onStarted = vi.fn();
+      const onStopped = vi.fn();
+      circuit.once('started', onStarted).once('stopped', onStopped);
+
+      await circuit.start();
+      expect(onStarted).toHaveBeenCalledOnce();
+
+      await circuit.stop();
+      expect(onStopped).toHaveBeenCalledOnce();
+    });
+
+    it('stops notifying removed listeners', async () => {
+      const circuit = await createCircuit();
+
+      const listener = vi.fn();
+      circuit.on('callSuccess', listener).off('callSuccess', listener);
+
+      await circuit.execute(() => Promise.resolve('ok'));
+
+      expect(listener).not.toHaveBeenCalled();
+
+      await circuit.stop();
+    });
+
+    it('reports failing listeners as error events', async () => {
+      const circuit = await createCircuit();
+
+      const onError = vi.fn();
+      circuit.on('error', onError).on('callSuccess', () => {
+        throw new Error('listener failed');
+      });
+
+      await expect(circuit.execute(() => Promise.resolve('ok'))).resolves.toBe(
+        'ok',
+      );
+
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          message: 'Listener for callSuccess event failed',
+        }),
+      );
+
+      await circuit.stop();
+    });
+  });
+
+  describe('state transitions', () => {
+    it('records why the circuit opened and which instance opened it', async () => {
+      const recordStateChange = vi.fn();
+      const createInstance = (instanceId: string) =>
+        new CircuitBreaker({
+          id: 'test',
+          instanceId,
+          redis,
+          breaker: new ConsecutiveBreaker({ threshold: 1 }),
+          health: {
+            backoff: new ConstantBackoff({ delayMs: 1000 }),
+            check: () => Promise.reject(new Error('still broken')),
+          },
+          onError: vi.fn(),
+          metrics: {
+            recordCall: vi.fn(),
+            recordBlockedRequest: vi.fn(),
+            recordHealthCheck: vi.fn(),
+            recordStateChange,
+          },
+        });
+
+      const circuitA = createInstance('instance-a');
+      await circuitA.start();
+      const circuitB = createInstance('instance-b');
+      await circuitB.start();
+
+      const onStateChange = vi.fn();
+      circuitB.on('stateChange', onStateChange);
+
+      await circuitB
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+
+      await vi.waitFor(() =>
+        expect(onStateChange).toHaveBeenCalledExactlyOnceWith(
+          CircuitState.OPEN,
+          {
+            state: CircuitState.OPEN,
+            reason: StateChangeReason.BREAKER_TRIPPED,
+            details: {
+              strategy: 'ConsecutiveBreaker',
+              snapshot: { consecutiveFailures: 1, threshold: 1 },
+            },
+            instanceId: circuitA.instanceId,
+            timestamp: expect.any(Number),
+          },
+        ),
+      );
+      expect(circuitB.lastTransition.reason).toBe(
+        StateChangeReason.BREAKER_TRIPPED,
+      );
+
+      // Only the leader that wrote the transition records it
+      await vi.waitFor(() =>
+        expect(recordStateChange).toHaveBeenCalledExactlyOnceWith({
+          breakerId: 'test',
+          state: CircuitState.OPEN,
+          reason: StateChangeReason.BREAKER_TRIPPED,
+        }),
+      );
+
+      await Promise.all([circuitA.stop(), circuitB.stop()]);
+    });
+
+    it('returns the state history shared by all instances', async () => {
+      const circuit = await createCircuit({
+        threshold: 1,
+        check: () => Promise.reject(new Error('still broken')),
+      });
+
+      await circuit
+        .execute(() => Promise.reject(new Error('fail')))
+        .catch(() => {});
+      await vi.waitUntil(() => circuit.state === CircuitState.OPEN, {
+        interval: 1,
+      });
+
+      const history = await circuit.getStateHistory({ limit: 10 });
+
+      expect(history).toEqual([
+        expect.objectContaining({
+          state: CircuitState.OPEN,
+          reason: StateChangeReason.BREAKER_TRIPPED,
+          endedAt: null,
+        }),
+      ]);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('call result batching', () => {
+    it('writes call results in batches and opens the circuit on them', async () => {
+      const metrics = {
+        recordCall: vi.fn(),
+        recordBlockedRequest: vi.fn(),
+        recordHealthCheck: vi.fn(),
+        recordCallResultFlush: vi.fn(),
+      };
+
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 3 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        callResultBatching: { maxBatchSize: 3, flushIntervalMs: 60_000 },
+        onError: vi.fn(),
+        metrics,
+      });
+
+      await circuit.start();
+
+      for (let i = 0; i < 3; i++) {
+        await circuit
+          .execute(() => Promise.reject(new Error('fail')))
+          .catch(() => {});
+      }
+
+      await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.OPEN));
+
+      expect(metrics.recordCallResultFlush).toHaveBeenCalledExactlyOnceWith({
+        breakerId: 'test',
+        result: CallResult.SUCCESS,
+        batchSize: 3,
+        durationMs: expect.any(Number),
+      });
+
+      await circuit.stop();
+    });
+
+    it('writes buffered call results when stopped', async () => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new ConsecutiveBreaker({ threshold: 10 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        callResultBatching: { maxBatchSize: 100, flushIntervalMs: 60_000 },
+        onError: vi.fn(),
+      });
+
+      await circuit.start();
+
+      await circuit.execute(() => Promise.resolve());
+      await circuit.execute(() => Promise.resolve());
+
+      expect(await redis.xlen('zenvark:test:call-result')).toBe(0);
+
+      await circuit.stop();
+
+      expect(await redis.xlen('zenvark:test:call-result')).toBe(2);
+    });
+  });
+
+  describe('call result retention', () => {
+    const breaker = new SamplingBreaker({
+      threshold: 0.5,
+      duration: 60_000,
+      minimumNumberOfCalls: 10,
+    });
+
+    it('warns when the retention may not cover the strategy window', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker,
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        callResultRetention: { maxEntries: 1000 },
+      });
+
+      expect(warn).toHaveBeenCalledExactlyOnceWith(
+        '[zenvark] Call result retention of circuit breaker "test" keeps 1000 call results, which may not cover the 60000ms the strategy evaluates',
+      );
+
+      warn.mockRestore();
+    });
+  });
+
+  describe('redis keys', () => {
+    it('stores its data under the configured prefix and layout', async () => {
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis,
+        keys: { prefix: 'staging', layout: KeyLayout.HASH_TAGGED },
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        onError: vi.fn(),
+      });
+
+      await circuit.start();
+
+      await expect(
+        circuit.execute(() => Promise.reject(new Error('fail'))),
+      ).rejects.toThrow('fail');
+      await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.OPEN));
+
+      expect(await redis.xlen('staging:{test}:call-result')).toBe(1);
+      expect(await redis.xlen('staging:{test}:state')).toBe(1);
+      expect(await redis.exists('zenvark:test:call-result')).toBe(0);
+
+      await circuit.stop();
+    });
+  });
+
+  describe('dynamic config', () => {
+    const createConfiguredCircuit = (
+      callResultRetention?: CallResultRetention,
+      onError = vi.fn(),
+    ) =>
+      new CircuitBreaker({
+        id: 'test',
+        redis,
+        breaker: new CountBreaker({
+          threshold: 0.5,
+          size: 10,
+          minimumNumberOfCalls: 10,
+        }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        callResultRetention,
+        dynamicConfig: true,
+        onError,
+      });
+
+    const countBreakerConfig = (size: number) => ({
+      breaker: {
+        type: BreakerStrategyType.COUNT,
+        threshold: 0.5,
+        size,
+        minimumNumberOfCalls: 10,
+      },
+    });
+
+    it('applies a wider window on every instance when the retention keeps it', async () => {
+      const first = createConfiguredCircuit({ maxEntries: 100 });
+      const second = createConfiguredCircuit({ maxEntries: 100 });
+      await Promise.all([first.start(), second.start()]);
+
+      const configVersion = await first.updateConfig(countBreakerConfig(50), {
+        reason: 'widen window',
+      });
+
+      await vi.waitFor(() => {
+        expect(first.config).toEqual(configVersion);
+        expect(second.config).toEqual(configVersion);
+      });
+
+      await Promise.all([first.stop(), second.stop()]);
+    });
+
+    it('rejects a window the retention cannot keep without writing it', async () => {
+      const circuit = createConfiguredCircuit();
+      await circuit.start();
+
+      await expect(
+        circuit.updateConfig(countBreakerConfig(50), {
+          reason: 'widen window',
+        }),
+      ).rejects.toThrow(
+        'Call result retention keeps 10 call results, but the strategy evaluates the last 50',
+      );
+      expect(await redis.exists('zenvark:test:config')).toBe(0);
+      expect(circuit.config).toBeNull();
+
+      await circuit.stop();
+    });
+
+    it('applies the latest config on start unless the retention cannot keep its window', async () => {
+      const writer = createConfiguredCircuit({ maxEntries: 100 });
+      await writer.start();
+      await writer.updateConfig(countBreakerConfig(20), { reason: 'first' });
+      await writer.stop();
+
+      const circuit = createConfiguredCircuit({ maxEntries: 20 });
+      await circuit.start();
+
+      expect(circuit.config).toEqual(
+        expect.objectContaining({ version: 1, reason: 'first' }),
+      );
+      await circuit.stop();
+
+      await writer.start();
+      await writer.updateConfig(countBreakerConfig(50), { reason: 'second' });
+      await writer.stop();
+
+      const onError = vi.fn();
+      const restarted = createConfiguredCircuit({ maxEntries: 20 }, onError);
+      await restarted.start();
+
+      expect(restarted.config).toBeNull();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Failed to apply breaker config version 2',
+        }),
+      );
+
+      await restarted.stop();
+    });
+  });
+
+  describe('degraded mode', () => {
+    const createDegradableCircuit = async () => {
+      const connection = redis.duplicate();
+
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis: connection,
+        sharedConnection: true,
+        degradedMode: true,
+        breaker: new ConsecutiveBreaker({ threshold: 2 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        onError: vi.fn(),
+      });
+
+      await circuit.start();
+
+      return { circuit, connection };
+    };
+
+    const fail = (circuit: CircuitBreaker) =>
+      circuit.execute(() => Promise.reject(new Error('fail'))).catch(() => {});
+
+    it('evaluates calls locally while Redis is unreachable', async () => {
+      const { circuit, connection } = await createDegradableCircuit();
+      const onDegradedModeChange = vi.fn();
+      const onStateChange = vi.fn();
+      circuit.on('degradedModeChange', onDegradedModeChange);
+      circuit.on('stateChange', onStateChange);
+
+      connection.disconnect();
+
+      await fail(circuit);
+      await fail(circuit);
+
+      expect(circuit.isDegraded).toBe(true);
+      expect(circuit.state).toBe(CircuitState.OPEN);
+      expect(onDegradedModeChange).toHaveBeenCalledWith(true);
+      expect(onStateChange).toHaveBeenCalledWith(
+        CircuitState.OPEN,
+        expect.objectContaining({
+          reason: StateChangeReason.BREAKER_TRIPPED,
+          details: { degraded: true },
+        }),
+      );
+      await expect(circuit.execute(() => Promise.resolve())).rejects.toThrow(
+        CircuitOpenError,
+      );
+
+      await connection.connect();
+      await circuit.stop();
+      connection.disconnect();
+    });
+
+    it('shares the local call results once Redis is back', async () => {
+      const { circuit, connection } = await createDegradableCircuit();
+      const onDegradedModeChange = vi.fn();
+      circuit.on('degradedModeChange', onDegradedModeChange);
+
+      connection.disconnect();
+
+      await fail(circuit);
+      await fail(circuit);
+
+      await connection.connect();
+      await fail(circuit);
+
+      await vi.waitFor(() => expect(circuit.isDegraded).toBe(false));
+      expect(onDegradedModeChange).toHaveBeenLastCalledWith(false);
+      expect(await redis.xlen('zenvark:test:call-result')).toBe(2);
+      await vi.waitFor(() => expect(circuit.state).toBe(CircuitState.OPEN));
+
+      await circuit.stop();
+      connection.disconnect();
+    });
+
+    it('leaves degraded mode once Redis is back without further calls', async () => {
+      const { circuit, connection } = await createDegradableCircuit();
+      const onDegradedModeChange = vi.fn();
+      circuit.on('degradedModeChange', onDegradedModeChange);
+
+      connection.disconnect();
+
+      await fail(circuit);
+      await fail(circuit);
+      expect(circuit.isDegraded).toBe(true);
+
+      await connection.connect();
+
+      await vi.waitFor(() => expect(circuit.isDegraded).toBe(false), {
+        timeout: 3000,
+      });
+      expect(onDegradedModeChange).toHaveBeenLastCalledWith(false);
+      expect(await redis.xlen('zenvark:test:call-result')).toBe(2);
+
+      await circuit.stop();
+      connection.disconnect();
+    });
+
+    it('shares calls recorded while the local call results are written', async () => {
+      const connection = redis.duplicate();
+      const circuit = new CircuitBreaker({
+        id: 'test',
+        redis: connection,
+        sharedConnection: true,
+        degradedMode: true,
+        breaker: new ConsecutiveBreaker({ threshold: 10 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        onError: vi.fn(),
+      });
+      await circuit.start();
+
+      connection.disconnect();
+
+      await fail(circuit);
+      await fail(circuit);
+
+      await connection.connect();
+
+      // Holds the writes until the calls below have been recorded
+      let releaseWrites = () => {};
+      const writesReleased = new Promise<void>((resolve) => {
+        releaseWrites = resolve;
+      });
+      const createPipeline = connection.pipeline.bind(connection);
+      vi.spyOn(connection, 'pipeline').mockImplementation((commands) => {
+        const pipeline = createPipeline(commands);
+        const exec = pipeline.exec.bind(pipeline);
+        pipeline.exec = () => writesReleased.then(() => exec());
+        return pipeline;
+      });
+
+      await fail(circuit);
+      await fail(circuit);
+      releaseWrites();
+
+      await vi.waitFor(() => expect(circuit.isDegraded).toBe(false));
+      await vi.waitFor(async () =>
+        expect(await redis.xlen('zenvark:test:call-result')).toBe(4),
+      );
+
+      await circuit.stop();
+      connection.disconnect();
+    });
+  });
 });
@@ -1,136 +1,531 @@
-import type { Redis } from 'ioredis';
+import { randomUUID } from 'node:crypto';
+import type {
+  BreakerBackend,
+  BreakerConfigStore,
+  BulkheadStore,
+  CallResultBucketStore,
+  CallResultEvaluator,
+  CallResultRetention,
+  CallResultStore,
+  CircuitStateStore,
+  LeaderElectionConfig,
+  LeaderElector,
+  StateRetention,
+  TrialPermitStore,
+} from './backends/breaker-backend.ts';
+import { RedisBackend } from './backends/redis/redis-backend.ts';
 import type { BackoffStrategy } from './backoffs/backoff-strategy.ts';
+import { createBackoffStrategy } from './backoffs/create-backoff-strategy.ts';
 import type { BreakerMetricsRecorder } from './breaker-metrics-recorder.ts';
-import type { BreakerStrategy } from './breakers/breaker-strategy.ts';
+import type {
+  BreakerSnapshot,
+  BreakerStrategy,
+} from './breakers/breaker-strategy.ts';
+import { countBucketedCallResults } from './breakers/count-call-results.ts';
+import { createBreakerStrategy } from './breakers/create-breaker-strategy.ts';
 import {
   CallResult,
+  CircuitMode,
   CircuitRole,
   CircuitState,
+  ErrorClassification,
+  FallbackReason,
   HealthCheckType,
+  StateChangeReason,
 } from './constants.ts';
-import { CircuitOpenError } from './errors/circuit-open-error.ts';
-import { LeaderElector } from './leader-elector.ts';
-import { CallResultStore } from './stores/call-result-store.ts';
-import { CircuitStateStore } from './stores/circuit-state-store.ts';
-import type { CallResultEvent } from './types.ts';
+import { BulkheadFullError } from './errors/bulkhead-full-error.ts';
+import { CallTimeoutError } from './errors/call-timeout-error.ts';
+import {
+  CircuitOpenError,
+  type CircuitOpenErrorDetails,
+} from './errors/circuit-open-error.ts';
+import { LocalCircuit, type LocalTransition } from './local-circuit.ts';
+import type {
+  BreakerConfig,
+  BreakerConfigVersion,
+  CallFailureEvent,
+  CallRejectedEvent,
+  CallResultBucket,
+  CallResultEvent,
+  CallSuccessEvent,
+  CircuitOverride,
+  ConfigChangeParams,
+  HealthCheckEvent,
+  OverrideParams,
+  StateHistoryEntry,
+  StateHistoryParams,
+  StateTransition,
+} from './types.ts';
 import { AbstractLifecycleManager } from './utils/abstract-lifecycle-manager.ts';
+import { assertNumberFields } from './utils/assert-number-fields.ts';
+import {
+  CallResultBatcher,
+  type CallResultFlush,
+} from './utils/call-result-batcher.ts';
+import {
+  describeRetentionShortfall,
+  isRetentionExceeded,
+} from './utils/call-result-retention.ts';
+import { delay } from './utils/delay.ts';
+import { estimateNextAttemptDelayMs } from './utils/estimate-next-attempt-delay.ts';
 import { HealthCheckManager } from './utils/health-check-manager.ts';
+import type { RedisClient } from './utils/redis-client.ts';
+import type { RedisKeyOptions } from './utils/redis-keys.ts';
+import type { RedisStreamReader } from './utils/redis-stream-reader.ts';
+import {
+  type EventListener,
+  TypedEventEmitter,
+} from './utils/typed-event-emitter.ts';
+
+/**
+ * Lifetime of a HALF_OPEN trial permit counter. If trial calls never report
+ * back (e.g. the instance running them crashed), a new batch is admitted after it.
+ */
+const TRIAL_PERMIT_TTL_MS = 60_000;
+
+/**
+ * Default lifetime of a bulkhead lease. Calls running longer than it stop
+ * counting towards the distributed limit.
+ */
+const DEFAULT_BULKHEAD_LEASE_TTL_MS = 60_000;
+
+const DEFAULT_STATE_RETENTION: StateRetention = { maxEntries: 10 };
+
+/**
+ * Retention of the call-result stream for strategies that do not describe their window.
+ */
+const DEFAULT_CALL_RESULT_RETENTION: CallResultRetention = { maxEntries: 1000 };
+
+/** Number of past versions kept in the change log of the shared breaker config */
+const CONFIG_MAX_VERSIONS = 100;
+
+/**
+ * Interval at which a breaker in degraded mode checks whether the backend is back,
+ * so that it leaves degraded mode even when no calls arrive.
+ */
+const BACKEND_AVAILABILITY_CHECK_INTERVAL_MS = 1000;
 
 type HealthConfig = {
   backoff: BackoffStrategy;
-  check: (type: HealthCheckType, signal: AbortSignal) => Promise<void>;
+  /**
+   * Probes the protected service. When omitted, recovery is attempted once the
+   * backoff delay elapses, and idle probes are disabled.
+   */
+  check?: (type: HealthCheckType, signal: AbortSignal) => Promise<void>;
   idleProbeIntervalMs?: number;
 };
 
+/** Strategies built from a shared config version */
+type ResolvedBreakerConfig = {
+  breaker: BreakerStrategy;
+  health: HealthConfig;
+};
+
+type HalfOpenConfig = {
+  /**
+   * Number of real calls admitted across all instances while HALF_OPEN.
+   * The circuit closes once all of them succeed and opens on the first failure.
+   */
+  maxTrialCalls: number;
+};
+
+type BulkheadConfig = {
+  /** Maximum number of concurrent calls across all instances */
+  maxConcurrent: number;
+  /** Maximum number of concurrent calls on this instance */
+  maxConcurrentLocal?: number;
+  /**
+   * Lifetime of a distributed permit in milliseconds, after which it is released
+   * even if the call has not completed. Defaults to 60 seconds.
+   */
+  leaseTtlMs?: number;
+};
+
+type CallResultBatchingConfig = {
+  /** Buffered results are written as soon as this many are buffered */
+  maxBatchSize: number;
+  /** Interval in milliseconds at which buffered results are written */
+  flushIntervalMs: number;
+  /**
+   * Maximum number of results buffered while writes are slow or failing.
+   * Beyond it, the oldest results are dropped. Defaults to 10 times `maxBatchSize`.
+   */
+  maxBufferSize?: number;
+};
+
+type CallResultBucketsConfig = {
+  /**
+   * Length of a bucket in milliseconds. Calls are evaluated in whole buckets, so keep it
+   * well below the strategy's window and the backoff delays.
+   */
+  bucketMs: number;
+  /** How long buckets are kept, in milliseconds. Must cover the strategy's window. */
+  retentionMs: number;
+  /** Interval in milliseconds at which each instance reads the buckets. Defaults to `bucketMs`. */
+  pollIntervalMs?: number;
+};
+
+/**
+ * Where call results are shared: a log of every call, or counters per time bucket.
+ */
+type CallResultStorage =
+  | { type: 'events'; store: CallResultStore }
+  | { type: 'buckets'; store: CallResultBucketStore; bucketMs: number };
+
+/**
+ * Whether a call may run. Trial calls also need a permit of the HALF_OPEN phase.
+ */
+type CallAdmission = 'allowed' | 'trial' | 'rejected';
+
 type OnErrorCallback = (err: Error) => void;
 type OnRoleChangeCallback = (role: CircuitRole) => void;
-type OnStateChangeCallback = (state: CircuitState) => void;
+type OnStateChangeCallback = (
+  state: CircuitState,
+  transition: StateTransition,
+) => void;
+type OnWouldBlockCallback = (state: CircuitState) => void;
+type ClassifyErrorCallback = (err: unknown) => ErrorClassification;
+type CreateOpenErrorCallback = (details: CircuitOpenErrorDetails) => Error;
+
+/**
+ * Produces a result instead of throwing when a call is rejected, times out or fails.
+ * Receives the error that would have been thrown.
+ */
+export type FallbackHandler<TResult> = (
+  err: unknown,
+) => TResult | Promise<TResult>;
+
+/**
+ * Events emitted by `CircuitBreaker`, mapped to the arguments their listeners receive.
+ */
+export type CircuitBreakerEvents = {
+  /** The circuit transitioned to a new state */
+  stateChange: [state: CircuitState, transition: StateTransition];
+  /** This instance became the leader or a follower */
+  roleChange: [role: CircuitRole];
+  /** A protected call completed */
+  callSuccess: [event: CallSuccessEvent];
+  /** A protected call threw, regardless of how the error was classified */
+  callFailure: [event: CallFailureEvent];
+  /** A call was rejected without being executed */
+  callRejected: [event: CallRejectedEvent];
+  /** A health check completed */
+  healthCheck: [event: HealthCheckEvent];
+  /** An internal error occurred, e.g. a Redis failure */
+  error: [err: Error];
+  /** The backend became unreachable and calls are evaluated locally, or the backend is back */
+  degradedModeChange: [active: boolean];
+  /** A version of the shared breaker config was applied */
+  configChange: [config: BreakerConfigVersion];
+  started: [];
+  stopped: [];
+};
 
-export type CircuitBreakerOptions = {
+export type CircuitBreakerOptions<TFallback = never> = {
   id: string;
-  redis: Redis;
+  /** Redis client the breaker stores its state through. Required unless `backend` is set. */
+  redis?: RedisClient;
+  /**
+   * Issue commands over `redis` itself instead of a dedicated duplicate. The connection
+   * must be connected by the caller, and is left open when the breaker stops.
+   */
+  sharedConnection?: boolean;
+  /**
+   * Reader shared with other breakers, so their streams are read over a single connection.
+   * It must be started and stopped by the caller. Defaults to a reader owned by the breaker.
+   */
+  streamReader?: RedisStreamReader;
+  /**
+   * Stores the state instead of `redis`, e.g. a `MemoryBackend`. It must be ready to use
+   * when the breaker starts; `redis`, `sharedConnection`, `streamReader` and `keys` are ignored.
+   */
+  backend?: BreakerBackend;
   breaker: BreakerStrategy;
   health: HealthConfig;
+  /** Identifies this instance in the state stream. Defaults to a random UUID. */
+  instanceId?: string;
+  /** How many past transitions the state stream keeps. Defaults to about 10 entries. */
+  stateRetention?: StateRetention;
+  /**
+   * How many past call results the call-result stream keeps. Defaults to the window of
+   * the breaker strategy, or 1000 entries if it does not describe one. A warning is
+   * logged if the retention may not cover the window.
+   */
+  callResultRetention?: CallResultRetention;
+  /**
+   * Timings of the leader election. Shorter ones replace a crashed leader sooner, at the
+   * cost of more Redis commands. A stopped leader is replaced right away regardless.
+   */
+  leaderElection?: LeaderElectionConfig;
+  /** Prefix and layout of the breaker's Redis keys. Defaults to `zenvark:<id>:<name>`. */
+  keys?: RedisKeyOptions;
+  halfOpen?: HalfOpenConfig;
+  /** Limits the number of concurrent calls. Calls over the limit are rejected with `BulkheadFullError`. */
+  bulkhead?: BulkheadConfig;
+  /**
+   * Buffers call results and writes them in batches instead of one write per call.
+   * Results keep the time they completed at, but reach the leader up to `flushIntervalMs` later.
+   */
+  callResultBatching?: CallResultBatchingConfig;
+  /**
+   * Shares call results as counters per time bucket instead of one stream entry per call,
+   * so instances read aggregated counts rather than every call. Requires a strategy
+   * implementing `shouldOpenCircuitFromBuckets` and a backend supporting buckets.
+   */
+  callResultBuckets?: CallResultBucketsConfig;
+  /**
+   * Evaluates the breaker strategy in the backend as each call result is recorded, so the
+   * instance seeing the call opens the circuit in the same round trip instead of waiting
+   * for the leader to read it. Recovery is still run by the leader. Requires a strategy
+   * implementing `toConfig`, a backend supporting it and event storage. Defaults to false.
+   */
+  serverSideEvaluation?: boolean;
+  /**
+   * Evaluates calls within this instance while the backend is unreachable, and shares their
+   * results once it reconnects. Defaults to false.
+   */
+  degradedMode?: boolean;
+  /**
+   * Watches the breaker config shared through the backend and applies each new version,
+   * replacing the strategies given by `breaker`, `health.backoff` and `health.idleProbeIntervalMs`.
+   * Requires a backend supporting shared config. Defaults to false.
+   */
+  dynamicConfig?: boolean;
+  /** Whether calls are rejected while the circuit is open. Defaults to `CircuitMode.ENFORCING`. */
+  mode?: CircuitMode;
   onError?: OnErrorCallback;
   onRoleChange?: OnRoleChangeCallback;
   onStateChange?: OnStateChangeCallback;
+  /** Called in shadow mode for each call that would have been rejected */
+  onWouldBlock?: OnWouldBlockCallback;
+  /** Decides how errors thrown by protected calls are recorded. By default every error is a failure. */
+  classifyError?: ClassifyErrorCallback;
+  /** Successful calls taking at least this long are recorded as `CallResult.SLOW` */
+  slowCallThresholdMs?: number;
+  /** Default timeout for protected calls. Timed out calls are aborted and recorded as failures. */
+  timeoutMs?: number;
+  /** Default fallback for calls that are rejected, time out or fail */
+  fallback?: FallbackHandler<TFallback>;
+  /** Creates the error thrown for calls rejected by the circuit. Defaults to `CircuitOpenError`. */
+  createOpenError?: CreateOpenErrorCallback;
   metrics?: BreakerMetricsRecorder;
 };
 
-export class CircuitBreaker extends AbstractLifecycleManager {
+export type ExecuteOptions<TFallback = never> = {
+  /** Overrides the breaker-level `classifyError` for this call */
+  classifyError?: ClassifyErrorCallback;
+  /** Overrides the breaker-level `timeoutMs` for this call */
+  timeoutMs?: number;
+  /** Overrides the breaker-level `fallback` for this call */
+  fallback?: FallbackHandler<TFallback>;
+};
+
+export class CircuitBreaker<
+  TFallback = never,
+> extends AbstractLifecycleManager {
   private readonly id: string;
-  private readonly redis: Redis;
-  private readonly breaker: BreakerStrategy;
-  private readonly health: HealthConfig;
+  private readonly _instanceId: string;
+  private readonly backend: BreakerBackend;
+  /** Backend created from the `redis` option, started and stopped with the breaker */
+  private readonly ownedBackend: RedisBackend | null;
+  private readonly initialBreaker: BreakerStrategy;
+  private readonly initialHealth: HealthConfig;
+  /** Strategies in use, replaced whenever a shared config version is applied */
+  private breaker: BreakerStrategy;
+  private health: HealthConfig;
+  private readonly halfOpen?: HalfOpenConfig;
+  private readonly bulkhead?: BulkheadConfig;
+  private readonly mode: CircuitMode;
+  private readonly degradedMode: boolean;
   private readonly onError?: OnErrorCallback;
   private readonly onRoleChange?: OnRoleChangeCallback;
   private readonly onStateChange?: OnStateChangeCallback;
+  private readonly onWouldBlock?: OnWouldBlockCallback;
+  private readonly errorClassifier?: ClassifyErrorCallback;
+  private readonly slowCallThresholdMs?: number;
+  private readonly timeoutMs?: number;
+  private readonly fallback?: FallbackHandler<TFallback>;
+  private readonly openErrorFactory?: CreateOpenErrorCallback;
   private readonly metrics?: BreakerMetricsRecorder;
+  private readonly callResultRetention: CallResultRetention;
 
   private readonly circuitStateStore: CircuitStateStore;
-  private readonly callResultStore: CallResultStore;
+  private readonly callResults: CallResultStorage;
+  /** Set with `serverSideEvaluation`, records call results in place of the call result store */
+  private readonly callResultEvaluator: CallResultEvaluator | null;
+  private readonly trialPermitStore: TrialPermitStore;
+  private readonly bulkheadStore: BulkheadStore;
+  private readonly callResultBatcher: CallResultBatcher | null;
   private readonly elector: LeaderElector;
+  private readonly configStore: BreakerConfigStore | null;
   private readonly healthCheckManager: HealthCheckManager;
 
-  constructor(options: CircuitBreakerOptions) {
+  private appliedConfig: BreakerConfigVersion | null = null;
+
+  private localConcurrentCalls = 0;
+
+  /** Circuit evaluated by this instance alone while the backend is unreachable */
+  private localCircuit: LocalCircuit | null = null;
+  private isReconciling = false;
+  private availabilityWatch: {
+    abortController: AbortController;
+    promise: Promise<void>;
+  } | null = null;
+
+  private readonly events = new TypedEventEmitter<CircuitBreakerEvents>({
+    onListenerError: (event, err) => {
+      if (event === 'error') {
+        console.error('[zenvark] Unhandled error:', err);
+        return;
+      }
+
+      this.handleError(`Listener for ${event} event failed`, err);
+    },
+  });
+
+  /** Errors thrown for rejected calls, tracked to recognize custom error types */
+  private readonly openErrors = new WeakSet<Error>();
+
+  constructor(options: CircuitBreakerOptions<TFallback>) {
     super();
     this.id = options.id;
-    this.redis = options.redis.duplicate({ lazyConnect: true });
+    this._instanceId = options.instanceId ?? randomUUID();
+    if (options.backend) {
+      this.backend = options.backend;
+      this.ownedBackend = null;
+    } else {
+      this.ownedBackend = this.createRedisBackend(options);
+      this.backend = this.ownedBackend;
+    }
+    this.initialBreaker = options.breaker;
+    this.initialHealth = options.health;
     this.breaker = options.breaker;
     this.health = options.health;
+    this.halfOpen = options.halfOpen;
+    this.bulkhead = options.bulkhead;
+    this.mode = options.mode ?? CircuitMode.ENFORCING;
+    this.degradedMode = options.degradedMode ?? false;
     this.onError = options.onError;
     this.onRoleChange = options.onRoleChange;
     this.onStateChange = options.onStateChange;
+    this.onWouldBlock = options.onWouldBlock;
+    this.errorClassifier = options.classifyError;
+    this.slowCallThresholdMs = options.slowCallThresholdMs;
+    this.timeoutMs = options.timeoutMs;
+    this.fallback = options.fallback;
+    this.openErrorFactory = options.createOpenError;
     this.metrics = options.metrics;
+    this.callResultRetention = this.resolveCallResultRetention(
+      options.callResultRetention,
+    );
 
     this.metrics?.initialize?.(this.id);
 
-    this.circuitStateStore = new CircuitStateStore({
-      redis: this.redis,
-      redisStreamKey: `zenvark:${this.id}:state`,
-      onStreamReadError: (err: unknown) => {
+    const stateRetention = options.stateRetention ?? DEFAULT_STATE_RETENTION;
+
+    this.circuitStateStore = this.backend.createCircuitStateStore({
+      breakerId: this.id,
+      instanceId: this._instanceId,
+      retention: stateRetention,
+      onReadError: (err: unknown) => {
         this.handleError('CircuitStateStore stream read error', err);
       },
-      onStreamWriteError: (err: unknown) => {
+      onWriteError: (err: unknown) => {
         this.handleError('CircuitStateStore stream write error', err);
+        this.enterDegradedMode();
       },
-      onStateChange: (state) => {
-        this.onStateChange?.(state);
+      getFencingToken: () => this.elector.fencingToken,
+      onWriteRejected: (err) => {
+        this.handleError('CircuitStateStore rejected a state transition', err);
       },
-    });
+      onStateChange: (transition) => {
+        // Only the writer records the transition, so it is counted once across instances
+        if (transition.instanceId === this._instanceId) {
+          this.metrics?.recordStateChange?.({
+            breakerId: this.id,
+            state: transition.state,
+            reason: transition.reason,
+          });
+        }
 
-    this.callResultStore = new CallResultStore({
-      redis: this.redis,
-      redisStreamKey: `zenvark:${this.id}:call-result`,
-      maxLen: 1000,
-      onStreamReadError: (err: unknown) => {
-        this.handleError('CallResultStore stream read error', err);
-      },
-      onStreamWriteError: (err: unknown) => {
-        this.handleError('CallResultStore stream write error', err);
+        // Opened by the backend while recording a call result, so the leader starts recovery
+        if (
+          this.callResultEvaluator &&
+          transition.reason === StateChangeReason.BREAKER_TRIPPED
+        ) {
+          void this.runRecoveryHealthChecks();
+        }
+
+        this.onStateChange?.(transition.state, transition);
+        this.events.emit('stateChange', transition.state, transition);
       },
-      onEventsAdded: (events) => {
-        void this.handleEventsAdded(events);
+      onOverrideChange: (override) => {
+        if (override) {
+          void this.stopHealthChecks();
+        } else {
+          void this.resumeLeaderDuties();
+        }
       },
     });
 
-    this.elector = new LeaderElector({
-      redis: this.redis,
-      key: `zenvark:${this.id}:leader`,
+    this.callResults = options.callResultBuckets
+      ? this.createCallResultBucketStorage(options.callResultBuckets)
+      : this.createCallResultEventStorage();
+
+    this.callResultEvaluator = options.serverSideEvaluation
+      ? this.createCallResultEvaluator(stateRetention)
+      : null;
+
+    this.callResultBatcher = options.callResultBatching
+      ? this.createCallResultBatcher(options.callResultBatching)
+      : null;
+
+    this.trialPermitStore = this.backend.createTrialPermitStore({
+      breakerId: this.id,
+      ttlMs: TRIAL_PERMIT_TTL_MS,
+    });
+
+    this.bulkheadStore = this.backend.createBulkheadStore({
+      breakerId: this.id,
+      leaseTtlMs: this.bulkhead?.leaseTtlMs ?? DEFAULT_BULKHEAD_LEASE_TTL_MS,
+    });
+
+    this.elector = this.backend.createLeaderElector({
+      breakerId: this.id,
+      election: options.leaderElection ?? {},
       onAcquireError: (err: unknown) => {
         this.handleError('LeaderElector acquire error', err);
       },
       onRoleChange: (role) => {
         if (role === CircuitRole.LEADER) {
-          if (this.state === CircuitState.OPEN) {
-            void this.runRecoveryHealthChecks();
-          } else if (this.health.idleProbeIntervalMs) {
-            void this.rescheduleIdleHealthChecks();
-          }
+          void this.resumeLeaderDuties();
         } else {
           void this.stopHealthChecks();
         }
 
         this.onRoleChange?.(role);
+        this.events.emit('roleChange', role);
       },
     });
 
+    this.configStore = options.dynamicConfig
+      ? this.createBreakerConfigStore()
+      : null;
+
     this.healthCheckManager = new HealthCheckManager({
       runCheck: async (type, signal) => {
+        const check = this.health.check;
+        if (!check) {
+          void this.onHealthCheckSuccess(type);
+          return;
+        }
+
         const startedAt = performance.now();
 
         try {
-          await this.health.check(type, signal);
-
-          if (this.metrics) {
-            const durationMs = performance.now() - startedAt;
-            this.metrics.recordHealthCheck({
-              breakerId: this.id,
-              type,
-              result: CallResult.SUCCESS,
-              durationMs,
-            });
-          }
+          await check(type, signal);
+
+          this.recordHealthCheck(type, CallResult.SUCCESS, startedAt);
 
           void this.onHealthCheckSuccess(type);
         } catch (err) {
@@ -138,15 +533,7 @@ export class CircuitBreaker extends AbstractLifecycleManager {
             return;
           }
 
-          if (this.metrics) {
-            const durationMs = performance.now() - startedAt;
-            this.metrics.recordHealthCheck({
-              breakerId: this.id,
-              type,
-              result: CallResult.FAILURE,
-              durationMs,
-            });
-          }
+          this.recordHealthCheck(type, CallResult.FAILURE, startedAt);
 
           this.handleError(`Failed to perform ${type} health check`, err);
 
@@ -156,54 +543,559 @@ export class CircuitBreaker extends AbstractLifecycleManager {
     });
   }
 
+  private createRedisBackend(
+    options: CircuitBreakerOptions<TFallback>,
+  ): RedisBackend {
+    if (!options.redis) {
+      throw new Error(
+        `Cannot create circuit breaker "${options.id}": either redis or backend must be set`,
+      );
+    }
+
+    return new RedisBackend({
+      redis: options.redis,
+      sharedConnection: options.sharedConnection,
+      streamReader: options.streamReader,
+      keys: options.keys,
+    });
+  }
+
+  /**
+   * Returns the configured retention, warning if it may not cover the strategy's window,
+   * or the retention the strategy requires.
+   */
+  private resolveCallResultRetention(
+    configured: CallResultRetention | undefined,
+  ): CallResultRetention {
+    if (!configured) {
+      return (
+        this.getRequiredCallResultRetention(this.breaker) ??
+        DEFAULT_CALL_RESULT_RETENTION
+      );
+    }
+
+    this.warnOnRetentionShortfall(configured, this.breaker);
+
+    return configured;
+  }
+
+  private warnOnRetentionShortfall(
+    retention: CallResultRetention,
+    breaker: BreakerStrategy,
+  ): void {
+    const required = this.getRequiredCallResultRetention(breaker);
+    const shortfall =
+      required && describeRetentionShortfall(retention, required);
+    if (shortfall) {
+      console.warn(
+        `[zenvark] Call result retention of circuit breaker "${this.id}" ${shortfall}`,
+      );
+    }
+  }
+
+  private getRequiredCallResultRetention(
+    breaker: BreakerStrategy,
+  ): CallResultRetention | undefined {
+    const required = breaker.getRequiredRetention?.();
+
+    // All trial calls of a HALF_OPEN phase are evaluated together
+    if (required && 'maxEntries' in required && this.halfOpen) {
+      return {
+        maxEntries: Math.max(required.maxEntries, this.halfOpen.maxTrialCalls),
+      };
+    }
+
+    return required;
+  }
+
+  private createCallResultEventStorage(): CallResultStorage {
+    const store = this.backend.createCallResultStore({
+      breakerId: this.id,
+      retention: this.callResultRetention,
+      onReadError: (err: unknown) => {
+        this.handleError('CallResultStore stream read error', err);
+      },
+      onWriteError: (err: unknown) => {
+        this.handleError('CallResultStore stream write error', err);
+        this.enterDegradedMode();
+      },
+      onEventsAdded: (events) => {
+        void this.handleEventsAdded(events);
+      },
+    });
+
+    return { type: 'events', store };
+  }
+
+  private createCallResultBucketStorage(
+    config: CallResultBucketsConfig,
+  ): CallResultStorage {
+    if (!this.breaker.shouldOpenCircuitFromBuckets) {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": ${this.breaker.constructor.name} cannot evaluate call result buckets`,
+      );
+    }
+
+    if (!this.backend.createCallResultBucketStore) {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": the backend does not support call result buckets`,
+      );
+    }
+
+    const store = this.backend.createCallResultBucketStore({
+      breakerId: this.id,
+      bucketMs: config.bucketMs,
+      retentionMs: config.retentionMs,
+      pollIntervalMs: config.pollIntervalMs ?? config.bucketMs,
+      onReadError: (err: unknown) => {
+        this.handleError('CallResultBucketStore read error', err);
+      },
+      onWriteError: (err: unknown) => {
+        this.handleError('CallResultBucketStore write error', err);
+        this.enterDegradedMode();
+      },
+      onBucketsUpdated: (buckets) => {
+        void this.handleBucketsUpdated(buckets);
+      },
+    });
+
+    return { type: 'buckets', store, bucketMs: config.bucketMs };
+  }
+
+  private createCallResultEvaluator(
+    stateRetention: StateRetention,
+  ): CallResultEvaluator {
+    if (this.callResults.type === 'buckets') {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": serverSideEvaluation cannot be combined with callResultBuckets`,
+      );
+    }
+
+    if (!this.breaker.toConfig) {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": ${this.breaker.constructor.name} cannot be evaluated by the backend`,
+      );
+    }
+
+    if (!this.backend.createCallResultEvaluator) {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": the backend does not support server-side evaluation`,
+      );
+    }
+
+    return this.backend.createCallResultEvaluator({
+      breakerId: this.id,
+      instanceId: this._instanceId,
+      retention: this.callResultRetention,
+      stateRetention,
+    });
+  }
+
+  private createBreakerConfigStore(): BreakerConfigStore {
+    if (!this.backend.createBreakerConfigStore) {
+      throw new Error(
+        `Cannot create circuit breaker "${this.id}": the backend does not support dynamic config`,
+      );
+    }
+
+    return this.backend.createBreakerConfigStore({
+      breakerId: this.id,
+      maxVersions: CONFIG_MAX_VERSIONS,
+      onReadError: (err: unknown) => {
+        this.handleError('BreakerConfigStore stream read error', err);
+      },
+      onConfigChange: (config) => {
+        this.applyConfig(config);
+      },
+    });
+  }
+
+  /**
+   * Builds the strategies described by a shared config. Settings left out fall back
+   * to the options the breaker was created with. Throws if the config is invalid or
+   * its strategy evaluates more call results than the retention keeps.
+   */
+  private resolveBreakerConfig(config: BreakerConfig): ResolvedBreakerConfig {
+    assertNumberFields(config, [], ['idleProbeIntervalMs']);
+
+    const breaker = config.breaker
+      ? createBreakerStrategy(config.breaker)
+      : this.initialBreaker;
+
+    if (
+      this.callResults.type === 'buckets' &&
+      !breaker.shouldOpenCircuitFromBuckets
+    ) {
+      throw new Error(
+        `${breaker.constructor.name} cannot evaluate call result buckets`,
+      );
+    }
+
+    // The call-result stream keeps the retention the breaker was created with,
+    // so a strategy evaluating more call results than it holds is rejected
+    const required =
+      config.breaker &&
+      this.callResults.type === 'events' &&
+      this.getRequiredCallResultRetention(breaker);
+    if (required && isRetentionExceeded(this.callResultRetention, required)) {
+      throw new Error(
+        `Call result retention ${describeRetentionShortfall(this.callResultRetention, required)}`,
+      );
+    }
+
+    return {
+      breaker,
+      health: {
+        ...this.initialHealth,
+        backoff: config.backoff
+          ? createBackoffStrategy(config.backoff)
+          : this.initialHealth.backoff,
+        idleProbeIntervalMs:
+          config.idleProbeIntervalMs ?? this.initialHealth.idleProbeIntervalMs,
+      },
+    };
+  }
+
+  /**
+   * Switches to the strategies of a shared config version and re-evaluates the circuit
+   * with them. An invalid version is reported and the current strategies are kept.
+   */
+  private applyConfig(configVersion: BreakerConfigVersion): void {
+    let resolved: ResolvedBreakerConfig;
+    try {
+      resolved = this.resolveBreakerConfig(configVersion.config);
+    } catch (err) {
+      this.handleError(
+        `Failed to apply breaker config version ${configVersion.version}`,
+        err,
+      );
+      return;
+    }
+
+    // A retention of another kind than the strategy's window may still cover it
+    this.warnOnRetentionShortfall(this.callResultRetention, resolved.breaker);
+
+    this.breaker = resolved.breaker;
+    this.health = resolved.health;
+    this.appliedConfig = configVersion;
+
+    this.events.emit('configChange', configVersion);
+
+    void this.reevaluateCircuit();
+  }
+
+  private createCallResultBatcher(
+    config: CallResultBatchingConfig,
+  ): CallResultBatcher {
+    return new CallResultBatcher({
+      maxBatchSize: config.maxBatchSize,
+      flushIntervalMs: config.flushIntervalMs,
+      maxBufferSize: config.maxBufferSize ?? config.maxBatchSize * 10,
+      write: (results) => this.writeCallResults(results),
+      onFlush: (flush) => {
+        this.handleCallResultFlush(flush);
+      },
+      onDrop: (count) => {
+        this.metrics?.recordDroppedCallResults?.({ breakerId: this.id, count });
+      },
+    });
+  }
+
   protected override async startInternal(): Promise<void> {
-    await this.redis.connect();
+    await this.ownedBackend?.start();
 
     await Promise.all([
-      this.callResultStore.start(),
+      this.callResults.store.start(),
       this.circuitStateStore.start(),
+      this.configStore?.start(),
     ]);
 
+    const config = this.configStore?.getConfig();
+    if (config) {
+      this.applyConfig(config);
+    }
+
+    await this.callResultBatcher?.start();
+
     await this.elector.start();
+
+    this.events.emit('started');
   }
 
   protected override async stopInternal(): Promise<void> {
+    if (this.availabilityWatch) {
+      this.availabilityWatch.abortController.abort();
+      await this.availabilityWatch.promise;
+      this.availabilityWatch = null;
+    }
+
+    // Buffered results are written before the stores stop
+    await this.callResultBatcher?.stop();
+
     await Promise.all([
-      this.callResultStore.stop(),
+      this.callResults.store.stop(),
       this.circuitStateStore.stop(),
+      this.configStore?.stop(),
       this.elector.stop(),
       this.stopHealthChecks(),
     ]);
 
-    await this.redis.quit();
+    this.localCircuit = null;
+
+    await this.ownedBackend?.stop();
+
+    this.events.emit('stopped');
+  }
+
+  /**
+   * Adds a listener for the event. Listeners can be added at any time,
+   * and errors they throw are reported as `error` events.
+   */
+  on<TEvent extends keyof CircuitBreakerEvents>(
+    event: TEvent,
+    listener: EventListener<CircuitBreakerEvents[TEvent]>,
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Adds a listener that is removed after its first call.
+   */
+  once<TEvent extends keyof CircuitBreakerEvents>(
+    event: TEvent,
+    listener: EventListener<CircuitBreakerEvents[TEvent]>,
+  ): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener added with `on()` or `once()`.
+   */
+  off<TEvent extends keyof CircuitBreakerEvents>(
+    event: TEvent,
+    listener: EventListener<CircuitBreakerEvents[TEvent]>,
+  ): this {
+    this.events.off(event, listener);
+    return this;
   }
 
   get role(): CircuitRole {
     return this.elector.isLeader ? CircuitRole.LEADER : CircuitRole.FOLLOWER;
   }
 
+  /**
+   * The current state. While in degraded mode, the state evaluated by this instance.
+   */
   get state(): CircuitState {
-    return this.circuitStateStore.getState();
+    return this.localCircuit?.state ?? this.circuitStateStore.getState();
+  }
+
+  /**
+   * Whether the backend is unreachable and calls are evaluated by this instance alone.
+   */
+  get isDegraded(): boolean {
+    return this.localCircuit !== null;
+  }
+
+  /**
+   * Identifies this instance as the writer of state transitions.
+   */
+  get instanceId(): string {
+    return this._instanceId;
+  }
+
+  /**
+   * The latest state transition, including why it happened and which instance wrote it.
+   */
+  get lastTransition(): StateTransition {
+    return this.circuitStateStore.getLastTransition();
+  }
+
+  /**
+   * Reads past state transitions shared by all instances, ordered from oldest to newest.
+   * How far back it reaches depends on `stateRetention`.
+   */
+  async getStateHistory(
+    params: StateHistoryParams = {},
+  ): Promise<StateHistoryEntry[]> {
+    return this.circuitStateStore.getHistory(params);
+  }
+
+  /**
+   * The active manual override, or null if the circuit is managed automatically.
+   */
+  get override(): CircuitOverride | null {
+    return this.circuitStateStore.getOverride();
+  }
+
+  /**
+   * Forces the circuit OPEN on all instances until `clearOverride()` is called.
+   * Neither call results nor health checks close it in the meantime.
+   */
+  async forceOpen(params: OverrideParams): Promise<void> {
+    await this.circuitStateStore.setOverride(CircuitState.OPEN, params);
+  }
+
+  /**
+   * Forces the circuit CLOSED on all instances until `clearOverride()` is called.
+   * Neither call results nor health checks open it in the meantime.
+   */
+  async forceClose(params: OverrideParams): Promise<void> {
+    await this.circuitStateStore.setOverride(CircuitState.CLOSED, params);
+  }
+
+  /**
+   * Returns the circuit to automatic management, starting from its current state.
+   * Does nothing if no override is active.
+   */
+  async clearOverride(params: OverrideParams): Promise<void> {
+    if (!this.override) {
+      return;
+    }
+
+    await this.circuitStateStore.clearOverride(params);
+  }
+
+  /**
+   * The shared config version in use, or null if the breaker runs with the options it was
+   * created with.
+   */
+  get config(): BreakerConfigVersion | null {
+    return this.appliedConfig;
+  }
+
+  /**
+   * Writes a new version of the shared config, which every instance with `dynamicConfig`
+   * applies within moments. Settings left out fall back to the options each instance was
+   * created with. Throws if the config is invalid or `dynamicConfig` is disabled.
+   *
+   * The call-result retention is fixed when the breaker is created, so a strategy whose
+   * window exceeds it, e.g. a `CountBreaker` with a larger `size`, is rejected. Set
+   * `callResultRetention` to cover the widest window a config may switch to.
+   */
+  async updateConfig(
+    config: BreakerConfig,
+    params: ConfigChangeParams,
+  ): Promise<BreakerConfigVersion> {
+    if (!this.configStore) {
+      throw new Error(
+        `Cannot update config of circuit breaker "${this.id}": dynamicConfig is disabled`,
+      );
+    }
+
+    // Invalid configs are rejected before they reach other instances
+    this.resolveBreakerConfig(config);
+
+    return this.configStore.setConfig(config, params);
+  }
+
+  /**
+   * Reads past versions of the shared config, ordered from oldest to newest.
+   * Empty if `dynamicConfig` is disabled.
+   * @param limit Maximum number of versions, counted from the newest
+   */
+  async getConfigHistory(limit?: number): Promise<BreakerConfigVersion[]> {
+    return this.configStore?.getHistory(limit) ?? [];
+  }
+
+  /**
+   * Returns true if this instance is the leader and the circuit is not manually overridden.
+   */
+  private get isManagingState(): boolean {
+    return this.elector.isLeader && !this.override;
+  }
+
+  /**
+   * Starts the leader duties matching the current state. Called when this instance
+   * becomes the leader or when a manual override is cleared.
+   */
+  private async resumeLeaderDuties(): Promise<void> {
+    if (!this.isManagingState) {
+      return;
+    }
+
+    const state = this.circuitStateStore.getState();
+
+    if (state === CircuitState.OPEN) {
+      await this.runRecoveryHealthChecks();
+    } else if (state === CircuitState.HALF_OPEN) {
+      await this.evaluateCallResults();
+    } else {
+      await this.rescheduleIdleHealthChecks();
+    }
+  }
+
+  /**
+   * Applies changed strategies to the current state: restarts recovery checks with the
+   * new backoff while OPEN, and evaluates the shared call results with the new breaker
+   * strategy otherwise.
+   */
+  private async reevaluateCircuit(): Promise<void> {
+    if (!this.isManagingState) {
+      return;
+    }
+
+    const state = this.circuitStateStore.getState();
+
+    if (state === CircuitState.OPEN) {
+      await this.runRecoveryHealthChecks();
+      return;
+    }
+
+    if (state === CircuitState.CLOSED && !this.health.idleProbeIntervalMs) {
+      await this.stopHealthChecks();
+    }
+
+    await this.evaluateCallResults();
+  }
+
+  private async evaluateCallResults(): Promise<void> {
+    if (this.callResults.type === 'buckets') {
+      await this.handleBucketsUpdated(this.callResults.store.getBuckets());
+    } else {
+      await this.handleEventsAdded(this.callResults.store.getEvents());
+    }
   }
 
   private async onHealthCheckSuccess(type: HealthCheckType) {
-    if (!this.elector.isLeader) {
+    if (!this.isManagingState) {
+      return;
+    }
+
+    if (type !== HealthCheckType.RECOVERY) {
       return;
     }
 
-    if (type === HealthCheckType.RECOVERY) {
-      await this.circuitStateStore.setState(CircuitState.CLOSED);
+    if (this.halfOpen) {
+      await this.circuitStateStore.setState(
+        CircuitState.HALF_OPEN,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+        { healthCheckType: type },
+      );
+      await this.stopHealthChecks();
+    } else {
+      await this.circuitStateStore.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.RECOVERY_CHECK_PASSED,
+        { healthCheckType: type },
+      );
       await this.rescheduleIdleHealthChecks();
     }
   }
 
   private async onHealthCheckFailure(type: HealthCheckType) {
-    if (!this.elector.isLeader) {
+    if (!this.isManagingState) {
       return;
     }
 
     if (type === HealthCheckType.IDLE) {
-      await this.circuitStateStore.setState(CircuitState.OPEN);
+      await this.circuitStateStore.setState(
+        CircuitState.OPEN,
+        StateChangeReason.IDLE_CHECK_FAILED,
+        { healthCheckType: type },
+      );
       await this.runRecoveryHealthChecks();
     }
   }
@@ -213,7 +1105,7 @@ export class CircuitBreaker extends AbstractLifecycleManager {
   }
 
   private async runRecoveryHealthChecks(): Promise<void> {
-    if (!this.elector.isLeader) {
+    if (!this.isManagingState) {
       return;
     }
 
@@ -224,15 +1116,17 @@ export class CircuitBreaker extends AbstractLifecycleManager {
   }
 
   private async rescheduleIdleHealthChecks(): Promise<void> {
-    if (!this.health.idleProbeIntervalMs || !this.elector.isLeader) {
+    if (
+      !this.health.idleProbeIntervalMs ||
+      !this.health.check ||
+      !this.isManagingState
+    ) {
       return;
     }
 
-    const lastEventTimestamp = this.callResultStore
-      .getEvents()
-      .at(-1)?.timestamp;
-    const initialExecutionStartMs = lastEventTimestamp
-      ? lastEventTimestamp + this.health.idleProbeIntervalMs
+    const lastCallTimestamp = this.getLastCallTimestamp();
+    const initialExecutionStartMs = lastCallTimestamp
+      ? lastCallTimestamp + this.health.idleProbeIntervalMs
       : 0;
 
     await this.healthCheckManager.restart({
@@ -246,8 +1140,23 @@ export class CircuitBreaker extends AbstractLifecycleManager {
     });
   }
 
+  /**
+   * Returns the Unix timestamp (in milliseconds) of the latest shared call. In bucket
+   * storage, this is the end of the latest bucket.
+   */
+  private getLastCallTimestamp(): number | undefined {
+    if (this.callResults.type === 'buckets') {
+      const lastBucket = this.callResults.store.getBuckets().at(-1);
+      return lastBucket && lastBucket.timestamp + this.callResults.bucketMs;
+    }
+
+    return this.callResults.store.getEvents().at(-1)?.timestamp;
+  }
+
   private handleEventsAdded = async (events: CallResultEvent[]) => {
-    if (!this.elector.isLeader || this.state === CircuitState.OPEN) {
+    const state = this.circuitStateStore.getState();
+
+    if (!this.isManagingState || state === CircuitState.OPEN) {
       return;
     }
 
@@ -259,19 +1168,118 @@ export class CircuitBreaker extends AbstractLifecycleManager {
       (event) => event.timestamp >= lastStateChangeTimestamp,
     );
 
-    if (this.shouldOpenCircuit(recentEvents)) {
-      await this.circuitStateStore.setState(CircuitState.OPEN);
-      await this.runRecoveryHealthChecks();
+    if (state === CircuitState.HALF_OPEN) {
+      const failures = recentEvents.filter(
+        (event) => event.callResult !== CallResult.SUCCESS,
+      ).length;
+      await this.evaluateTrialCalls(recentEvents.length, failures);
+      return;
+    }
+
+    // With server-side evaluation, the backend opens the circuit as results are recorded
+    if (!this.callResultEvaluator && this.shouldOpenCircuit(recentEvents)) {
+      await this.tripCircuit(this.breaker.getSnapshot?.(recentEvents));
     } else if (this.health.idleProbeIntervalMs) {
       await this.rescheduleIdleHealthChecks();
     }
   };
 
-  private async recordCallResult(
-    callResult: CallResult,
-    callStartedAtMs: number,
-  ) {
-    const durationMs = performance.now() - callStartedAtMs;
+  private handleBucketsUpdated = async (buckets: CallResultBucket[]) => {
+    const state = this.circuitStateStore.getState();
+
+    if (
+      !this.isManagingState ||
+      state === CircuitState.OPEN ||
+      this.callResults.type !== 'buckets'
+    ) {
+      return;
+    }
+
+    // Buckets ending before the last state change are left out. The bucket it falls into
+    // is kept, as its calls cannot be told apart, which is why buckets should be shorter
+    // than the backoff delays.
+    const lastStateChangeTimestamp =
+      this.circuitStateStore.getLastStateChangeTimestamp();
+    const bucketMs = this.callResults.bucketMs;
+    const recentBuckets = buckets.filter(
+      (bucket) => bucket.timestamp + bucketMs > lastStateChangeTimestamp,
+    );
+
+    if (state === CircuitState.HALF_OPEN) {
+      const counts = countBucketedCallResults(recentBuckets);
+      await this.evaluateTrialCalls(
+        counts.calls,
+        counts.failures + counts.slowCalls,
+      );
+      return;
+    }
+
+    if (
+      recentBuckets.length > 0 &&
+      this.breaker.shouldOpenCircuitFromBuckets?.(recentBuckets)
+    ) {
+      await this.tripCircuit(this.breaker.getBucketSnapshot?.(recentBuckets));
+    } else if (this.health.idleProbeIntervalMs) {
+      await this.rescheduleIdleHealthChecks();
+    }
+  };
+
+  /**
+   * Opens the circuit because the breaker strategy tripped, and starts recovery.
+   */
+  private async tripCircuit(snapshot?: BreakerSnapshot): Promise<void> {
+    await this.circuitStateStore.setState(
+      CircuitState.OPEN,
+      StateChangeReason.BREAKER_TRIPPED,
+      {
+        strategy: this.breaker.constructor.name,
+        snapshot,
+      },
+    );
+    await this.runRecoveryHealthChecks();
+  }
+
+  /**
+   * Decides the outcome of a HALF_OPEN phase from the trial calls recorded since it began.
+   * Slow trial calls count as failures.
+   */
+  private async evaluateTrialCalls(
+    trialCalls: number,
+    failures: number,
+  ): Promise<void> {
+    if (failures > 0) {
+      await this.circuitStateStore.setState(
+        CircuitState.OPEN,
+        StateChangeReason.TRIAL_CALL_FAILED,
+        { snapshot: { trialCalls, failures } },
+      );
+      await this.runRecoveryHealthChecks();
+      return;
+    }
+
+    const maxTrialCalls = this.halfOpen?.maxTrialCalls ?? 1;
+    if (trialCalls >= maxTrialCalls) {
+      await this.circuitStateStore.setState(
+        CircuitState.CLOSED,
+        StateChangeReason.TRIAL_CALLS_PASSED,
+        { snapshot: { trialCalls } },
+      );
+      await this.rescheduleIdleHealthChecks();
+    }
+  }
+
+  /**
+   * Reports the call to metrics and stores it for evaluation by the leader.
+   * Returns the recorded result, which is `CallResult.SLOW` for slow successful calls.
+   */
+  private recordCallResult(
+    outcome: CallResult,
+    durationMs: number,
+  ): CallResult {
+    const callResult =
+      outcome === CallResult.SUCCESS && this.isSlowCall(durationMs)
+        ? CallResult.SLOW
+        : outcome;
 
     this.metrics?.recordCall({
       breakerId: this.id,
@@ -279,28 +1287,553 @@ export class CircuitBreaker extends AbstractLifecycleManager {
       durationMs,
     });
 
-    await this.callResultStore.storeCallResult(callResult);
+    if (this.localCircuit) {
+      const transition = this.localCircuit.record(callResult);
+      if (transition) {
+        this.emitLocalTransition(transition);
+      }
+    } else if (this.callResultBatcher) {
+      this.callResultBatcher.add({ callResult, timestamp: Date.now() });
+    } else if (this.callResultEvaluator) {
+      void this.evaluateCallResult(callResult);
+    } else {
+      void this.callResults.store.storeCallResult(callResult);
+    }
+
+    return callResult;
+  }
+
+  /**
+   * Records a call result through the backend, which opens the circuit if the strategy trips.
+   */
+  private async evaluateCallResult(callResult: CallResult): Promise<void> {
+    try {
+      await this.writeCallResults([{ callResult, timestamp: Date.now() }]);
+    } catch (err) {
+      this.handleError('CallResultEvaluator write error', err);
+      this.enterDegradedMode();
+    }
+  }
+
+  /**
+   * Writes call results keeping their timestamps, evaluating the breaker strategy on them
+   * with server-side evaluation. Errors are thrown to the caller.
+   */
+  private async writeCallResults(
+    results: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  ): Promise<void> {
+    if (this.callResultEvaluator) {
+      await this.callResultEvaluator.recordCallResults(results, this.breaker);
+    } else {
+      await this.callResults.store.storeCallResults(results);
+    }
+  }
+
+  private handleCallResultFlush(flush: CallResultFlush): void {
+    this.metrics?.recordCallResultFlush?.({
+      breakerId: this.id,
+      result: 'error' in flush ? CallResult.FAILURE : CallResult.SUCCESS,
+      batchSize: flush.batchSize,
+      durationMs: flush.durationMs,
+    });
+
+    if ('error' in flush) {
+      this.handleError('CallResultStore stream write error', flush.error);
+      this.enterDegradedMode();
+    }
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    if (this.state === CircuitState.OPEN) {
-      this.metrics?.recordBlockedRequest({ breakerId: this.id });
+  /**
+   * Switches to evaluating calls locally. An active manual override stays in force instead.
+   */
+  private enterDegradedMode(): void {
+    if (
+      !this.degradedMode ||
+      this.localCircuit ||
+      !this.isOperational ||
+      this.override
+    ) {
+      return;
+    }
+
+    this.localCircuit = new LocalCircuit({
+      breaker: this.breaker,
+      backoff: this.health.backoff,
+      retention: this.callResultRetention,
+      initialState: this.circuitStateStore.getState(),
+      initialStateTimestamp:
+        this.circuitStateStore.getLastStateChangeTimestamp(),
+    });
 
-      throw new CircuitOpenError(this.id);
+    // Leader duties need the backend and resume once it is back
+    void this.stopHealthChecks();
+
+    // A watch left from the previous degraded mode may not have ended yet
+    this.availabilityWatch?.abortController.abort();
+    const abortController = new AbortController();
+    this.availabilityWatch = {
+      abortController,
+      promise: this.watchBackendAvailability(abortController.signal),
+    };
+
+    this.events.emit('degradedModeChange', true);
+  }
+
+  /**
+   * Leaves degraded mode once the backend is available again. Ends with degraded mode.
+   */
+  private async watchBackendAvailability(signal: AbortSignal): Promise<void> {
+    while (this.localCircuit) {
+      await delay(BACKEND_AVAILABILITY_CHECK_INTERVAL_MS, signal);
+      if (signal.aborted) {
+        return;
+      }
+
+      if (this.backend.isAvailable()) {
+        await this.leaveDegradedMode();
+      }
+    }
+  }
+
+  /**
+   * Shares the call results recorded locally and switches back to the shared state.
+   * Stays in degraded mode if the results cannot be written.
+   */
+  private async leaveDegradedMode(): Promise<void> {
+    const localCircuit = this.localCircuit;
+    if (!localCircuit || this.isReconciling) {
+      return;
     }
 
-    const startedAt = performance.now();
+    this.isReconciling = true;
 
     try {
-      const result = await fn();
+      const events = localCircuit.getEvents();
+      const lastSharedId = events.at(-1)?.id;
 
-      void this.recordCallResult(CallResult.SUCCESS, startedAt);
+      await this.writeCallResults(events);
 
-      return result;
+      this.localCircuit = null;
+
+      // Calls completed while the results were being written. Recording replaces
+      // the events array and trims the oldest entries, so the results after the
+      // last shared one are looked up again; if it was trimmed, all are new.
+      const recordedEvents = localCircuit.getEvents();
+      const lastSharedIndex = recordedEvents.findIndex(
+        (event) => event.id === lastSharedId,
+      );
+      const pendingEvents = recordedEvents.slice(lastSharedIndex + 1);
+
+      if (pendingEvents.length > 0) {
+        void this.writeCallResults(pendingEvents).catch((err: unknown) => {
+          this.handleError('CallResultStore stream write error', err);
+        });
+      }
     } catch (err) {
-      void this.recordCallResult(CallResult.FAILURE, startedAt);
+      this.handleError(
+        'Failed to share call results recorded in degraded mode',
+        err,
+      );
+      return;
+    } finally {
+      this.isReconciling = false;
+    }
+
+    this.events.emit('degradedModeChange', false);
+
+    if (localCircuit.state !== this.circuitStateStore.getState()) {
+      const transition = this.circuitStateStore.getLastTransition();
+      this.onStateChange?.(transition.state, transition);
+      this.events.emit('stateChange', transition.state, transition);
+    }
+
+    await this.resumeLeaderDuties();
+  }
+
+  /**
+   * Enters or leaves degraded mode based on the availability of the backend.
+   */
+  private checkBackendAvailability(): void {
+    if (!this.degradedMode || !this.isOperational) {
+      return;
+    }
+
+    if (!this.backend.isAvailable()) {
+      this.enterDegradedMode();
+    } else if (this.localCircuit) {
+      void this.leaveDegradedMode();
+    }
+  }
+
+  private emitLocalTransition(transition: LocalTransition): void {
+    const stateTransition: StateTransition = {
+      state: transition.state,
+      reason: transition.reason,
+      details: { degraded: true },
+      instanceId: this._instanceId,
+      timestamp: Date.now(),
+    };
+
+    this.onStateChange?.(transition.state, stateTransition);
+    this.events.emit('stateChange', transition.state, stateTransition);
+  }
+
+  private recordHealthCheck(
+    type: HealthCheckType,
+    result: CallResult,
+    checkStartedAtMs: number,
+  ): void {
+    const durationMs = performance.now() - checkStartedAtMs;
+
+    this.metrics?.recordHealthCheck({
+      breakerId: this.id,
+      type,
+      result,
+      durationMs,
+    });
+
+    this.events.emit('healthCheck', { type, result, durationMs });
+  }
+
+  /**
+   * Executes `fn` with circuit breaker protection. The signal passed to `fn`
+   * is aborted when the call times out. The result of the per-call fallback
+   * is returned instead of throwing.
+   */
+  execute<T, TCallFallback>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<TCallFallback> & {
+      fallback: FallbackHandler<TCallFallback>;
+    },
+  ): Promise<T | TCallFallback>;
+  /**
+   * Executes `fn` with circuit breaker protection. The signal passed to `fn`
+   * is aborted when the call times out. If the breaker has a fallback, its result
+   * is returned instead of throwing.
+   */
+  execute<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: ExecuteOptions,
+  ): Promise<T | TFallback>;
+  async execute<T, TCallFallback>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<TCallFallback> = {},
+  ): Promise<T | TFallback | TCallFallback> {
+    const fallback: FallbackHandler<TFallback | TCallFallback> | undefined =
+      options.fallback ?? this.fallback;
 
-      throw err;
+    if (!fallback) {
+      return this.executeProtected(fn, options);
+    }
+
+    try {
+      return await this.executeProtected(fn, options);
+    } catch (err) {
+      this.metrics?.recordFallback?.({
+        breakerId: this.id,
+        reason: this.getFallbackReason(err),
+      });
+
+      return fallback(err);
+    }
+  }
+
+  private async executeProtected<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<unknown>,
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const admission = this.admitCall();
+
+    if (admission === 'rejected') {
+      return this.blockCall(() =>
+        this.runInBulkhead(() => this.runWithTimeout(fn, timeoutMs)),
+      );
+    }
+
+    return this.runInBulkhead(async () => {
+      // Taken once the call holds its lease, so a call rejected by the bulkhead keeps no permit
+      let trialPhaseId: string | null = null;
+      if (admission === 'trial') {
+        trialPhaseId = await this.tryAcquireTrialPermit();
+
+        if (trialPhaseId === null) {
+          return this.blockCall(() => this.runWithTimeout(fn, timeoutMs));
+        }
+      }
+
+      const startedAt = performance.now();
+
+      try {
+        const result = await this.runWithTimeout(fn, timeoutMs);
+
+        const durationMs = performance.now() - startedAt;
+        const callResult = this.recordCallResult(
+          CallResult.SUCCESS,
+          durationMs,
+        );
+        this.events.emit('callSuccess', { result: callResult, durationMs });
+
+        return result;
+      } catch (err) {
+        const durationMs = performance.now() - startedAt;
+        const classification =
+          err instanceof CallTimeoutError
+            ? ErrorClassification.FAILURE
+            : this.classifyError(err, options);
+
+        if (classification !== ErrorClassification.IGNORED) {
+          this.recordCallResult(
+            classification === ErrorClassification.SUCCESS
+              ? CallResult.SUCCESS
+              : CallResult.FAILURE,
+            durationMs,
+          );
+        } else if (trialPhaseId !== null) {
+          // The leader waits for the results of all permits, so an unrecorded trial hands its permit back
+          void this.releaseTrialPermit(trialPhaseId);
+        }
+
+        this.events.emit('callFailure', {
+          error: err,
+          classification,
+          durationMs,
+        });
+
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Runs `run` once both the local and the distributed concurrency limits admit it.
+   * Rejected calls throw `BulkheadFullError` and are not recorded as call results.
+   */
+  private async runInBulkhead<T>(run: () => Promise<T>): Promise<T> {
+    if (!this.bulkhead) {
+      return run();
+    }
+
+    const { maxConcurrent, maxConcurrentLocal } = this.bulkhead;
+
+    if (
+      maxConcurrentLocal !== undefined &&
+      this.localConcurrentCalls >= maxConcurrentLocal
+    ) {
+      this.metrics?.recordBulkheadRejection?.({ breakerId: this.id });
+      throw this.rejectCall(new BulkheadFullError(this.id));
+    }
+
+    // Counted before the lease is acquired, so concurrent callers waiting on the backend see each other
+    this.localConcurrentCalls++;
+
+    try {
+      const leaseId = await this.acquireBulkheadLease(maxConcurrent);
+
+      if (leaseId === null) {
+        this.metrics?.recordBulkheadRejection?.({ breakerId: this.id });
+        throw this.rejectCall(new BulkheadFullError(this.id));
+      }
+
+      try {
+        return await run();
+      } finally {
+        if (leaseId !== undefined) {
+          void this.releaseBulkheadLease(leaseId);
+        }
+      }
+    } finally {
+      this.localConcurrentCalls--;
+    }
+  }
+
+  /**
+   * Returns the acquired lease id, null if the distributed limit is reached,
+   * or undefined if the backend is unavailable, in which case the call is admitted.
+   */
+  private async acquireBulkheadLease(
+    limit: number,
+  ): Promise<string | null | undefined> {
+    try {
+      return await this.bulkheadStore.tryAcquire(limit);
+    } catch (err) {
+      this.handleError('BulkheadStore acquire error', err);
+      return undefined;
+    }
+  }
+
+  private async releaseBulkheadLease(leaseId: string): Promise<void> {
+    try {
+      await this.bulkheadStore.release(leaseId);
+    } catch (err) {
+      this.handleError('BulkheadStore release error', err);
+    }
+  }
+
+  private async runWithTimeout<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number | undefined,
+  ): Promise<T> {
+    const abortController = new AbortController();
+
+    if (timeoutMs === undefined) {
+      return fn(abortController.signal);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const err = new CallTimeoutError(this.id, timeoutMs);
+        abortController.abort(err);
+        reject(err);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([fn(abortController.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getFallbackReason(err: unknown): FallbackReason {
+    if (err instanceof Error && this.openErrors.has(err)) {
+      return FallbackReason.CIRCUIT_OPEN;
+    }
+
+    if (err instanceof BulkheadFullError) {
+      return FallbackReason.BULKHEAD_FULL;
+    }
+
+    if (err instanceof CallTimeoutError) {
+      return FallbackReason.TIMEOUT;
+    }
+
+    return FallbackReason.FAILURE;
+  }
+
+  /**
+   * Reports a call rejected without being executed. Returns the error to throw.
+   */
+  private rejectCall(err: Error): Error {
+    this.events.emit('callRejected', { error: err });
+    return err;
+  }
+
+  private createOpenError(): Error {
+    const state = this.state;
+    const openedAt = this.circuitStateStore.getLastStateChangeTimestamp();
+
+    const details: CircuitOpenErrorDetails = {
+      circuitId: this.id,
+      state,
+      openedAt,
+      reason: this.circuitStateStore.getLastTransition().reason,
+      retryAfterMs:
+        state === CircuitState.OPEN && !this.override
+          ? estimateNextAttemptDelayMs(
+              this.health.backoff,
+              Date.now() - openedAt,
+            )
+          : null,
+    };
+
+    const err = this.openErrorFactory
+      ? this.openErrorFactory(details)
+      : new CircuitOpenError(details);
+    this.openErrors.add(err);
+
+    return err;
+  }
+
+  private isSlowCall(durationMs: number): boolean {
+    return (
+      this.slowCallThresholdMs !== undefined &&
+      durationMs >= this.slowCallThresholdMs
+    );
+  }
+
+  private classifyError(
+    err: unknown,
+    options: ExecuteOptions<unknown>,
+  ): ErrorClassification {
+    const classify = options.classifyError ?? this.errorClassifier;
+    if (!classify) {
+      return ErrorClassification.FAILURE;
+    }
+
+    try {
+      return classify(err);
+    } catch (classifyErr) {
+      this.handleError('Failed to classify call error', classifyErr);
+      return ErrorClassification.FAILURE;
+    }
+  }
+
+  /**
+   * Rejects a call the circuit does not permit, or runs it anyway in shadow mode.
+   */
+  private async blockCall<T>(runShadowCall: () => Promise<T>): Promise<T> {
+    if (this.mode === CircuitMode.SHADOW) {
+      this.metrics?.recordShadowBlockedRequest?.({ breakerId: this.id });
+      this.onWouldBlock?.(this.state);
+
+      // The call would not have happened in enforcing mode,
+      // so its result must not influence the circuit state
+      return runShadowCall();
+    }
+
+    this.metrics?.recordBlockedRequest({ breakerId: this.id });
+
+    throw this.rejectCall(this.createOpenError());
+  }
+
+  private admitCall(): CallAdmission {
+    this.checkBackendAvailability();
+
+    if (this.localCircuit) {
+      return this.localCircuit.tryAcquire() ? 'allowed' : 'rejected';
+    }
+
+    const state = this.state;
+
+    if (state === CircuitState.CLOSED) {
+      return 'allowed';
+    }
+
+    if (state === CircuitState.OPEN || !this.halfOpen) {
+      return 'rejected';
+    }
+
+    return 'trial';
+  }
+
+  /**
+   * Takes a trial permit of the current HALF_OPEN phase.
+   * @returns The id of the phase, or null if no permit is left
+   */
+  private async tryAcquireTrialPermit(): Promise<string | null> {
+    const phaseId = this.circuitStateStore.getLastStateChangeId();
+
+    try {
+      const acquired = await this.trialPermitStore.tryAcquire(
+        phaseId,
+        this.halfOpen?.maxTrialCalls ?? 1,
+      );
+
+      return acquired ? phaseId : null;
+    } catch (err) {
+      this.handleError('TrialPermitStore acquire error', err);
+      this.enterDegradedMode();
+      return null;
+    }
+  }
+
+  private async releaseTrialPermit(phaseId: string): Promise<void> {
+    try {
+      await this.trialPermitStore.release(phaseId);
+    } catch (err) {
+      this.handleError('TrialPermitStore release error', err);
     }
   }
 
@@ -315,10 +1848,11 @@ export class CircuitBreaker extends AbstractLifecycleManager {
   private handleError(message: string, cause: unknown): void {
     const err = new Error(message, { cause });
 
-    if (!this.onError) {
+    if (!this.onError && this.events.listenerCount('error') === 0) {
       console.error('[zenvark] Unhandled error:', err);
       return;
     }
-    this.onError(err);
+    this.onError?.(err);
+    this.events.emit('error', err);
   }
 }
@@ -0,0 +1,6 @@
+declare module 'cluster-key-slot' {
+  /**
+   * Returns the Redis Cluster hash slot of the key, honoring hash tags.
+   */
+  export default function calculateSlot(key: string | Buffer): number;
+}
@@ -9,15 +9,99 @@ export type CircuitRole = ObjectValues<typeof CircuitRole>;
 export const CircuitState = {
   CLOSED: 'closed',
   OPEN: 'open',
+  /**
+   * The circuit admits a limited number of trial calls across all instances.
+   * Their outcome decides whether the circuit closes or opens again.
+   */
+  HALF_OPEN: 'half-open',
 } as const;
 export type CircuitState = ObjectValues<typeof CircuitState>;
 
+/**
+ * Describes why the circuit transitioned to its current state.
+ */
+export const StateChangeReason = {
+  /** The breaker strategy decided to open the circuit based on recorded call results. */
+  BREAKER_TRIPPED: 'breaker-tripped',
+
+  /** An idle health check failed while the circuit was CLOSED. */
+  IDLE_CHECK_FAILED: 'idle-check-failed',
+
+  /** A recovery health check succeeded while the circuit was OPEN. */
+  RECOVERY_CHECK_PASSED: 'recovery-check-passed',
+
+  /** A trial call failed while the circuit was HALF_OPEN. */
+  TRIAL_CALL_FAILED: 'trial-call-failed',
+
+  /** All trial calls succeeded while the circuit was HALF_OPEN. */
+  TRIAL_CALLS_PASSED: 'trial-calls-passed',
+
+  /** An operator forced the circuit into the state. */
+  MANUAL_OVERRIDE: 'manual-override',
+
+  /** An operator cleared the override, keeping the circuit in its current state. */
+  OVERRIDE_CLEARED: 'override-cleared',
+} as const;
+export type StateChangeReason = ObjectValues<typeof StateChangeReason>;
+
+/**
+ * Defines whether the circuit breaker enforces its state on calls.
+ */
+export const CircuitMode = {
+  /** Calls are rejected while the circuit is OPEN. */
+  ENFORCING: 'enforcing',
+
+  /**
+   * The circuit transitions as usual, but calls are never rejected. Calls that
+   * would have been rejected are only reported, which allows tuning a breaker
+   * on production traffic before it is allowed to block it.
+   */
+  SHADOW: 'shadow',
+} as const;
+export type CircuitMode = ObjectValues<typeof CircuitMode>;
+
 export const CallResult = {
   SUCCESS: 'success',
   FAILURE: 'failure',
+  /** A successful call that took longer than the configured slow-call threshold. */
+  SLOW: 'slow',
 } as const;
 export type CallResult = ObjectValues<typeof CallResult>;
 
+/**
+ * Decides how an error thrown by a protected call is recorded.
+ * The error is rethrown to the caller in every case.
+ */
+export const ErrorClassification = {
+  /** The call is recorded as a failure and counts towards opening the circuit. */
+  FAILURE: 'failure',
+
+  /** The call is recorded as a success, e.g. for expected 404 or validation errors. */
+  SUCCESS: 'success',
+
+  /** The call is not recorded at all, e.g. when it was aborted by the user. */
+  IGNORED: 'ignored',
+} as const;
+export type ErrorClassification = ObjectValues<typeof ErrorClassification>;
+
+/**
+ * Describes why a fallback was used instead of the protected call's result.
+ */
+export const FallbackReason = {
+  /** The call was rejected because the circuit is open. */
+  CIRCUIT_OPEN: 'circuit-open',
+
+  /** The call was rejected because the concurrency limit was reached. */
+  BULKHEAD_FULL: 'bulkhead-full',
+
+  /** The call did not complete within its timeout. */
+  TIMEOUT: 'timeout',
+
+  /** The call threw an error. */
+  FAILURE: 'failure',
+} as const;
+export type FallbackReason = ObjectValues<typeof FallbackReason>;
+
 /**
  * Defines the types of health checks performed by the circuit breaker.
  * This helps in logging, metrics, and understanding the context of a health check.
@@ -36,3 +120,45 @@ export const HealthCheckType = {
   IDLE: 'idle',
 } as const;
 export type HealthCheckType = ObjectValues<typeof HealthCheckType>;
+
+/**
+ * Defines how the Redis keys of a circuit breaker are composed from its id.
+ */
+export const KeyLayout = {
+  /** Keys are named `prefix:id:suffix`. */
+  PLAIN: 'plain',
+
+  /**
+   * Keys are named `prefix:{id}:suffix`. The hash tag places all keys of a
+   * circuit breaker in the same Redis Cluster slot.
+   */
+  HASH_TAGGED: 'hash-tagged',
+} as const;
+export type KeyLayout = ObjectValues<typeof KeyLayout>;
+
+/**
+ * Breaker strategies that can be built from a shared `BreakerConfig`.
+ */
+export const BreakerStrategyType = {
+  /** Builds a `ConsecutiveBreaker`. */
+  CONSECUTIVE: 'consecutive',
+
+  /** Builds a `CountBreaker`. */
+  COUNT: 'count',
+
+  /** Builds a `SamplingBreaker`. */
+  SAMPLING: 'sampling',
+} as const;
+export type BreakerStrategyType = ObjectValues<typeof BreakerStrategyType>;
+
+/**
+ * Backoff strategies that can be built from a shared `BreakerConfig`.
+ */
+export const BackoffStrategyType = {
+  /** Builds a `ConstantBackoff`. */
+  CONSTANT: 'constant',
+
+  /** Builds an `ExponentialBackoff`. */
+  EXPONENTIAL: 'exponential',
+} as const;
+export type BackoffStrategyType = ObjectValues<typeof BackoffStrategyType>;
@@ -0,0 +1,17 @@
+import { InternalError } from '@lokalise/node-core';
+
+type BulkheadFullErrorDetails = {
+  circuitId: string;
+};
+
+export class BulkheadFullError extends InternalError<BulkheadFullErrorDetails> {
+  constructor(circuitId: string) {
+    super({
+      message: 'Bulkhead is full',
+      errorCode: 'BULKHEAD_IS_FULL',
+      details: {
+        circuitId,
+      },
+    });
+  }
+}
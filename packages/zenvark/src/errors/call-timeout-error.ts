@@ -0,0 +1,19 @@
+import { InternalError } from '@lokalise/node-core';
+
+type CallTimeoutErrorDetails = {
+  circuitId: string;
+  timeoutMs: number;
+};
+
+export class CallTimeoutError extends InternalError<CallTimeoutErrorDetails> {
+  constructor(circuitId: string, timeoutMs: number) {
+    super({
+      message: `Call timed out after ${timeoutMs}ms`,
+      errorCode: 'CALL_TIMED_OUT',
+      details: {
+        circuitId,
+        timeoutMs,
+      },
+    });
+  }
+}
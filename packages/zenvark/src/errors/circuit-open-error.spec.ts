@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitState, StateChangeReason } from '../constants.ts';
+import { CircuitOpenError } from './circuit-open-error.ts';
+
+describe('CircuitOpenError', () => {
+  it('keeps the given details', () => {
+    const details = {
+      circuitId: 'payments',
+      state: CircuitState.OPEN,
+      openedAt: 1000,
+      reason: StateChangeReason.BREAKER_TRIPPED,
+      retryAfterMs: 500,
+    };
+
+    expect(new CircuitOpenError(details).details).toEqual(details);
+  });
+
+  it('can still be created from the circuit id alone', () => {
+    const err = new CircuitOpenError('payments');
+
+    expect(err.message).toBe('Circuit is open');
+    expect(err.details).toEqual({
+      circuitId: 'payments',
+      state: CircuitState.OPEN,
+      openedAt: 0,
+      reason: null,
+      retryAfterMs: null,
+    });
+  });
+});
@@ -1,17 +1,40 @@
 import { InternalError } from '@lokalise/node-core';
+import { CircuitState, type StateChangeReason } from '../constants.ts';
 
-type CircuitOpenErrorDetails = {
+export type CircuitOpenErrorDetails = {
   circuitId: string;
+  /** The state that rejected the call: OPEN, or HALF_OPEN with no trial permits left */
+  state: CircuitState;
+  /** Unix timestamp (in milliseconds) of the transition into the rejecting state */
+  openedAt: number;
+  /** Why the circuit transitioned into the rejecting state, or null if unknown */
+  reason: StateChangeReason | null;
+  /**
+   * Estimated time until the next recovery attempt, derived from the recovery backoff schedule.
+   * Null if the circuit is half-open or manually overridden.
+   */
+  retryAfterMs: number | null;
 };
 
 export class CircuitOpenError extends InternalError<CircuitOpenErrorDetails> {
-  constructor(circuitId: string) {
+  /**
+   * @param circuitIdOrDetails Details of the rejecting state, or only the circuit id, in which
+   * case the circuit is reported as OPEN since an unknown time, without a retry estimate
+   */
+  constructor(circuitIdOrDetails: string | CircuitOpenErrorDetails) {
     super({
       message: 'Circuit is open',
       errorCode: 'CIRCUIT_IS_OPEN',
-      details: {
-        circuitId,
-      },
+      details:
+        typeof circuitIdOrDetails === 'string'
+          ? {
+              circuitId: circuitIdOrDetails,
+              state: CircuitState.OPEN,
+              openedAt: 0,
+              reason: null,
+              retryAfterMs: null,
+            }
+          : circuitIdOrDetails,
     });
   }
 }
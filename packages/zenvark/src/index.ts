@@ -1,24 +1,106 @@
+export type {
+  BreakerBackend,
+  BreakerConfigStore,
+  BreakerConfigStoreOptions,
+  BulkheadStore,
+  BulkheadStoreOptions,
+  CallResultBucketStore,
+  CallResultBucketStoreOptions,
+  CallResultEvaluator,
+  CallResultEvaluatorOptions,
+  CallResultRetention,
+  CallResultStore,
+  CallResultStoreOptions,
+  CircuitStateStore,
+  CircuitStateStoreOptions,
+  LeaderElectionConfig,
+  LeaderElector,
+  LeaderElectorOptions,
+  StateRetention,
+  TrialPermitStore,
+  TrialPermitStoreOptions,
+} from './backends/breaker-backend.ts';
+export { MemoryBackend } from './backends/memory/memory-backend.ts';
+export {
+  RedisBackend,
+  type RedisBackendOptions,
+} from './backends/redis/redis-backend.ts';
 export type { BackoffStrategy } from './backoffs/backoff-strategy.ts';
 export { ConstantBackoff } from './backoffs/constant-backoff.ts';
+export { createBackoffStrategy } from './backoffs/create-backoff-strategy.ts';
 export { ExponentialBackoff } from './backoffs/exponential-backoff.ts';
 export type {
   BreakerMetricsRecorder,
   RecordBlockedRequestParams,
   RecordCallParams,
+  RecordCallResultFlushParams,
+  RecordDroppedCallResultsParams,
+  RecordFallbackParams,
   RecordHealthCheckParams,
+  RecordStateChangeParams,
 } from './breaker-metrics-recorder.ts';
-export type { BreakerStrategy } from './breakers/breaker-strategy.ts';
+export type {
+  BreakerSnapshot,
+  BreakerStrategy,
+} from './breakers/breaker-strategy.ts';
 export { ConsecutiveBreaker } from './breakers/consecutive-breaker.ts';
 export { CountBreaker } from './breakers/count-breaker.ts';
+export { createBreakerStrategy } from './breakers/create-breaker-strategy.ts';
 export { SamplingBreaker } from './breakers/sampling-breaker.ts';
 export {
   CircuitBreaker,
+  type CircuitBreakerEvents,
   type CircuitBreakerOptions,
+  type ExecuteOptions,
+  type FallbackHandler,
 } from './circuit-breaker.ts';
 export {
+  CircuitBreakerRegistry,
+  type CircuitBreakerRegistryOptions,
+  type CircuitBreakerSummary,
+  type RegisteredBreakerOptions,
+} from './circuit-breaker-registry.ts';
+export {
+  BackoffStrategyType,
+  BreakerStrategyType,
   CallResult,
+  CircuitMode,
   CircuitRole,
   CircuitState,
+  ErrorClassification,
+  FallbackReason,
   HealthCheckType,
+  KeyLayout,
+  StateChangeReason,
 } from './constants.ts';
-export { CircuitOpenError } from './errors/circuit-open-error.ts';
+export { BulkheadFullError } from './errors/bulkhead-full-error.ts';
+export { CallTimeoutError } from './errors/call-timeout-error.ts';
+export {
+  CircuitOpenError,
+  type CircuitOpenErrorDetails,
+} from './errors/circuit-open-error.ts';
+export type {
+  BackoffStrategyConfig,
+  BreakerConfig,
+  BreakerConfigVersion,
+  BreakerStrategyConfig,
+  CallFailureEvent,
+  CallRejectedEvent,
+  CallResultBucket,
+  CallResultEvent,
+  CallSuccessEvent,
+  CircuitOverride,
+  ConfigChangeParams,
+  HealthCheckEvent,
+  OverrideParams,
+  StateChangeDetails,
+  StateHistoryEntry,
+  StateHistoryParams,
+  StateTransition,
+} from './types.ts';
+export type { RedisClient } from './utils/redis-client.ts';
+export type { RedisKeyOptions } from './utils/redis-keys.ts';
+export {
+  RedisStreamReader,
+  type StreamSubscription,
+} from './utils/redis-stream-reader.ts';
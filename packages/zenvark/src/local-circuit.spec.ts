@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { CallResultRetention } from './backends/breaker-backend.ts';
+import type { BackoffStrategy } from './backoffs/backoff-strategy.ts';
+import { ConstantBackoff } from './backoffs/constant-backoff.ts';
+import { ExponentialBackoff } from './backoffs/exponential-backoff.ts';
+import { ConsecutiveBreaker } from './breakers/consecutive-breaker.ts';
+import { CallResult, CircuitState, StateChangeReason } from './constants.ts';
+import { LocalCircuit } from './local-circuit.ts';
+
+describe('LocalCircuit', () => {
+  const createCircuit = ({
+    initialState = CircuitState.CLOSED,
+    initialStateTimestamp = 0,
+    backoff = new ConstantBackoff({ delayMs: 1000 }),
+    retention = { maxEntries: 100 },
+  }: {
+    initialState?: CircuitState;
+    initialStateTimestamp?: number;
+    backoff?: BackoffStrategy;
+    retention?: CallResultRetention;
+  } = {}) =>
+    new LocalCircuit({
+      breaker: new ConsecutiveBreaker({ threshold: 2 }),
+      backoff,
+      retention,
+      initialState,
+      initialStateTimestamp,
+    });
+
+  it('starts from the shared state, treating HALF_OPEN as OPEN', () => {
+    expect(createCircuit().state).toBe(CircuitState.CLOSED);
+    expect(createCircuit({ initialState: CircuitState.OPEN }).state).toBe(
+      CircuitState.OPEN,
+    );
+    expect(createCircuit({ initialState: CircuitState.HALF_OPEN }).state).toBe(
+      CircuitState.OPEN,
+    );
+  });
+
+  it('opens once the breaker strategy trips', () => {
+    const circuit = createCircuit();
+
+    expect(circuit.record(CallResult.FAILURE, 100)).toBeNull();
+    expect(circuit.record(CallResult.FAILURE, 200)).toEqual({
+      state: CircuitState.OPEN,
+      reason: StateChangeReason.BREAKER_TRIPPED,
+    });
+    expect(circuit.state).toBe(CircuitState.OPEN);
+  });
+
+  it('ignores calls recorded before the latest shared transition', () => {
+    const circuit = createCircuit({ initialStateTimestamp: 150 });
+
+    circuit.record(CallResult.FAILURE, 100);
+
+    expect(circuit.record(CallResult.FAILURE, 200)).toBeNull();
+  });
+
+  it('admits a single trial call once the backoff delay elapses', () => {
+    const circuit = createCircuit({
+      initialState: CircuitState.OPEN,
+      initialStateTimestamp: 0,
+    });
+
+    expect(circuit.tryAcquire(500)).toBe(false);
+    expect(circuit.tryAcquire(1000)).toBe(true);
+    expect(circuit.tryAcquire(1001)).toBe(false);
+  });
+
+  it('closes when the trial call succeeds', () => {
+    const circuit = createCircuit({ initialState: CircuitState.OPEN });
+
+    circuit.tryAcquire(1000);
+
+    expect(circuit.record(CallResult.SUCCESS, 1100)).toEqual({
+      state: CircuitState.CLOSED,
+      reason: StateChangeReason.TRIAL_CALLS_PASSED,
+    });
+    expect(circuit.tryAcquire(1200)).toBe(true);
+  });
+
+  it('stays open and backs off further when the trial call fails', () => {
+    const circuit = createCircuit({
+      initialState: CircuitState.OPEN,
+      backoff: new ExponentialBackoff({ initialDelayMs: 1000, multiplier: 2 }),
+    });
+
+    circuit.tryAcquire(1000);
+
+    expect(circuit.record(CallResult.FAILURE, 1100)).toBeNull();
+    expect(circuit.state).toBe(CircuitState.OPEN);
+    expect(circuit.tryAcquire(2100)).toBe(false);
+    expect(circuit.tryAcquire(3100)).toBe(true);
+  });
+
+  it('keeps at most maxEntries call results', () => {
+    const circuit = createCircuit({ retention: { maxEntries: 2 } });
+
+    circuit.record(CallResult.SUCCESS, 100);
+    circuit.record(CallResult.SUCCESS, 200);
+    circuit.record(CallResult.FAILURE, 300);
+
+    expect(circuit.getEvents().map((event) => event.timestamp)).toEqual([
+      200, 300,
+    ]);
+  });
+
+  it('drops call results older than maxAgeMs', () => {
+    const circuit = createCircuit({ retention: { maxAgeMs: 150 } });
+
+    circuit.record(CallResult.SUCCESS, 100);
+    circuit.record(CallResult.SUCCESS, 200);
+    circuit.record(CallResult.FAILURE, 300);
+
+    expect(circuit.getEvents().map((event) => event.timestamp)).toEqual([
+      200, 300,
+    ]);
+  });
+});
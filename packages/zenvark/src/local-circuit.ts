@@ -0,0 +1,152 @@
+import type { CallResultRetention } from './backends/breaker-backend.ts';
+import type { BackoffStrategy } from './backoffs/backoff-strategy.ts';
+import type { BreakerStrategy } from './breakers/breaker-strategy.ts';
+import { CallResult, CircuitState, StateChangeReason } from './constants.ts';
+import type { CallResultEvent } from './types.ts';
+import { applyCallResultRetention } from './utils/call-result-retention.ts';
+
+type LocalCircuitOptions = {
+  /** Strategy evaluated against the calls recorded by this instance */
+  breaker: BreakerStrategy;
+  /** Delays between trial calls while the circuit is open */
+  backoff: BackoffStrategy;
+  /** How many past call results are kept */
+  retention: CallResultRetention;
+  /** Shared state at the moment Redis became unreachable */
+  initialState: CircuitState;
+  /** Unix timestamp (in milliseconds) of the latest shared state transition */
+  initialStateTimestamp: number;
+};
+
+/**
+ * A state change of the local circuit.
+ */
+export type LocalTransition = {
+  state: CircuitState;
+  reason: StateChangeReason;
+};
+
+/**
+ * Circuit evaluated within a single instance while Redis is unreachable.
+ * It only knows CLOSED and OPEN: once the backoff delay elapses, an open circuit
+ * lets a single trial call through, which closes it on success.
+ */
+export class LocalCircuit {
+  private readonly breaker: BreakerStrategy;
+  private readonly backoff: BackoffStrategy;
+  private readonly retention: CallResultRetention;
+
+  private currentState: CircuitState;
+  private stateTimestamp: number;
+  private attempt = 1;
+  private trialPending = false;
+  private nextId = 0;
+
+  private events: CallResultEvent[] = [];
+
+  constructor(options: LocalCircuitOptions) {
+    this.breaker = options.breaker;
+    this.backoff = options.backoff;
+    this.retention = options.retention;
+
+    // Trial calls need the shared permit counter, so HALF_OPEN falls back to OPEN
+    this.currentState =
+      options.initialState === CircuitState.CLOSED
+        ? CircuitState.CLOSED
+        : CircuitState.OPEN;
+    this.stateTimestamp = options.initialStateTimestamp;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Returns the call results recorded by this instance, oldest first.
+   */
+  getEvents(): CallResultEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Returns true if a call may run. While open, admits one trial call per backoff delay.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.currentState === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (now - this.stateTimestamp < this.backoff.getDelayMs(this.attempt)) {
+      return false;
+    }
+
+    // A trial that never reports back is replaced after another delay
+    this.stateTimestamp = now;
+    this.trialPending = true;
+    return true;
+  }
+
+  /**
+   * Records a call result and evaluates the circuit.
+   * @returns The transition caused by the result, or null if the state did not change
+   */
+  record(callResult: CallResult, now = Date.now()): LocalTransition | null {
+    this.events.push({
+      id: `local-${this.nextId++}`,
+      callResult,
+      timestamp: now,
+    });
+    this.events = applyCallResultRetention(this.events, this.retention, now);
+
+    if (this.trialPending) {
+      this.trialPending = false;
+
+      if (callResult === CallResult.SUCCESS) {
+        this.attempt = 1;
+        return this.transition(
+          CircuitState.CLOSED,
+          StateChangeReason.TRIAL_CALLS_PASSED,
+          now,
+        );
+      }
+
+      this.attempt++;
+      return this.transition(
+        CircuitState.OPEN,
+        StateChangeReason.TRIAL_CALL_FAILED,
+        now,
+      );
+    }
+
+    if (this.currentState !== CircuitState.CLOSED) {
+      return null;
+    }
+
+    const recentEvents = this.events.filter(
+      (event) => event.timestamp >= this.stateTimestamp,
+    );
+
+    if (!this.breaker.shouldOpenCircuit(recentEvents)) {
+      return null;
+    }
+
+    return this.transition(
+      CircuitState.OPEN,
+      StateChangeReason.BREAKER_TRIPPED,
+      now,
+    );
+  }
+
+  private transition(
+    state: CircuitState,
+    reason: StateChangeReason,
+    now: number,
+  ): LocalTransition | null {
+    const changed = state !== this.currentState;
+
+    this.currentState = state;
+    this.stateTimestamp = now;
+
+    return changed ? { state, reason } : null;
+  }
+}
@@ -0,0 +1,161 @@
+import calculateSlot from 'cluster-key-slot';
+import { describe, expect, it, vi } from 'vitest';
+import { cluster } from '../test/setup-redis-cluster.ts';
+import { ConstantBackoff } from './backoffs/constant-backoff.ts';
+import { ConsecutiveBreaker } from './breakers/consecutive-breaker.ts';
+import { CircuitBreaker } from './circuit-breaker.ts';
+import { CircuitBreakerRegistry } from './circuit-breaker-registry.ts';
+import { CircuitRole, CircuitState, KeyLayout } from './constants.ts';
+import { RedisStreamReader } from './utils/redis-stream-reader.ts';
+
+describe('Redis Cluster', () => {
+  const createCircuit = (layout: KeyLayout) =>
+    new CircuitBreaker({
+      id: 'cluster-test',
+      redis: cluster,
+      keys: { layout },
+      breaker: new ConsecutiveBreaker({ threshold: 1 }),
+      health: {
+        backoff: new ConstantBackoff({ delayMs: 60_000 }),
+        check: () => Promise.resolve(),
+      },
+      onError: vi.fn(),
+    });
+
+  it('shares the circuit state between instances', async () => {
+    const first = createCircuit(KeyLayout.HASH_TAGGED);
+    const second = createCircuit(KeyLayout.HASH_TAGGED);
+
+    await Promise.all([first.start(), second.start()]);
+
+    await expect(
+      first.execute(() => Promise.reject(new Error('fail'))),
+    ).rejects.toThrow('fail');
+
+    await vi.waitFor(() => {
+      expect(first.state).toBe(CircuitState.OPEN);
+      expect(second.state).toBe(CircuitState.OPEN);
+    });
+
+    const roles = [first.role, second.role];
+    expect(roles).toContain(CircuitRole.LEADER);
+    expect(roles).toContain(CircuitRole.FOLLOWER);
+
+    await Promise.all([first.stop(), second.stop()]);
+  });
+
+  it('rejects keys spread over several hash slots', () => {
+    expect(() => createCircuit(KeyLayout.PLAIN)).toThrow(
+      'Fenced state transitions on Redis Cluster require KeyLayout.HASH_TAGGED',
+    );
+  });
+
+  it('reads streams from different hash slots', async () => {
+    const reader = new RedisStreamReader({ redis: cluster });
+    const received: string[] = [];
+
+    for (const streamKey of ['stream:a', 'stream:b', 'stream:c']) {
+      let lastId = '0';
+
+      reader.subscribe(streamKey, {
+        getLastId: () => lastId,
+        onEntries: (entries) => {
+          lastId = entries.at(-1)?.[0] ?? lastId;
+          received.push(streamKey);
+        },
+        onError: vi.fn(),
+      });
+    }
+
+    await reader.start();
+
+    await cluster.xadd('stream:a', '*', 'k', 'v');
+    await cluster.xadd('stream:b', '*', 'k', 'v');
+    await cluster.xadd('stream:c', '*', 'k', 'v');
+
+    await vi.waitFor(() =>
+      expect(received.toSorted()).toEqual(['stream:a', 'stream:b', 'stream:c']),
+    );
+
+    await reader.stop();
+  });
+
+  it('reads streams over one connection per master node', async () => {
+    const countClients = async () => {
+      const clientLists = await Promise.all(
+        cluster
+          .nodes('master')
+          .map((node) => node.client('LIST') as Promise<string>),
+      );
+
+      return clientLists.reduce(
+        (count, clients) => count + clients.trim().split('\n').length,
+        0,
+      );
+    };
+
+    const streamKeys = Array.from({ length: 30 }, (_, i) => `stream:${i}`);
+    const masterNodes = new Set(
+      streamKeys.map(
+        (streamKey) => cluster.slots[calculateSlot(streamKey)]?.[0],
+      ),
+    );
+
+    const reader = new RedisStreamReader({ redis: cluster });
+    const received = new Set<string>();
+
+    for (const streamKey of streamKeys) {
+      reader.subscribe(streamKey, {
+        getLastId: () => '0',
+        onEntries: () => {
+          received.add(streamKey);
+        },
+        onError: vi.fn(),
+      });
+    }
+
+    const clientsBefore = await countClients();
+    await reader.start();
+
+    for (const streamKey of streamKeys) {
+      await cluster.xadd(streamKey, '*', 'k', 'v');
+    }
+
+    await vi.waitFor(() => expect(received.size).toBe(streamKeys.length));
+    await expect(countClients()).resolves.toBe(
+      clientsBefore + masterNodes.size,
+    );
+
+    await reader.stop();
+  });
+
+  it('runs breakers of a registry', async () => {
+    const registry = new CircuitBreakerRegistry({
+      redis: cluster,
+      defaults: {
+        keys: { layout: KeyLayout.HASH_TAGGED },
+        breaker: new ConsecutiveBreaker({ threshold: 1 }),
+        health: { backoff: new ConstantBackoff({ delayMs: 60_000 }) },
+        onError: vi.fn(),
+      },
+    });
+
+    const payments = registry.getOrCreate('payments');
+    registry.getOrCreate('shipping');
+
+    await registry.start();
+
+    await expect(
+      payments.execute(() => Promise.reject(new Error('fail'))),
+    ).rejects.toThrow('fail');
+
+    await vi.waitFor(() =>
+      expect(registry.list()).toEqual([
+        expect.objectContaining({ id: 'payments', state: CircuitState.OPEN }),
+        expect.objectContaining({ id: 'shipping', state: CircuitState.CLOSED }),
+      ]),
+    );
+
+    await registry.stop();
+  });
+});
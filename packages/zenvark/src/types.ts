@@ -1,4 +1,18 @@
-import type { CallResult } from './constants.ts';
+import type { ConstantBackoffOptions } from './backoffs/constant-backoff.ts';
+import type { ExponentialBackoffOptions } from './backoffs/exponential-backoff.ts';
+import type { BreakerSnapshot } from './breakers/breaker-strategy.ts';
+import type { ConsecutiveBreakerOptions } from './breakers/consecutive-breaker.ts';
+import type { CountBreakerOptions } from './breakers/count-breaker.ts';
+import type { SamplingBreakerOptions } from './breakers/sampling-breaker.ts';
+import type {
+  BackoffStrategyType,
+  BreakerStrategyType,
+  CallResult,
+  CircuitState,
+  ErrorClassification,
+  HealthCheckType,
+  StateChangeReason,
+} from './constants.ts';
 
 export type ObjectValues<T> = T[keyof T];
 
@@ -7,3 +21,160 @@ export type CallResultEvent = {
   callResult: CallResult;
   timestamp: number;
 };
+
+/**
+ * Number of calls recorded by all instances of a circuit within one time bucket.
+ */
+export type CallResultBucket = {
+  /** Unix timestamp (in milliseconds) the bucket starts at */
+  timestamp: number;
+  successes: number;
+  failures: number;
+  slowCalls: number;
+};
+
+/**
+ * A manual override of the circuit state set by an operator.
+ * While active, the leader does not change the state on its own.
+ */
+export type CircuitOverride = {
+  /** The state the circuit is forced into */
+  state: CircuitState;
+  /** Why the override was set */
+  reason: string;
+  /** Who set the override */
+  actor?: string;
+  /** Unix timestamp (in milliseconds) when the override was set */
+  timestamp: number;
+};
+
+/**
+ * Context recorded with a state transition. Which fields are set depends on its reason.
+ */
+export type StateChangeDetails = {
+  /** Name of the breaker strategy that opened the circuit */
+  strategy?: string;
+  /** Values the decision was based on, e.g. the failure rate seen by the breaker strategy */
+  snapshot?: BreakerSnapshot;
+  /** Type of the health check that triggered the transition */
+  healthCheckType?: HealthCheckType;
+  /** Set for transitions evaluated by a single instance while Redis was unreachable */
+  degraded?: boolean;
+};
+
+/**
+ * A state transition as recorded in the state stream.
+ */
+export type StateTransition = {
+  state: CircuitState;
+  /** Null for the initial state and for entries written without a reason */
+  reason: StateChangeReason | null;
+  details: StateChangeDetails;
+  /** Id of the instance that wrote the transition, or null if unknown */
+  instanceId: string | null;
+  /** Unix timestamp (in milliseconds) of the transition */
+  timestamp: number;
+};
+
+/**
+ * A past state transition together with how long the circuit stayed in the state.
+ */
+export type StateHistoryEntry = StateTransition & {
+  /** Unix timestamp (in milliseconds) of the next transition, or null for the latest one */
+  endedAt: number | null;
+  /** Time spent in the state, up to now for the latest transition */
+  durationMs: number;
+};
+
+export type StateHistoryParams = {
+  /** Only transitions at or after this Unix timestamp (in milliseconds) are returned */
+  since?: number;
+  /** Maximum number of transitions returned, starting from the most recent */
+  limit?: number;
+};
+
+export type OverrideParams = {
+  /** Why the override is set or cleared */
+  reason: string;
+  /** Who sets or clears the override */
+  actor?: string;
+};
+
+/**
+ * Serializable description of a built-in breaker strategy.
+ */
+export type BreakerStrategyConfig =
+  | ({
+      type: typeof BreakerStrategyType.CONSECUTIVE;
+    } & ConsecutiveBreakerOptions)
+  | ({ type: typeof BreakerStrategyType.COUNT } & CountBreakerOptions)
+  | ({ type: typeof BreakerStrategyType.SAMPLING } & SamplingBreakerOptions);
+
+/**
+ * Serializable description of a built-in backoff strategy.
+ */
+export type BackoffStrategyConfig =
+  | ({ type: typeof BackoffStrategyType.CONSTANT } & ConstantBackoffOptions)
+  | ({
+      type: typeof BackoffStrategyType.EXPONENTIAL;
+    } & ExponentialBackoffOptions);
+
+/**
+ * Settings of a running circuit breaker shared by all of its instances.
+ * Settings left out fall back to the options the breaker was created with.
+ */
+export type BreakerConfig = {
+  /** Replaces the `breaker` option */
+  breaker?: BreakerStrategyConfig;
+  /** Replaces the `health.backoff` option */
+  backoff?: BackoffStrategyConfig;
+  /** Replaces the `health.idleProbeIntervalMs` option */
+  idleProbeIntervalMs?: number;
+};
+
+/**
+ * A version of the shared breaker config as recorded in its change log.
+ */
+export type BreakerConfigVersion = {
+  /** Starts at 1 and increases by one with each change */
+  version: number;
+  config: BreakerConfig;
+  /** Why the config was changed */
+  reason: string;
+  /** Who changed the config */
+  actor?: string;
+  /** Unix timestamp (in milliseconds) when the config was changed */
+  timestamp: number;
+};
+
+export type ConfigChangeParams = {
+  /** Why the config is changed */
+  reason: string;
+  /** Who changes the config */
+  actor?: string;
+};
+
+export type CallSuccessEvent = {
+  /** `CallResult.SUCCESS`, or `CallResult.SLOW` if the call exceeded the slow-call threshold */
+  result: CallResult;
+  durationMs: number;
+};
+
+export type CallFailureEvent = {
+  /** The error thrown by the call, including `CallTimeoutError` for timed out calls */
+  error: unknown;
+  /** How the error was recorded */
+  classification: ErrorClassification;
+  durationMs: number;
+};
+
+export type CallRejectedEvent = {
+  /** The error thrown to the caller, e.g. `CircuitOpenError` or `BulkheadFullError` */
+  error: Error;
+};
+
+export type HealthCheckEvent = {
+  type: HealthCheckType;
+  result: CallResult;
+  durationMs: number;
+};
@@ -0,0 +1,28 @@
+/**
+ * Throws if a required field of a config is not a finite number, or if an
+ * optional field is set to anything else. Guards configs parsed from JSON.
+ * @param config Config to check
+ * @param required Fields that must be set
+ * @param optional Fields that may be left out
+ */
+export const assertNumberFields = (
+  config: object,
+  required: string[],
+  optional: string[] = [],
+): void => {
+  const record = config as Record<string, unknown>;
+
+  for (const field of [...required, ...optional]) {
+    const value = record[field];
+
+    if (value === undefined && optional.includes(field)) {
+      continue;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(
+        `Expected "${field}" to be a finite number, got ${JSON.stringify(value)}`,
+      );
+    }
+  }
+};
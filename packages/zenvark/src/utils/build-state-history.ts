@@ -0,0 +1,23 @@
+import type { StateHistoryEntry, StateTransition } from '../types.ts';
+
+/**
+ * Turns consecutive transitions into history entries. Each transition ends where
+ * the next one starts, and the latest one lasts until now.
+ *
+ * @param transitions - Transitions ordered from oldest to newest.
+ * @param now - Unix timestamp (in milliseconds) the latest transition lasts until.
+ * @returns History entries ordered from oldest to newest.
+ */
+export const buildStateHistory = (
+  transitions: StateTransition[],
+  now = Date.now(),
+): StateHistoryEntry[] =>
+  transitions.map((transition, index) => {
+    const endedAt = transitions[index + 1]?.timestamp ?? null;
+
+    return {
+      ...transition,
+      endedAt,
+      durationMs: (endedAt ?? now) - transition.timestamp,
+    };
+  });
@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CallResult } from '../constants.ts';
+import { CallResultBatcher } from './call-result-batcher.ts';
+import { delay } from './delay.ts';
+
+describe('CallResultBatcher', () => {
+  const createBatcher = ({
+    maxBatchSize = 3,
+    flushIntervalMs = 60_000,
+    maxBufferSize = 10,
+    write = vi.fn(() => Promise.resolve()),
+  }: {
+    maxBatchSize?: number;
+    flushIntervalMs?: number;
+    maxBufferSize?: number;
+    write?: () => Promise<void>;
+  } = {}) => {
+    const onFlush = vi.fn();
+    const onDrop = vi.fn();
+    const batcher = new CallResultBatcher({
+      maxBatchSize,
+      flushIntervalMs,
+      maxBufferSize,
+      write,
+      onFlush,
+      onDrop,
+    });
+
+    return { batcher, write, onFlush, onDrop };
+  };
+
+  const result = (timestamp: number) => ({
+    callResult: CallResult.SUCCESS,
+    timestamp,
+  });
+
+  it('writes a batch once it is full', async () => {
+    const { batcher, write, onFlush } = createBatcher();
+    await batcher.start();
+
+    batcher.add(result(1));
+    batcher.add(result(2));
+    expect(write).not.toHaveBeenCalled();
+
+    batcher.add(result(3));
+
+    await vi.waitFor(() =>
+      expect(write).toHaveBeenCalledWith([result(1), result(2), result(3)]),
+    );
+    expect(onFlush).toHaveBeenCalledWith({
+      batchSize: 3,
+      durationMs: expect.any(Number),
+    });
+
+    await batcher.stop();
+  });
+
+  it('writes buffered results on the flush interval', async () => {
+    const { batcher, write } = createBatcher({ flushIntervalMs: 20 });
+    await batcher.start();
+
+    batcher.add(result(1));
+
+    await vi.waitFor(() => expect(write).toHaveBeenCalledWith([result(1)]));
+
+    await batcher.stop();
+  });
+
+  it('writes buffered results when stopped', async () => {
+    const { batcher, write } = createBatcher();
+    await batcher.start();
+
+    batcher.add(result(1));
+    await batcher.stop();
+
+    expect(write).toHaveBeenCalledWith([result(1)]);
+  });
+
+  it('drops the oldest results once the buffer is full', async () => {
+    let finishWrite = () => {};
+    const write = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishWrite = resolve;
+        }),
+    );
+    const { batcher, onDrop } = createBatcher({
+      maxBatchSize: 2,
+      maxBufferSize: 2,
+      write,
+    });
+    await batcher.start();
+
+    // The first batch is being written while the next results are buffered
+    batcher.add(result(1));
+    batcher.add(result(2));
+    batcher.add(result(3));
+    batcher.add(result(4));
+    batcher.add(result(5));
+
+    expect(onDrop).toHaveBeenCalledExactlyOnceWith(1);
+
+    finishWrite();
+    await vi.waitFor(() =>
+      expect(write).toHaveBeenLastCalledWith([result(4), result(5)]),
+    );
+    finishWrite();
+
+    await batcher.stop();
+  });
+
+  it('reports failed writes and keeps the remaining results for the next flush', async () => {
+    const write = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error('write failed'))
+      .mockResolvedValue();
+    const { batcher, onFlush } = createBatcher({ maxBatchSize: 1, write });
+    await batcher.start();
+
+    batcher.add(result(1));
+    batcher.add(result(2));
+    await delay(10);
+
+    expect(onFlush).toHaveBeenCalledWith({
+      batchSize: 1,
+      durationMs: expect.any(Number),
+      error: new Error('write failed'),
+    });
+
+    await batcher.stop();
+
+    expect(write).toHaveBeenLastCalledWith([result(2)]);
+  });
+
+  it('writes a failed batch again before the results buffered after it', async () => {
+    const write = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error('write failed'))
+      .mockResolvedValue();
+    const { batcher } = createBatcher({ maxBatchSize: 2, write });
+    await batcher.start();
+
+    batcher.add(result(1));
+    batcher.add(result(2));
+    await vi.waitFor(() => expect(write).toHaveBeenCalledOnce());
+    batcher.add(result(3));
+
+    await batcher.stop();
+
+    expect(write.mock.calls).toEqual([
+      [[result(1), result(2)]],
+      [[result(1), result(2)]],
+      [[result(3)]],
+    ]);
+  });
+
+  it('drops the oldest results of a failed batch beyond the buffer limit', async () => {
+    let failWrite = (_err: Error) => {};
+    const write = vi
+      .fn<() => Promise<void>>()
+      .mockImplementationOnce(
+        () =>
+          new Promise<void>((_resolve, reject) => {
+            failWrite = reject;
+          }),
+      )
+      .mockResolvedValue();
+    const { batcher, onDrop } = createBatcher({
+      maxBatchSize: 2,
+      maxBufferSize: 3,
+      write,
+    });
+    await batcher.start();
+
+    batcher.add(result(1));
+    batcher.add(result(2));
+    // Buffered while the first batch is being written
+    batcher.add(result(3));
+    batcher.add(result(4));
+
+    failWrite(new Error('write failed'));
+    await vi.waitFor(() => expect(onDrop).toHaveBeenCalledExactlyOnceWith(1));
+
+    await batcher.stop();
+
+    expect(write).toHaveBeenLastCalledWith([result(4)]);
+    expect(write).toHaveBeenCalledWith([result(2), result(3)]);
+  });
+});
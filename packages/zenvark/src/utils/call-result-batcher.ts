@@ -0,0 +1,153 @@
+import type { CallResultEvent } from '../types.ts';
+import { AbstractLifecycleManager } from './abstract-lifecycle-manager.ts';
+import { delay } from './delay.ts';
+
+type BufferedCallResult = Pick<CallResultEvent, 'callResult' | 'timestamp'>;
+
+export type CallResultFlush = {
+  /** Number of call results written together */
+  batchSize: number;
+  /** Time the write took, in milliseconds */
+  durationMs: number;
+  /** Set if the write failed, in which case the batch is put back to be written first by the next flush */
+  error?: unknown;
+};
+
+type CallResultBatcherOptions = {
+  /** A flush starts as soon as this many results are buffered */
+  maxBatchSize: number;
+  /** Interval in milliseconds at which buffered results are flushed */
+  flushIntervalMs: number;
+  /** Maximum number of buffered results. Beyond it, the oldest results are dropped. */
+  maxBufferSize: number;
+  /** Writes a batch of results, keeping their timestamps */
+  write: (results: BufferedCallResult[]) => Promise<void>;
+  /** Called after each write, whether it succeeded or not */
+  onFlush: (flush: CallResultFlush) => void;
+  /** Called with the number of results dropped because the buffer was full */
+  onDrop: (count: number) => void;
+};
+
+type FlushLoop = {
+  abortController: AbortController;
+  promise: Promise<unknown>;
+};
+
+/**
+ * Buffers call results and writes them in batches, on an interval or once
+ * a batch fills up. Buffered results are flushed when it stops.
+ */
+export class CallResultBatcher extends AbstractLifecycleManager {
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxBufferSize: number;
+  private readonly write: (results: BufferedCallResult[]) => Promise<void>;
+  private readonly onFlush: (flush: CallResultFlush) => void;
+  private readonly onDrop: (count: number) => void;
+
+  private buffer: BufferedCallResult[] = [];
+  private flushLoop: FlushLoop | null = null;
+  private flushPromise: Promise<void> | null = null;
+
+  constructor(options: CallResultBatcherOptions) {
+    super();
+    this.maxBatchSize = options.maxBatchSize;
+    this.flushIntervalMs = options.flushIntervalMs;
+    this.maxBufferSize = options.maxBufferSize;
+    this.write = options.write;
+    this.onFlush = options.onFlush;
+    this.onDrop = options.onDrop;
+  }
+
+  protected override startInternal(): Promise<void> {
+    const abortController = new AbortController();
+    this.flushLoop = {
+      abortController,
+      promise: this.startFlushLoop(abortController.signal),
+    };
+
+    return Promise.resolve();
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    if (this.flushLoop) {
+      this.flushLoop.abortController.abort();
+      await this.flushLoop.promise;
+      this.flushLoop = null;
+    }
+
+    await this.flush();
+    this.buffer = [];
+  }
+
+  /**
+   * Buffers a result, starting a flush if a full batch is buffered.
+   */
+  add(result: BufferedCallResult): void {
+    this.buffer.push(result);
+    this.dropOverflow();
+
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Writes buffered results in batches until the buffer is empty or a write fails.
+   * Only one flush runs at a time; results added meanwhile are written by it.
+   */
+  flush(): Promise<void> {
+    this.flushPromise ??= this.writeBatches().finally(() => {
+      this.flushPromise = null;
+    });
+
+    return this.flushPromise;
+  }
+
+  private async writeBatches(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.maxBatchSize);
+      const startedAt = performance.now();
+
+      try {
+        await this.write(batch);
+        this.onFlush({
+          batchSize: batch.length,
+          durationMs: performance.now() - startedAt,
+        });
+      } catch (err) {
+        this.onFlush({
+          batchSize: batch.length,
+          durationMs: performance.now() - startedAt,
+          error: err,
+        });
+        // The batch and the remaining results are retried by the next flush
+        this.buffer.unshift(...batch);
+        this.dropOverflow();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Drops the oldest results beyond the buffer limit.
+   */
+  private dropOverflow(): void {
+    const overflow = this.buffer.length - this.maxBufferSize;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.onDrop(overflow);
+    }
+  }
+
+  private async startFlushLoop(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await delay(this.flushIntervalMs, signal);
+      if (signal.aborted) {
+        return;
+      }
+
+      await this.flush();
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { CallResult } from '../constants.ts';
+import type { CallResultBucket, CallResultEvent } from '../types.ts';
+
+/**
+ * Returns the Unix timestamp (in milliseconds) the bucket holding the given timestamp starts at.
+ */
+export const getBucketStart = (timestamp: number, bucketMs: number): number =>
+  timestamp - (timestamp % bucketMs);
+
+export const createCallResultBucket = (
+  timestamp: number,
+): CallResultBucket => ({
+  timestamp,
+  successes: 0,
+  failures: 0,
+  slowCalls: 0,
+});
+
+/**
+ * Adds `count` calls with the given result to the bucket.
+ */
+export const addToBucket = (
+  bucket: CallResultBucket,
+  callResult: CallResult,
+  count = 1,
+): void => {
+  switch (callResult) {
+    case CallResult.SUCCESS:
+      bucket.successes += count;
+      break;
+    case CallResult.FAILURE:
+      bucket.failures += count;
+      break;
+    case CallResult.SLOW:
+      bucket.slowCalls += count;
+      break;
+  }
+};
+
+/**
+ * Counts call results per bucket of their timestamps.
+ * @returns Buckets ordered from oldest to newest
+ */
+export const aggregateCallResults = (
+  events: Pick<CallResultEvent, 'callResult' | 'timestamp'>[],
+  bucketMs: number,
+): CallResultBucket[] => {
+  const buckets = new Map<number, CallResultBucket>();
+
+  for (const event of events) {
+    const timestamp = getBucketStart(event.timestamp, bucketMs);
+    let bucket = buckets.get(timestamp);
+
+    if (!bucket) {
+      bucket = createCallResultBucket(timestamp);
+      buckets.set(timestamp, bucket);
+    }
+
+    addToBucket(bucket, event.callResult);
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Returns true if both lists hold the same buckets with the same counts.
+ */
+export const areBucketsEqual = (
+  a: CallResultBucket[],
+  b: CallResultBucket[],
+): boolean =>
+  a.length === b.length &&
+  a.every((bucket, index) => {
+    const other = b[index];
+
+    return (
+      other !== undefined &&
+      bucket.timestamp === other.timestamp &&
+      bucket.successes === other.successes &&
+      bucket.failures === other.failures &&
+      bucket.slowCalls === other.slowCalls
+    );
+  });
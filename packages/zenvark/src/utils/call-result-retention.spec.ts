@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { CallResult } from '../constants.ts';
+import type { CallResultEvent } from '../types.ts';
+import {
+  applyCallResultRetention,
+  describeRetentionShortfall,
+  isRetentionExceeded,
+} from './call-result-retention.ts';
+
+describe('applyCallResultRetention', () => {
+  const events: CallResultEvent[] = [100, 200, 300].map((timestamp) => ({
+    id: `${timestamp}-0`,
+    callResult: CallResult.SUCCESS,
+    timestamp,
+  }));
+
+  it('keeps the newest maxEntries events', () => {
+    expect(
+      applyCallResultRetention(events, { maxEntries: 2 }).map(
+        (event) => event.timestamp,
+      ),
+    ).toEqual([200, 300]);
+  });
+
+  it('keeps the events within maxAgeMs of now', () => {
+    expect(
+      applyCallResultRetention(events, { maxAgeMs: 150 }, 350).map(
+        (event) => event.timestamp,
+      ),
+    ).toEqual([200, 300]);
+  });
+});
+
+describe('describeRetentionShortfall', () => {
+  it('returns null when the retention covers the requirement', () => {
+    expect(
+      describeRetentionShortfall({ maxEntries: 100 }, { maxEntries: 100 }),
+    ).toBeNull();
+    expect(
+      describeRetentionShortfall({ maxAgeMs: 60_000 }, { maxAgeMs: 30_000 }),
+    ).toBeNull();
+  });
+
+  it('describes a retention shorter than the requirement', () => {
+    expect(
+      describeRetentionShortfall({ maxEntries: 50 }, { maxEntries: 100 }),
+    ).toBe('keeps 50 call results, but the strategy evaluates the last 100');
+    expect(
+      describeRetentionShortfall({ maxAgeMs: 10_000 }, { maxAgeMs: 30_000 }),
+    ).toBe(
+      'keeps call results for 10000ms, but the strategy evaluates the last 30000ms',
+    );
+  });
+
+  it('describes a retention of a different kind than the requirement', () => {
+    expect(
+      describeRetentionShortfall({ maxEntries: 1000 }, { maxAgeMs: 60_000 }),
+    ).toBe(
+      'keeps 1000 call results, which may not cover the 60000ms the strategy evaluates',
+    );
+  });
+});
+
+describe('isRetentionExceeded', () => {
+  it('returns true when the requirement exceeds a retention of the same kind', () => {
+    expect(isRetentionExceeded({ maxEntries: 50 }, { maxEntries: 100 })).toBe(
+      true,
+    );
+    expect(
+      isRetentionExceeded({ maxAgeMs: 10_000 }, { maxAgeMs: 30_000 }),
+    ).toBe(true);
+  });
+
+  it('returns false when the retention covers the requirement or is of a different kind', () => {
+    expect(isRetentionExceeded({ maxEntries: 100 }, { maxEntries: 100 })).toBe(
+      false,
+    );
+    expect(
+      isRetentionExceeded({ maxEntries: 1000 }, { maxAgeMs: 60_000 }),
+    ).toBe(false);
+    expect(isRetentionExceeded({ maxAgeMs: 60_000 }, { maxEntries: 10 })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import type { CallResultRetention } from '../backends/breaker-backend.ts';
+import type { CallResultEvent } from '../types.ts';
+
+/**
+ * Drops the events the retention does not keep.
+ * @param events Events ordered from oldest to newest
+ * @param now Unix timestamp (in milliseconds) a time-based retention is relative to
+ * @returns The kept events, ordered from oldest to newest
+ */
+export const applyCallResultRetention = (
+  events: CallResultEvent[],
+  retention: CallResultRetention,
+  now = Date.now(),
+): CallResultEvent[] => {
+  if ('maxAgeMs' in retention) {
+    const cutoffTime = now - retention.maxAgeMs;
+    return events.filter((event) => event.timestamp >= cutoffTime);
+  }
+
+  return events.slice(-retention.maxEntries);
+};
+
+/**
+ * Explains why a configured retention may not keep the call results a strategy evaluates.
+ * @returns A description of the shortfall, or null if the retention covers the requirement
+ */
+export const describeRetentionShortfall = (
+  configured: CallResultRetention,
+  required: CallResultRetention,
+): string | null => {
+  if ('maxEntries' in required) {
+    if ('maxAgeMs' in configured) {
+      return `keeps call results for ${configured.maxAgeMs}ms, which may not hold the last ${required.maxEntries} calls the strategy evaluates`;
+    }
+
+    return configured.maxEntries < required.maxEntries
+      ? `keeps ${configured.maxEntries} call results, but the strategy evaluates the last ${required.maxEntries}`
+      : null;
+  }
+
+  if ('maxEntries' in configured) {
+    return `keeps ${configured.maxEntries} call results, which may not cover the ${required.maxAgeMs}ms the strategy evaluates`;
+  }
+
+  return configured.maxAgeMs < required.maxAgeMs
+    ? `keeps call results for ${configured.maxAgeMs}ms, but the strategy evaluates the last ${required.maxAgeMs}ms`
+    : null;
+};
+
+/**
+ * Returns true if a retention is certain to drop call results a strategy evaluates,
+ * i.e. both count the same unit and the configured one keeps less.
+ */
+export const isRetentionExceeded = (
+  configured: CallResultRetention,
+  required: CallResultRetention,
+): boolean => {
+  if ('maxEntries' in required) {
+    return (
+      'maxEntries' in configured && configured.maxEntries < required.maxEntries
+    );
+  }
+
+  return 'maxAgeMs' in configured && configured.maxAgeMs < required.maxAgeMs;
+};
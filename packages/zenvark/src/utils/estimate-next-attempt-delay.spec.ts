@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ConstantBackoff } from '../backoffs/constant-backoff.ts';
+import { ExponentialBackoff } from '../backoffs/exponential-backoff.ts';
+import { estimateNextAttemptDelayMs } from './estimate-next-attempt-delay.ts';
+
+describe('estimateNextAttemptDelayMs', () => {
+  it('returns the first delay when the schedule just started', () => {
+    const backoff = new ConstantBackoff({ delayMs: 1000 });
+
+    expect(estimateNextAttemptDelayMs(backoff, 0)).toBe(1000);
+  });
+
+  it('returns the time left until the next scheduled attempt', () => {
+    const backoff = new ExponentialBackoff({
+      initialDelayMs: 100,
+      multiplier: 2,
+    });
+
+    // Attempts are scheduled at 100, 300, 700, 1500
+    expect(estimateNextAttemptDelayMs(backoff, 50)).toBe(50);
+    expect(estimateNextAttemptDelayMs(backoff, 100)).toBe(200);
+    expect(estimateNextAttemptDelayMs(backoff, 1000)).toBe(500);
+  });
+
+  it('returns 0 for a schedule without delays', () => {
+    const backoff = new ConstantBackoff({ delayMs: 0 });
+
+    expect(estimateNextAttemptDelayMs(backoff, 100)).toBe(0);
+  });
+});
@@ -0,0 +1,32 @@
+import type { BackoffStrategy } from '../backoffs/backoff-strategy.ts';
+
+/**
+ * Limits how far the schedule is walked, so a backoff returning 0 for every
+ * attempt cannot loop forever.
+ */
+const MAX_ATTEMPTS = 1000;
+
+/**
+ * Estimates the time until the next attempt of a backoff schedule that started
+ * `elapsedMs` ago, assuming every earlier attempt failed instantly.
+ *
+ * @param backoff - The backoff strategy driving the attempts.
+ * @param elapsedMs - Milliseconds since the schedule started.
+ * @returns Milliseconds until the next attempt, or 0 if the schedule is exhausted.
+ */
+export const estimateNextAttemptDelayMs = (
+  backoff: BackoffStrategy,
+  elapsedMs: number,
+): number => {
+  let scheduledAtMs = 0;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    scheduledAtMs += backoff.getDelayMs(attempt);
+
+    if (scheduledAtMs > elapsedMs) {
+      return scheduledAtMs - elapsedMs;
+    }
+  }
+
+  return 0;
+};
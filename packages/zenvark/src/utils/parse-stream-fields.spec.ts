@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseStreamFields } from './parse-stream-fields.ts';
+
+describe('parseStreamFields', () => {
+  it('maps field pairs to a record', () => {
+    expect(parseStreamFields(['state', 'open', 'timestamp', '1000'])).toEqual({
+      state: 'open',
+      timestamp: '1000',
+    });
+  });
+
+  it('returns an empty record for no fields', () => {
+    expect(parseStreamFields([])).toEqual({});
+  });
+
+  it('ignores a trailing key without value', () => {
+    expect(parseStreamFields(['state', 'open', 'reason'])).toEqual({
+      state: 'open',
+    });
+  });
+});
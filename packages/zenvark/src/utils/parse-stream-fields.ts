@@ -0,0 +1,13 @@
+/**
+ * Converts the flat field list of a Redis stream entry
+ * (`[key1, value1, key2, value2, ...]`) into a key-value record.
+ */
+export const parseStreamFields = (fields: string[]): Record<string, string> => {
+  const record: Record<string, string> = {};
+
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    record[fields[i] as string] = fields[i + 1] as string;
+  }
+
+  return record;
+};
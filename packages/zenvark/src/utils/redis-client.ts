@@ -0,0 +1,26 @@
+import type { Cluster, Redis } from 'ioredis';
+
+/**
+ * Standalone Redis connection or Redis Cluster client.
+ */
+export type RedisClient = Redis | Cluster;
+
+type DuplicateOptions = {
+  /** Whether the duplicate connects on the first command or `connect()` instead of immediately */
+  lazyConnect?: boolean;
+};
+
+/**
+ * Creates a new connection with the same configuration as the given client.
+ * Cluster clients are duplicated with their startup nodes.
+ */
+export const duplicateClient = (
+  client: RedisClient,
+  options: DuplicateOptions = {},
+): RedisClient => {
+  if (client.isCluster) {
+    return (client as Cluster).duplicate(undefined, options);
+  }
+
+  return (client as Redis).duplicate(options);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { KeyLayout } from '../constants.ts';
+import { createBreakerKeys } from './redis-keys.ts';
+
+describe('createBreakerKeys', () => {
+  it('uses the zenvark prefix and plain layout by default', () => {
+    expect(createBreakerKeys('payments')).toEqual({
+      state: 'zenvark:payments:state',
+      callResult: 'zenvark:payments:call-result',
+      callResultBuckets: 'zenvark:payments:call-result-buckets',
+      trialPermit: 'zenvark:payments:trial-permit',
+      bulkhead: 'zenvark:payments:bulkhead',
+      leader: 'zenvark:payments:leader',
+      leaderHandoff: 'zenvark:payments:leader-handoff',
+      leaderTerm: 'zenvark:payments:leader-term',
+      config: 'zenvark:payments:config',
+    });
+  });
+
+  it('uses the configured prefix', () => {
+    expect(createBreakerKeys('payments', { prefix: 'staging' }).state).toBe(
+      'staging:payments:state',
+    );
+  });
+
+  it('wraps the id in a hash tag with the hash-tagged layout', () => {
+    expect(
+      createBreakerKeys('payments', {
+        prefix: 'prod',
+        layout: KeyLayout.HASH_TAGGED,
+      }),
+    ).toEqual({
+      state: 'prod:{payments}:state',
+      callResult: 'prod:{payments}:call-result',
+      callResultBuckets: 'prod:{payments}:call-result-buckets',
+      trialPermit: 'prod:{payments}:trial-permit',
+      bulkhead: 'prod:{payments}:bulkhead',
+      leader: 'prod:{payments}:leader',
+      leaderHandoff: 'prod:{payments}:leader-handoff',
+      leaderTerm: 'prod:{payments}:leader-term',
+      config: 'prod:{payments}:config',
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { KeyLayout } from '../constants.ts';
+
+const DEFAULT_KEY_PREFIX = 'zenvark';
+
+export type RedisKeyOptions = {
+  /** Namespace prepended to every key. Defaults to `zenvark`. */
+  prefix?: string;
+  /** How keys are composed from the breaker id. Defaults to `KeyLayout.PLAIN`. */
+  layout?: KeyLayout;
+};
+
+/**
+ * Redis keys used by a single circuit breaker.
+ */
+export type BreakerKeys = {
+  state: string;
+  callResult: string;
+  callResultBuckets: string;
+  trialPermit: string;
+  bulkhead: string;
+  leader: string;
+  leaderHandoff: string;
+  leaderTerm: string;
+  config: string;
+};
+
+/**
+ * Builds the Redis keys of a circuit breaker.
+ * @param id Circuit breaker id
+ * @param options Key prefix and layout
+ */
+export const createBreakerKeys = (
+  id: string,
+  options: RedisKeyOptions = {},
+): BreakerKeys => {
+  const prefix = options.prefix ?? DEFAULT_KEY_PREFIX;
+  const layout = options.layout ?? KeyLayout.PLAIN;
+
+  const base =
+    layout === KeyLayout.HASH_TAGGED ? `${prefix}:{${id}}` : `${prefix}:${id}`;
+
+  return {
+    state: `${base}:state`,
+    callResult: `${base}:call-result`,
+    callResultBuckets: `${base}:call-result-buckets`,
+    trialPermit: `${base}:trial-permit`,
+    bulkhead: `${base}:bulkhead`,
+    leader: `${base}:leader`,
+    leaderHandoff: `${base}:leader-handoff`,
+    leaderTerm: `${base}:leader-term`,
+    config: `${base}:config`,
+  };
+};
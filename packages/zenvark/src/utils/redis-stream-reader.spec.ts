@@ -1,16 +1,16 @@
-import { describe, it, vi } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { redis } from '../../test/setup-redis.ts';
+import { delay } from './delay.ts';
 import { RedisStreamReader } from './redis-stream-reader.ts';
 
 describe('RedisStreamReader', () => {
-  it('reads new entries and forwards them to onEntries', async () => {
-    const streamKey = 'stream:new-entries';
-
+  const subscribeCollecting = (
+    reader: RedisStreamReader,
+    streamKey: string,
+  ) => {
     const loadedEntries: [string, string[]][] = [];
 
-    const reader = new RedisStreamReader({
-      redis,
-      streamKey,
+    const unsubscribe = reader.subscribe(streamKey, {
       getLastId: () => {
         const lastEntry = loadedEntries.at(-1);
 
@@ -22,6 +22,14 @@ describe('RedisStreamReader', () => {
       onError: vi.fn(),
     });
 
+    return { loadedEntries, unsubscribe };
+  };
+
+  it('reads new entries and forwards them to onEntries', async () => {
+    const streamKey = 'stream:new-entries';
+    const reader = new RedisStreamReader({ redis });
+    const { loadedEntries } = subscribeCollecting(reader, streamKey);
+
     await reader.start();
 
     await redis.xadd(streamKey, '*', 'k', 'v1');
@@ -31,4 +39,75 @@ describe('RedisStreamReader', () => {
 
     await reader.stop();
   });
+
+  it('dispatches entries of each stream to its own subscription', async () => {
+    const reader = new RedisStreamReader({ redis });
+    const first = subscribeCollecting(reader, 'stream:first');
+    const second = subscribeCollecting(reader, 'stream:second');
+
+    await reader.start();
+
+    await redis.xadd('stream:first', '*', 'k', 'v1');
+    await redis.xadd('stream:second', '*', 'k', 'v2');
+    await redis.xadd('stream:second', '*', 'k', 'v3');
+
+    await vi.waitUntil(
+      () =>
+        first.loadedEntries.length === 1 && second.loadedEntries.length === 2,
+    );
+
+    await reader.stop();
+  });
+
+  it('picks up streams subscribed while blocked without waiting for the block timeout', async () => {
+    const reader = new RedisStreamReader({ redis });
+    subscribeCollecting(reader, 'stream:existing');
+
+    await reader.start();
+    // Let the listener block on the existing stream
+    await vi.waitUntil(async () => {
+      const clients = (await redis.client('LIST')) as string;
+      return clients.includes('cmd=xread');
+    });
+
+    const late = subscribeCollecting(reader, 'stream:late');
+    await redis.xadd('stream:late', '*', 'k', 'v1');
+
+    await vi.waitUntil(() => late.loadedEntries.length === 1, {
+      timeout: 500,
+    });
+
+    await reader.stop();
+  });
+
+  it('stops dispatching entries after unsubscribing', async () => {
+    const streamKey = 'stream:unsubscribed';
+    const reader = new RedisStreamReader({ redis });
+    const { loadedEntries, unsubscribe } = subscribeCollecting(
+      reader,
+      streamKey,
+    );
+
+    await reader.start();
+
+    await redis.xadd(streamKey, '*', 'k', 'v1');
+    await vi.waitUntil(() => loadedEntries.length === 1);
+
+    unsubscribe();
+    await redis.xadd(streamKey, '*', 'k', 'v2');
+    await delay(200);
+
+    expect(loadedEntries).toHaveLength(1);
+
+    await reader.stop();
+  });
+
+  it('rejects a second subscription to the same stream', () => {
+    const reader = new RedisStreamReader({ redis });
+    subscribeCollecting(reader, 'stream:duplicate');
+
+    expect(() => subscribeCollecting(reader, 'stream:duplicate')).toThrow(
+      'Stream stream:duplicate is already subscribed',
+    );
+  });
 });
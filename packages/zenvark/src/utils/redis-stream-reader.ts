@@ -1,99 +1,296 @@
-import type { Redis } from 'ioredis';
+import calculateSlot from 'cluster-key-slot';
+import type { Cluster, Redis } from 'ioredis';
 import { AbstractLifecycleManager } from './abstract-lifecycle-manager.ts';
 import { delay } from './delay.ts';
+import { duplicateClient, type RedisClient } from './redis-client.ts';
 
 const XREAD_BLOCK_TIMEOUT_MS = 1000;
+const CLUSTER_POLL_INTERVAL_MS = 100;
 const ERROR_RETRY_DELAY_MS = 500;
 
+/** Node of all streams when reading from a standalone Redis */
+const STANDALONE_NODE = 'standalone';
+
 type RedisStreamReaderOptions = {
-  /** Base Redis client to duplicate for the dedicated listener connection */
-  redis: Redis;
-  /** Stream key to read from */
-  streamKey: string;
+  /**
+   * Base Redis client. Its connections are duplicated for the dedicated listener
+   * connections, and used as is to wake a listener when streams are subscribed.
+   */
+  redis: RedisClient;
+};
+
+export type StreamSubscription = {
   /** Function returning the last seen id; used to resume reads without duplicates */
   getLastId: () => string;
   /** Called with newly read raw entries (array of [id, fields]) */
   onEntries: (entries: [string, string[]][]) => void | Promise<void>;
-  /** Called when an error occurs while reading */
+  /** Called when an error occurs while reading or handling entries */
   onError: (err: unknown) => void;
 };
 
+type SubscriptionEntry = {
+  subscription: StreamSubscription;
+  /** Hash slot of the stream, or null with a standalone Redis */
+  slot: number | null;
+};
+
 type ReaderLoop = {
   abortController: AbortController;
+  /** Dedicated connection to the node the loop reads from */
   redisListener: Redis;
+  /** Connection to the same node, used to interrupt a blocked XREAD */
+  wakeClient: Redis;
   promise: Promise<unknown>;
+  /** Connection id of the listener, used to interrupt a blocked XREAD */
+  clientId: number | null;
+  isBlocked: boolean;
 };
 
 /**
- * Helper that encapsulates a robust XREAD BLOCK loop to read from a Redis Stream.
+ * Reads any number of Redis Streams using one loop and connection per Redis node.
+ * With a standalone Redis all keys are read by a single XREAD BLOCK.
+ * Redis Cluster rejects reads spanning several hash slots, so a master node serving
+ * streams of several slots polls them with one XREAD per slot instead of blocking.
  */
 export class RedisStreamReader extends AbstractLifecycleManager {
-  private readonly redis: Redis;
-  private readonly streamKey: string;
-  private readonly getLastId: () => string;
-  private readonly onEntries: (
-    entries: [string, string[]][],
-  ) => void | Promise<void>;
-  private readonly onError: (err: unknown) => void;
+  private readonly redis: RedisClient;
+  private readonly subscriptions = new Map<string, SubscriptionEntry>();
+  private readonly readerLoops = new Map<string, ReaderLoop>();
 
-  private readerLoop: ReaderLoop | null = null;
+  private isRunning = false;
 
   constructor(options: RedisStreamReaderOptions) {
     super();
 
     this.redis = options.redis;
-    this.streamKey = options.streamKey;
-    this.getLastId = options.getLastId;
-    this.onEntries = options.onEntries;
-    this.onError = options.onError;
   }
 
   protected override startInternal(): Promise<void> {
-    if (this.readerLoop) {
-      return Promise.resolve();
+    this.isRunning = true;
+
+    // Slots that moved to another node are read from there after the refresh
+    if (this.redis.isCluster) {
+      this.redis.on('refresh', this.handleTopologyRefresh);
     }
 
-    const abortController = new AbortController();
-    const redisListener = this.redis.duplicate();
+    this.ensureReaderLoops();
+
+    return Promise.resolve();
+  }
+
+  protected override async stopInternal(): Promise<void> {
+    this.isRunning = false;
+
+    if (this.redis.isCluster) {
+      this.redis.off('refresh', this.handleTopologyRefresh);
+    }
+
+    const readerLoops = Array.from(this.readerLoops.values());
+    this.readerLoops.clear();
+
+    for (const readerLoop of readerLoops) {
+      readerLoop.abortController.abort();
+      readerLoop.redisListener.disconnect();
+    }
+
+    await Promise.all(readerLoops.map((readerLoop) => readerLoop.promise));
+  }
+
+  /**
+   * Starts dispatching entries of the stream to the subscription.
+   * A stream can have only one subscription at a time.
+   * @returns Function that removes the subscription
+   */
+  subscribe(streamKey: string, subscription: StreamSubscription): () => void {
+    if (this.subscriptions.has(streamKey)) {
+      throw new Error(`Stream ${streamKey} is already subscribed`);
+    }
+
+    const entry: SubscriptionEntry = {
+      subscription,
+      slot: this.redis.isCluster ? calculateSlot(streamKey) : null,
+    };
+
+    this.subscriptions.set(streamKey, entry);
+
+    const nodeKey = this.resolveNodeKey(entry.slot);
+    if (this.isRunning && nodeKey !== null) {
+      const existing = this.readerLoops.get(nodeKey);
+
+      if (existing) {
+        this.wakeReaderLoop(existing);
+      } else {
+        this.startReaderLoop(nodeKey);
+      }
+    }
+
+    return () => {
+      if (this.subscriptions.get(streamKey) === entry) {
+        this.subscriptions.delete(streamKey);
+      }
+    };
+  }
+
+  private readonly handleTopologyRefresh = (): void => {
+    this.ensureReaderLoops();
+  };
+
+  /**
+   * Starts a loop for every node serving a subscribed stream that is not read yet.
+   */
+  private ensureReaderLoops(): void {
+    for (const { slot } of this.subscriptions.values()) {
+      const nodeKey = this.resolveNodeKey(slot);
+
+      if (nodeKey !== null && !this.readerLoops.has(nodeKey)) {
+        this.startReaderLoop(nodeKey);
+      }
+    }
+  }
+
+  /**
+   * Returns the key of the node serving the slot, or null while the cluster
+   * topology is not known yet.
+   */
+  private resolveNodeKey(slot: number | null): string | null {
+    if (slot === null) {
+      return STANDALONE_NODE;
+    }
+
+    return (this.redis as Cluster).slots[slot]?.[0] ?? null;
+  }
+
+  private startReaderLoop(nodeKey: string): void {
+    let redisListener: Redis;
+    let wakeClient: Redis;
+
+    if (nodeKey === STANDALONE_NODE) {
+      redisListener = duplicateClient(this.redis) as Redis;
+      wakeClient = this.redis as Redis;
+    } else {
+      const node = (this.redis as Cluster)
+        .nodes('master')
+        .find(({ options }) => `${options.host}:${options.port}` === nodeKey);
+
+      // The node is connected to by the cluster client on its next refresh
+      if (!node) {
+        return;
+      }
+
+      redisListener = node.duplicate();
+      wakeClient = node;
+    }
 
-    this.readerLoop = {
-      abortController,
+    const readerLoop: ReaderLoop = {
+      abortController: new AbortController(),
       redisListener,
-      promise: this.listenLoop(abortController.signal, redisListener),
+      wakeClient,
+      promise: Promise.resolve(),
+      clientId: null,
+      isBlocked: false,
     };
 
-    return Promise.resolve();
+    // The connection id changes after a reconnect
+    redisListener.on('ready', () => {
+      readerLoop.clientId = null;
+    });
+
+    readerLoop.promise = this.listenLoop(nodeKey, readerLoop);
+    this.readerLoops.set(nodeKey, readerLoop);
   }
 
-  protected override async stopInternal(): Promise<void> {
-    if (!this.readerLoop) {
-      return;
+  /**
+   * Makes a blocked loop pick up new subscriptions without waiting for the block timeout.
+   */
+  private wakeReaderLoop(readerLoop: ReaderLoop): void {
+    if (readerLoop.isBlocked && readerLoop.clientId !== null) {
+      // A failed unblock only delays the subscription until the block times out
+      readerLoop.wakeClient
+        .client('UNBLOCK', readerLoop.clientId)
+        .catch(() => {});
+    }
+  }
+
+  private stopReaderLoop(nodeKey: string, readerLoop: ReaderLoop): void {
+    if (this.readerLoops.get(nodeKey) === readerLoop) {
+      this.readerLoops.delete(nodeKey);
     }
+    readerLoop.redisListener.disconnect();
+  }
 
-    this.readerLoop.abortController.abort();
-    this.readerLoop.redisListener.disconnect();
-    await this.readerLoop.promise;
+  /**
+   * Returns the subscriptions read from the node, grouped by hash slot.
+   */
+  private getNodeSubscriptions(
+    nodeKey: string,
+  ): [string, StreamSubscription][][] {
+    const groups = new Map<number | null, [string, StreamSubscription][]>();
 
-    this.readerLoop = null;
+    for (const [streamKey, entry] of this.subscriptions) {
+      if (this.resolveNodeKey(entry.slot) !== nodeKey) {
+        continue;
+      }
+
+      const group = groups.get(entry.slot) ?? [];
+      group.push([streamKey, entry.subscription]);
+      groups.set(entry.slot, group);
+    }
+
+    return Array.from(groups.values());
   }
 
   private async listenLoop(
-    signal: AbortSignal,
-    redisListener: Redis,
+    nodeKey: string,
+    readerLoop: ReaderLoop,
   ): Promise<void> {
+    const { abortController, redisListener } = readerLoop;
+    const signal = abortController.signal;
+
     while (!signal.aborted) {
+      const groups = this.getNodeSubscriptions(nodeKey);
+
+      // The loop ends with its last subscription and is started again by the next one
+      if (groups.length === 0) {
+        this.stopReaderLoop(nodeKey, readerLoop);
+        return;
+      }
+
       try {
-        const result = await redisListener.xread(
-          'BLOCK',
-          XREAD_BLOCK_TIMEOUT_MS,
-          'STREAMS',
-          this.streamKey,
-          this.getLastId(),
-        );
-
-        const entries = result?.[0]?.[1];
-        if (entries && entries.length > 0) {
-          await this.onEntries(entries);
+        const [group] = groups;
+
+        if (groups.length === 1 && group) {
+          readerLoop.clientId ??= await redisListener.client('ID');
+
+          readerLoop.isBlocked = true;
+          const result = await redisListener
+            .xread('BLOCK', XREAD_BLOCK_TIMEOUT_MS, ...toStreamsArgs(group))
+            .finally(() => {
+              readerLoop.isBlocked = false;
+            });
+
+          await this.dispatchResult(result);
+          continue;
+        }
+
+        const pipeline = redisListener.pipeline();
+        for (const slotGroup of groups) {
+          pipeline.xread(...toStreamsArgs(slotGroup));
+        }
+
+        let hasEntries = false;
+        for (const [err, result] of (await pipeline.exec()) ?? []) {
+          if (err) {
+            throw err;
+          }
+
+          hasEntries ||= result !== null;
+          await this.dispatchResult(
+            result as [string, [string, string[]][]][] | null,
+          );
+        }
+
+        if (!hasEntries) {
+          await delay(CLUSTER_POLL_INTERVAL_MS, signal);
         }
       } catch (err) {
         // If shutdown was initiated, we can assume this error is a side effect
@@ -102,10 +299,55 @@ export class RedisStreamReader extends AbstractLifecycleManager {
           break;
         }
 
-        this.onError(err);
+        for (const [, subscription] of groups.flat()) {
+          subscription.onError(err);
+        }
 
         await delay(ERROR_RETRY_DELAY_MS, signal);
+
+        // Connections to cluster nodes are not re-established and the node may
+        // no longer serve the slots, so the loops are started again for the
+        // nodes currently serving them
+        if (this.redis.isCluster && !signal.aborted) {
+          this.stopReaderLoop(nodeKey, readerLoop);
+          (this.redis as Cluster).refreshSlotsCache();
+          this.ensureReaderLoops();
+          return;
+        }
       }
     }
   }
+
+  private async dispatchResult(
+    result: [string, [string, string[]][]][] | null,
+  ): Promise<void> {
+    for (const [streamKey, entries] of result ?? []) {
+      await this.dispatchEntries(streamKey, entries);
+    }
+  }
+
+  private async dispatchEntries(
+    streamKey: string,
+    entries: [string, string[]][],
+  ): Promise<void> {
+    // The stream may have been unsubscribed while the read was blocked
+    const entry = this.subscriptions.get(streamKey);
+    if (!entry || entries.length === 0) {
+      return;
+    }
+
+    try {
+      await entry.subscription.onEntries(entries);
+    } catch (err) {
+      entry.subscription.onError(err);
+    }
+  }
 }
+
+const toStreamsArgs = (
+  subscriptions: [string, StreamSubscription][],
+): ['STREAMS', ...string[]] => [
+  'STREAMS',
+  ...subscriptions.map(([streamKey]) => streamKey),
+  ...subscriptions.map(([, subscription]) => subscription.getLastId()),
+];
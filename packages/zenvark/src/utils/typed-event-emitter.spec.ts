@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TypedEventEmitter } from './typed-event-emitter.ts';
+
+type TestEvents = {
+  value: [value: number];
+  done: [];
+};
+
+describe('TypedEventEmitter', () => {
+  const createEmitter = (onListenerError = vi.fn()) =>
+    new TypedEventEmitter<TestEvents>({ onListenerError });
+
+  it('calls every listener with the emitted arguments', () => {
+    const emitter = createEmitter();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    emitter.on('value', first);
+    emitter.on('value', second);
+    emitter.emit('value', 42);
+
+    expect(first).toHaveBeenCalledExactlyOnceWith(42);
+    expect(second).toHaveBeenCalledExactlyOnceWith(42);
+  });
+
+  it('calls once listeners only for the next emission', () => {
+    const emitter = createEmitter();
+    const listener = vi.fn();
+
+    emitter.once('done', listener);
+    emitter.emit('done');
+    emitter.emit('done');
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(emitter.listenerCount('done')).toBe(0);
+  });
+
+  it('keeps a listener registered with on() when the same function fires once', () => {
+    const emitter = createEmitter();
+    const listener = vi.fn();
+
+    emitter.on('done', listener);
+    emitter.once('done', listener);
+    emitter.emit('done');
+    emitter.emit('done');
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(emitter.listenerCount('done')).toBe(1);
+  });
+
+  it('stops calling removed listeners', () => {
+    const emitter = createEmitter();
+    const listener = vi.fn();
+
+    emitter.on('value', listener);
+    emitter.off('value', listener);
+    emitter.emit('value', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reports listener errors without affecting other listeners', async () => {
+    const onListenerError = vi.fn();
+    const emitter = createEmitter(onListenerError);
+    const error = new Error('listener failed');
+    const listener = vi.fn();
+
+    emitter.on('value', () => {
+      throw error;
+    });
+    emitter.on('value', () => Promise.reject(error));
+    emitter.on('value', listener);
+    emitter.emit('value', 1);
+
+    expect(listener).toHaveBeenCalledOnce();
+    await vi.waitFor(() => expect(onListenerError).toHaveBeenCalledTimes(2));
+    expect(onListenerError).toHaveBeenCalledWith('value', error);
+  });
+});
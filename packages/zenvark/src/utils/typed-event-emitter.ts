@@ -0,0 +1,117 @@
+/**
+ * Maps event names to the arguments their listeners receive.
+ */
+export type EventMap = Record<string, unknown[]>;
+
+export type EventListener<TArgs extends unknown[]> = (
+  ...args: TArgs
+) => void | Promise<void>;
+
+type ListenerEntry<TArgs extends unknown[]> = {
+  listener: EventListener<TArgs>;
+  once: boolean;
+};
+
+type TypedEventEmitterOptions = {
+  /** Called when a listener throws or returns a rejected promise */
+  onListenerError: (event: string, err: unknown) => void;
+};
+
+/**
+ * Minimal event emitter with typed event names and arguments.
+ * Unlike `node:events`, a failing listener does not affect the emitter
+ * or other listeners; its error is passed to `onListenerError` instead.
+ */
+export class TypedEventEmitter<TEvents extends EventMap> {
+  private readonly onListenerError: (event: string, err: unknown) => void;
+  private readonly listeners: {
+    [TEvent in keyof TEvents]?: ListenerEntry<TEvents[TEvent]>[];
+  } = {};
+
+  constructor(options: TypedEventEmitterOptions) {
+    this.onListenerError = options.onListenerError;
+  }
+
+  on<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventListener<TEvents[TEvent]>,
+  ): void {
+    this.addListener(event, listener, false);
+  }
+
+  once<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventListener<TEvents[TEvent]>,
+  ): void {
+    this.addListener(event, listener, true);
+  }
+
+  /**
+   * Removes the first registration of `listener` for the event.
+   */
+  off<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventListener<TEvents[TEvent]>,
+  ): void {
+    const entries = this.listeners[event];
+    const index =
+      entries?.findIndex((entry) => entry.listener === listener) ?? -1;
+
+    if (entries && index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+
+  listenerCount(event: keyof TEvents): number {
+    return this.listeners[event]?.length ?? 0;
+  }
+
+  emit<TEvent extends keyof TEvents>(
+    event: TEvent,
+    ...args: TEvents[TEvent]
+  ): void {
+    const entries = this.listeners[event];
+    if (!entries?.length) {
+      return;
+    }
+
+    // Iterate over a copy, so listeners added or removed while emitting do not affect this emission
+    for (const entry of [...entries]) {
+      // Removed by identity, as the same function may also be registered with on()
+      const index = entry.once ? entries.indexOf(entry) : -1;
+      if (index !== -1) {
+        entries.splice(index, 1);
+      }
+
+      this.invoke(event, entry.listener, args);
+    }
+  }
+
+  private invoke<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventListener<TEvents[TEvent]>,
+    args: TEvents[TEvent],
+  ): void {
+    try {
+      const result = listener(...args);
+
+      if (result instanceof Promise) {
+        result.catch((err: unknown) => {
+          this.onListenerError(String(event), err);
+        });
+      }
+    } catch (err) {
+      this.onListenerError(String(event), err);
+    }
+  }
+
+  private addListener<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventListener<TEvents[TEvent]>,
+    once: boolean,
+  ): void {
+    const entries = this.listeners[event] ?? [];
+    entries.push({ listener, once });
+    this.listeners[event] = entries;
+  }
+}
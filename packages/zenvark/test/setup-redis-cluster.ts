@@ -0,0 +1,18 @@
+import { once } from 'node:events';
+import { Cluster } from 'ioredis';
+import { afterAll, beforeEach } from 'vitest';
+
+export const cluster = new Cluster([{ host: 'localhost', port: 7000 }]);
+
+beforeEach(async () => {
+  // Nodes are known only once the cluster topology has been loaded
+  if (cluster.status !== 'ready') {
+    await once(cluster, 'ready');
+  }
+
+  await Promise.all(cluster.nodes('master').map((node) => node.flushall()));
+});
+
+afterAll(async () => {
+  await cluster.quit();
+});